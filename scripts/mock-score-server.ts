@@ -0,0 +1,130 @@
+// In-memory score server for trying the HTTP leaderboard locally. Every
+// submission is re-simulated and rejected unless it reproduces its score.
+//   npm run mock:scores
+//   VITE_SCORE_API_URL=http://localhost:8787 npm run dev
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { parseReplay } from "../src/game/replay";
+import { getRulesId, getSnakeRulesId } from "../src/game/rules";
+import type { SnakeRules } from "../src/game/types";
+import { verifyReplay } from "../src/game/verify";
+
+interface StoredScore {
+  id: string;
+  playerName: string;
+  mode: string;
+  difficulty: string;
+  rulesId: string;
+  snakeRules: SnakeRules;
+  score: number;
+  frogsEaten: number;
+  portalsEntered: number;
+  duration: number;
+  reachedAdvancedLevel: boolean;
+  date: string;
+  seed: number;
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const scores: StoredScore[] = [];
+
+const send = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<Record<string, unknown>>((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+const listScores = (params: URLSearchParams) => {
+  const mode = params.get("mode");
+  const rulesId = params.get("rules");
+  const snake = params.get("snake");
+  const since = params.get("since");
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const pageSize = Math.min(100, Math.max(1, Number(params.get("pageSize")) || 10));
+
+  const matching = scores
+    .filter((entry) =>
+      (!mode || entry.mode === mode) &&
+      (!rulesId || entry.rulesId === rulesId) &&
+      (!snake || getSnakeRulesId(entry.snakeRules) === snake) &&
+      (!since || entry.date >= since)
+    )
+    .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date));
+  const start = (page - 1) * pageSize;
+
+  return { entries: matching.slice(start, start + pageSize), total: matching.length };
+};
+
+const storeSubmission = (body: Record<string, unknown>) => {
+  const replay = parseReplay(JSON.stringify(body.replay));
+  const result = verifyReplay(replay);
+  if (result.valid === false) {
+    throw new Error(`Replay rejected: ${result.reason}`);
+  }
+
+  // Only the player's name, mode and date are taken from the client;
+  // everything else comes from the re-simulated run
+  const { state } = result;
+  const date = typeof body.date === "string" && !Number.isNaN(Date.parse(body.date)) ? body.date : new Date().toISOString();
+  const entry: StoredScore = {
+    id: `${Date.parse(date)}-${state.seed}-${scores.length}`,
+    playerName: String(body.playerName ?? "").slice(0, 24),
+    mode: body.mode === "seeded" ? "seeded" : "classic",
+    difficulty: state.difficulty,
+    rulesId: getRulesId(state.difficulty, state.rules),
+    snakeRules: state.snakeRules,
+    score: state.coins,
+    frogsEaten: state.frogsEaten,
+    portalsEntered: state.usedPortalIds.size,
+    duration: state.elapsedTime,
+    reachedAdvancedLevel: state.reachedAdvancedLevel,
+    date,
+    seed: state.seed,
+  };
+  scores.push(entry);
+  return entry;
+};
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (url.pathname !== "/scores") return send(res, 404, { error: "Not found" });
+
+  if (req.method === "GET") return send(res, 200, listScores(url.searchParams));
+
+  if (req.method === "POST") {
+    let body: Record<string, unknown>;
+    try {
+      body = await readBody(req);
+    } catch {
+      return send(res, 400, { error: "Body must be JSON" });
+    }
+
+    try {
+      return send(res, 201, storeSubmission(body));
+    } catch (error) {
+      return send(res, 422, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  send(res, 405, { error: "Method not allowed" });
+}).listen(PORT, () => {
+  console.log(`Mock score server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,30 @@
+// Re-simulate exported replay files and report whether their scores hold up.
+//   npm run verify:replay -- snake-replay-123.txt [...more files]
+import { readFileSync } from "node:fs";
+import { parseReplay } from "../src/game/replay";
+import { verifyReplay } from "../src/game/verify";
+
+const files = process.argv.slice(2);
+if (files.length === 0) {
+  console.error("Usage: npm run verify:replay -- <replay file> [...]");
+  process.exit(2);
+}
+
+let failures = 0;
+for (const file of files) {
+  try {
+    const replay = parseReplay(readFileSync(file, "utf8"));
+    const result = verifyReplay(replay);
+    if (result.valid) {
+      console.log(`✔ ${file}: score ${result.state.coins} (seed ${replay.seed}, ${result.state.elapsedTime.toFixed(1)}s)`);
+    } else {
+      failures += 1;
+      console.log(`✘ ${file}: ${result.reason}`);
+    }
+  } catch (error) {
+    failures += 1;
+    console.log(`✘ ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,28 @@
+import { getBossDefinition } from "@/game/bosses";
+import type { Boss } from "@/game/types";
+
+interface BossHealthBarProps {
+  boss: Boss;
+}
+
+// The boss's name, phase and remaining health across the top of the board
+export const BossHealthBar = ({ boss }: BossHealthBarProps) => {
+  const { name, icon, maxHealth, phases } = getBossDefinition(boss.kind);
+
+  return (
+    <div className="absolute inset-x-0 top-2 flex justify-center pointer-events-none z-40" role="status">
+      <div className="w-3/4 bg-background/80 px-3 py-1.5 rounded-lg border shadow-lg">
+        <div className="flex justify-between text-xs font-bold">
+          <span>{icon} {name}</span>
+          <span className="text-muted-foreground">Phase {boss.phase + 1}/{phases}</span>
+        </div>
+        <div className="mt-1 h-2 rounded-full bg-muted overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-red-600 to-orange-500 transition-[width] duration-300"
+            style={{ width: `${(boss.health / maxHealth) * 100}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
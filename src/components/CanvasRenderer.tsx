@@ -0,0 +1,55 @@
+import { useEffect, useRef } from "react";
+import { WORLD_HEIGHT, WORLD_WIDTH } from "@/game/constants";
+import { drawGame } from "@/lib/draw-game";
+import type { GameState } from "@/game/types";
+
+interface CanvasRendererProps {
+  state: GameState;
+  colorblind?: boolean;
+  // Hold decorative animations still, for players who prefer reduced motion
+  animate?: boolean;
+}
+
+// Draws the playfield onto a single <canvas>, redrawn every animation frame.
+// The canvas fills the board; world units are scaled straight to its backing
+// pixels so it stays sharp at any size.
+export const CanvasRenderer = ({ state, colorblind = false, animate = true }: CanvasRendererProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const optionsRef = useRef({ colorblind, animate });
+  optionsRef.current = { colorblind, animate };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Match the backing store to the element's size and the screen's pixel density
+    const resize = () => {
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(canvas.clientWidth * ratio);
+      canvas.height = Math.round(canvas.clientHeight * ratio);
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    let frameId = 0;
+    const frame = (time: number) => {
+      const scale = canvas.width / WORLD_WIDTH;
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      const options = optionsRef.current;
+      drawGame(ctx, stateRef.current, WORLD_WIDTH, WORLD_HEIGHT, options.animate ? time / 1000 : 0, options);
+      frameId = requestAnimationFrame(frame);
+    };
+    frameId = requestAnimationFrame(frame);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      observer.disconnect();
+    };
+  }, []);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />;
+};
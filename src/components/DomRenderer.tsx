@@ -0,0 +1,527 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { BOSS_VIEWS } from "@/components/bosses";
+import { ENEMY_VIEWS } from "@/components/enemies";
+import { OBSTACLE_VIEWS } from "@/components/obstacles";
+import { BIRD_SIZE, PIPE_WIDTH, SHRINK_SCALE, WORLD_HEIGHT, WORLD_WIDTH } from "@/game/constants";
+import { isEnemyIn } from "@/game/enemies";
+import { FROG_VARIETIES } from "@/game/frogs";
+import { KEY_SIZE, LIGHT_RADIUS, isExitOpen } from "@/game/portal-worlds";
+import { POWER_UP_INFO, isPowerUpActive } from "@/game/power-ups";
+import { STAGES } from "@/game/stages";
+import type { Frog, FrogVariety, GameState, StageTheme } from "@/game/types";
+
+interface DomRendererProps {
+  state: GameState;
+  colorblind?: boolean;
+}
+
+const STAGE_BACKGROUNDS: Record<StageTheme, string> = {
+  meadow: 'bg-gradient-to-b from-blue-400 to-blue-600',
+  sunset: 'bg-gradient-to-b from-orange-400 to-red-500',
+  jungle: 'bg-gradient-to-b from-green-400 to-emerald-600',
+  twilight: 'bg-gradient-to-b from-purple-400 to-indigo-600',
+  inferno: 'bg-gradient-to-b from-red-600 via-orange-500 to-yellow-600',
+  storm: 'bg-gradient-to-b from-slate-500 via-slate-700 to-slate-900'
+};
+
+// Shifts bad frogs from red to blue, so they don't blend in with green ones
+const COLORBLIND_BAD_FROG_FILTER = 'hue-rotate(220deg)';
+
+// Tailwind classes for each part of a frog, by variety
+const FROG_CLASSES: Record<FrogVariety, { body: string; head: string; eye: string; pupil: string; mouth: string; arm: string; leg: string }> = {
+  common: {
+    body: 'from-green-400 to-green-600 border-green-300',
+    head: 'from-green-300 to-green-500 border-green-400',
+    eye: 'bg-yellow-400',
+    pupil: 'bg-black',
+    mouth: 'bg-green-600',
+    arm: 'bg-green-500',
+    leg: 'bg-green-600'
+  },
+  bad: {
+    body: 'from-red-500 to-red-700 border-red-400',
+    head: 'from-red-400 to-red-600 border-red-500',
+    eye: 'bg-red-300',
+    pupil: 'bg-red-800',
+    mouth: 'bg-red-800',
+    arm: 'bg-red-600',
+    leg: 'bg-red-700'
+  },
+  golden: {
+    body: 'from-yellow-300 to-amber-500 border-yellow-200 shadow-yellow-300/60',
+    head: 'from-yellow-200 to-amber-400 border-yellow-300',
+    eye: 'bg-white',
+    pupil: 'bg-black',
+    mouth: 'bg-amber-600',
+    arm: 'bg-amber-400',
+    leg: 'bg-amber-500'
+  },
+  poisonDart: {
+    body: 'from-purple-500 to-indigo-700 border-purple-300',
+    head: 'from-purple-400 to-indigo-600 border-purple-400',
+    eye: 'bg-yellow-400',
+    pupil: 'bg-black',
+    mouth: 'bg-indigo-800',
+    arm: 'bg-purple-600',
+    leg: 'bg-indigo-700'
+  },
+  tree: {
+    body: 'from-lime-400 to-lime-600 border-lime-300',
+    head: 'from-lime-300 to-lime-500 border-lime-400',
+    eye: 'bg-red-500',
+    pupil: 'bg-black',
+    mouth: 'bg-lime-700',
+    arm: 'bg-lime-500',
+    leg: 'bg-lime-600'
+  },
+  splitting: {
+    body: 'from-teal-400 to-cyan-600 border-teal-300',
+    head: 'from-teal-300 to-cyan-500 border-teal-400',
+    eye: 'bg-yellow-400',
+    pupil: 'bg-black',
+    mouth: 'bg-cyan-700',
+    arm: 'bg-teal-500',
+    leg: 'bg-cyan-600'
+  }
+};
+
+// Mid-hop frogs move for real instead of bouncing on the spot
+const isHopping = (frog: Frog) => frog.vx !== 0 || frog.vy !== 0;
+
+// Draws the playfield as absolutely positioned, Tailwind-styled divs, laid
+// out in world units and scaled as a whole to fill the board it sits in
+export const DomRenderer = ({ state, colorblind = false }: DomRendererProps) => {
+  const worldRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(1);
+
+  useLayoutEffect(() => {
+    const board = worldRef.current?.parentElement;
+    if (!board) return;
+    const resize = () => setScale(board.clientWidth / WORLD_WIDTH);
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(board);
+    return () => observer.disconnect();
+  }, []);
+
+  const BossView = state.boss ? BOSS_VIEWS[state.boss.kind] : null;
+
+  return (
+    <div
+      ref={worldRef}
+      className={`absolute left-0 top-0 origin-top-left transition-[background] duration-1000 ${
+        state.inSpecialWorld 
+          ? 'bg-gradient-to-b from-purple-600 via-pink-500 to-cyan-600' 
+          : STAGE_BACKGROUNDS[STAGES[state.stage].theme]
+        }`}
+      style={{ width: WORLD_WIDTH, height: WORLD_HEIGHT, transform: `scale(${scale})` }}
+    >
+      {/* Enhanced Snake with Body Segments */}
+      <div
+        className={`absolute ${
+          state.inSpecialWorld ? 'animate-pulse' : ''
+        } ${state.isEating ? 'animate-bounce' : ''} ${
+          state.isBadFrogReaction ? 'animate-ping' : ''
+        } ${state.isInvincible ? 'animate-pulse opacity-70' : ''}`}
+        style={{
+          left: `${state.birdX}px`,
+          top: `${state.birdY}px`,
+          width: `${Math.min(50, 30 + state.frogsEaten * 3)}px`,
+          height: `${Math.min(40, 25 + state.frogsEaten * 2)}px`,
+          transform: `rotate(${state.birdDirection.x > 0 ? '15deg' : 
+            state.birdDirection.x < 0 ? '-15deg' : 
+            state.birdDirection.y > 0 ? '90deg' : 
+            state.birdDirection.y < 0 ? '-90deg' : '0deg'}) scale(${isPowerUpActive(state, 'shrink') ? SHRINK_SCALE : 1})`,
+          zIndex: 100
+        }}
+      >
+        {/* Shield bubble */}
+        {isPowerUpActive(state, 'shield') && (
+          <div className="absolute -inset-2 rounded-full border-2 border-cyan-300 bg-cyan-200/20 shadow-lg shadow-cyan-300/50" />
+        )}
+
+        {/* Snake Head */}
+        <div className={`w-full h-full rounded-full border-3 shadow-xl relative overflow-hidden ${
+          state.frogsEaten >= 10 ? 'border-gold-400 bg-gradient-to-br from-amber-400 via-yellow-500 to-orange-600' :
+          state.frogsEaten >= 5 ? 'border-purple-400 bg-gradient-to-br from-purple-500 via-pink-500 to-red-500' :
+          state.inSpecialWorld ? 'border-cyan-400 bg-gradient-to-br from-emerald-400 via-green-500 to-teal-600' : 
+          'border-white bg-gradient-to-br from-green-500 via-emerald-600 to-green-700'
+        }`}>
+          
+          {/* Fancy Pattern Overlay */}
+          {state.frogsEaten >= 3 && (
+            <>
+              <div className={`absolute inset-1 rounded-full ${
+                state.frogsEaten >= 10 ? 'bg-gradient-to-br from-gold-300/30 to-amber-500/30' :
+                state.frogsEaten >= 5 ? 'bg-gradient-to-br from-purple-300/30 to-pink-500/30' :
+                'bg-gradient-to-br from-cyan-300/30 to-emerald-500/30'
+              } animate-pulse`}></div>
+              <div className={`absolute w-2 h-2 top-1 left-1/2 transform -translate-x-1/2 rotate-45 ${
+                state.frogsEaten >= 10 ? 'bg-gold-300' :
+                state.frogsEaten >= 5 ? 'bg-purple-300' : 'bg-cyan-300'
+              }`}></div>
+            </>
+          )}
+          
+          {/* Enhanced Snake Pattern */}
+          <div className={`absolute w-2.5 h-2.5 rounded-full top-1 left-2 ${
+            state.frogsEaten >= 10 ? 'bg-amber-300' :
+            state.frogsEaten >= 5 ? 'bg-purple-300' :
+            state.inSpecialWorld ? 'bg-emerald-300' : 'bg-green-400'
+          }`}></div>
+          <div className={`absolute w-2 h-2 rounded-full top-3 left-1 ${
+            state.frogsEaten >= 10 ? 'bg-orange-300' :
+            state.frogsEaten >= 5 ? 'bg-pink-300' :
+            state.inSpecialWorld ? 'bg-teal-300' : 'bg-green-400'
+          }`}></div>
+          
+          {/* Enhanced Snake Eyes with bad frog reaction */}
+          <div className={`absolute w-3 h-3 rounded-full top-1.5 right-2 border-2 border-black ${
+            state.frogsEaten >= 10 ? 'bg-gold-200' :
+            state.frogsEaten >= 5 ? 'bg-purple-200' :
+            'bg-yellow-400'
+          } ${state.isBadFrogReaction ? 'transform -translate-x-1' : ''}`}>
+            <div className={`absolute w-2 h-2 rounded-full top-0.5 left-0.5 ${
+              state.isEating ? 'bg-red-600' : 
+              state.isBadFrogReaction ? 'bg-red-600' : 'bg-black'
+            }`}></div>
+          </div>
+          <div className={`absolute w-3 h-3 rounded-full top-1.5 right-0.5 border-2 border-black ${
+            state.frogsEaten >= 10 ? 'bg-gold-200' :
+            state.frogsEaten >= 5 ? 'bg-purple-200' :
+            'bg-yellow-400'
+          } ${state.isBadFrogReaction ? 'transform -translate-x-1' : ''}`}>
+            <div className={`absolute w-2 h-2 rounded-full top-0.5 left-0.5 ${
+              state.isEating ? 'bg-red-600' : 
+              state.isBadFrogReaction ? 'bg-red-600' : 'bg-black'
+            }`}></div>
+          </div>
+          
+          {/* Enhanced Mouth - Opens when eating */}
+          <div className={`absolute right-0 rounded-r-full transition-all duration-200 ${
+            state.isEating ? 'w-4 h-3 top-2 bg-red-600 border-2 border-red-800' : 
+            'w-3 h-1 top-3 bg-green-800'
+          }`}>
+            {/* Teeth when eating */}
+            {state.isEating && (
+              <>
+                <div className="absolute w-1 h-1 bg-white top-0 left-1"></div>
+                <div className="absolute w-1 h-1 bg-white bottom-0 left-1"></div>
+                <div className="absolute w-1 h-1 bg-white top-0 right-1"></div>
+                <div className="absolute w-1 h-1 bg-white bottom-0 right-1"></div>
+              </>
+            )}
+          </div>
+          
+          {/* Forked Tongue - Enhanced */}
+          <div className={`absolute bg-red-500 right-0 rounded-r-full transition-all duration-200 ${
+            state.isEating ? 'w-2 h-0.5 top-2.5' : 'w-3 h-0.5 top-3'
+          }`}></div>
+          <div className={`absolute bg-red-500 right-0 rounded-r-full transition-all duration-200 ${
+            state.isEating ? 'w-1 h-0.5 top-2' : 'w-1 h-0.5 top-2.5'
+          }`}></div>
+          
+          {/* Snake Body Trail - Grows with frogs eaten */}
+          <div className={`absolute left-0 rounded-l-full ${
+            state.frogsEaten >= 10 ? 'bg-gradient-to-r from-amber-500 to-orange-500' :
+            state.frogsEaten >= 5 ? 'bg-gradient-to-r from-purple-500 to-pink-500' :
+            state.inSpecialWorld ? 'bg-gradient-to-r from-emerald-500 to-teal-500' : 'bg-green-500'
+          }`}
+          style={{
+            width: `${Math.min(8, 3 + state.frogsEaten * 0.5)}px`,
+            height: `${Math.min(12, 4 + state.frogsEaten * 0.8)}px`,
+            top: `${Math.max(3, 8 - state.frogsEaten * 0.3)}px`
+          }}></div>
+          
+          {/* Crown for legendary snakes */}
+          {state.frogsEaten >= 10 && (
+            <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-yellow-400 text-xs animate-bounce">
+              👑
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Frogs in main world */}
+      {!state.inSpecialWorld && state.mainWorldFrogs.map((frog) => {
+        if (frog.collected) return null;
+        const style = FROG_CLASSES[frog.variety];
+        const { icon } = FROG_VARIETIES[frog.variety];
+        return (
+          <div
+            key={frog.id}
+            className={`absolute w-8 h-6 shadow-lg ${isHopping(frog) ? '' : 'animate-bounce'}`}
+            style={{
+              left: `${frog.x}px`,
+              top: `${frog.y}px`,
+              animation: isHopping(frog) ? undefined : 'bounce 2s ease-in-out infinite',
+              filter: frog.variety === 'bad' && colorblind ? COLORBLIND_BAD_FROG_FILTER : undefined
+            }}
+          >
+            <div className={`absolute w-6 h-4 rounded-full border left-1 top-1 bg-gradient-to-br ${style.body}`}></div>
+            
+            <div className={`absolute w-4 h-3 rounded-full border left-2 top-0 bg-gradient-to-br ${style.head}`}></div>
+            
+            <div className={`absolute w-1.5 h-1.5 rounded-full top-0 left-1 border border-black z-10 ${style.eye}`}>
+              <div className={`absolute w-1 h-1 rounded-full top-0 left-0 ${style.pupil}`}></div>
+            </div>
+            <div className={`absolute w-1.5 h-1.5 rounded-full top-0 right-1 border border-black z-10 ${style.eye}`}>
+              <div className={`absolute w-1 h-1 rounded-full top-0 left-0 ${style.pupil}`}></div>
+            </div>
+            
+            {frog.variety !== 'common' && (
+              <div className="absolute -top-1 left-1/2 transform -translate-x-1/2 text-xs animate-pulse">
+                {icon}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Power-ups in main world; they blink for their last couple of seconds */}
+      {!state.inSpecialWorld && state.powerUps.map((powerUp) => (
+        <div
+          key={powerUp.id}
+          className={`absolute w-7 h-7 rounded-full bg-white border-2 border-yellow-400 shadow-lg shadow-yellow-300/50 flex items-center justify-center ${
+            powerUp.timeLeft < 2 ? 'animate-pulse' : ''
+          }`}
+          style={{ left: `${powerUp.x}px`, top: `${powerUp.y}px` }}
+          title={POWER_UP_INFO[powerUp.type].label}
+        >
+          {POWER_UP_INFO[powerUp.type].icon}
+        </div>
+      ))}
+
+      {/* Maze walls, sliding platforms and keys (only in special world) */}
+      {state.inSpecialWorld && state.portalWorld && (
+        <>
+          {state.portalWorld.walls.map((wall, index) => (
+            <div
+              key={`wall-${index}`}
+              className="absolute bg-gradient-to-br from-purple-700 to-purple-800"
+              style={{ left: wall.x, top: wall.y, width: wall.width, height: wall.height }}
+            />
+          ))}
+          {state.portalWorld.platforms.map(platform => (
+            <div
+              key={platform.id}
+              className="absolute rounded bg-gradient-to-br from-amber-500 to-amber-700 border-2 border-amber-300"
+              style={{ left: platform.x, top: platform.y, width: platform.width, height: platform.height }}
+            />
+          ))}
+          {state.portalWorld.keys.filter(key => !key.collected).map(key => (
+            <div
+              key={key.id}
+              className="absolute flex items-center justify-center text-lg animate-bounce"
+              style={{ left: key.x, top: key.y, width: KEY_SIZE, height: KEY_SIZE }}
+            >
+              🔑
+            </div>
+          ))}
+        </>
+      )}
+
+      {/* Frogs (only in special world) */}
+      {state.inSpecialWorld && state.worldCoins.map((frog) => {
+        if (frog.collected) return null;
+        const style = FROG_CLASSES[frog.variety];
+        const { icon } = FROG_VARIETIES[frog.variety];
+        return (
+          <div
+            key={frog.id}
+            className={`absolute w-10 h-8 shadow-lg ${isHopping(frog) ? '' : 'animate-bounce'}`}
+            style={{
+              left: `${frog.x}px`,
+              top: `${frog.y}px`,
+              animation: isHopping(frog) ? undefined : 'bounce 2s ease-in-out infinite',
+              filter: frog.variety === 'bad' && colorblind ? COLORBLIND_BAD_FROG_FILTER : undefined
+            }}
+          >
+            <div className={`absolute w-8 h-6 rounded-full border-2 left-1 top-1 bg-gradient-to-br ${style.body}`}></div>
+            
+            <div className={`absolute w-6 h-5 rounded-full border left-2 top-0 bg-gradient-to-br ${style.head}`}></div>
+            
+            <div className={`absolute w-2.5 h-2.5 rounded-full top-0 left-1.5 border border-black z-10 ${style.eye}`}>
+              <div className={`absolute w-1.5 h-1.5 rounded-full top-0.5 left-0.5 ${style.pupil}`}></div>
+            </div>
+            <div className={`absolute w-2.5 h-2.5 rounded-full top-0 right-1.5 border border-black z-10 ${style.eye}`}>
+              <div className={`absolute w-1.5 h-1.5 rounded-full top-0.5 left-0.5 ${style.pupil}`}></div>
+            </div>
+            
+            <div className={`absolute w-3 h-1 rounded-full left-1/2 top-3 transform -translate-x-1/2 ${style.mouth}`}></div>
+            
+            <div className={`absolute w-2 h-3 rounded-full left-0 top-2 ${style.arm}`}></div>
+            <div className={`absolute w-2 h-3 rounded-full right-0 top-2 ${style.arm}`}></div>
+            
+            <div className={`absolute w-1.5 h-4 rounded-full left-0.5 bottom-0 ${style.leg}`}></div>
+            <div className={`absolute w-1.5 h-4 rounded-full right-0.5 bottom-0 ${style.leg}`}></div>
+            
+            {frog.variety !== 'common' && (
+              <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-xs animate-pulse">
+                {icon}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Portal Exit (only in special world) */}
+      {state.inSpecialWorld && state.portalExit && !isExitOpen(state.portalWorld) && (
+        <div
+          className="absolute w-12 h-12 bg-gradient-to-br from-zinc-500 to-zinc-700 rounded-full border-4 border-zinc-300 opacity-50 flex items-center justify-center text-lg"
+          style={{ left: `${state.portalExit.x}px`, top: `${state.portalExit.y}px` }}
+        >
+          🔒
+        </div>
+      )}
+      {state.inSpecialWorld && state.portalExit && isExitOpen(state.portalWorld) && (
+        <div
+          className="absolute w-12 h-12 bg-gradient-to-br from-cyan-400 to-blue-500 rounded-full border-4 border-yellow-400 animate-pulse shadow-xl"
+          style={{
+            left: `${state.portalExit.x}px`,
+            top: `${state.portalExit.y}px`,
+            animation: 'pulse 1.5s ease-in-out infinite'
+          }}
+        >
+          <div className="absolute inset-2 bg-gradient-to-br from-cyan-200 to-blue-300 rounded-full"></div>
+          <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-lg font-bold text-white">
+            🚪
+          </div>
+          <div className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs font-bold text-yellow-400 animate-bounce">
+            EXIT
+          </div>
+        </div>
+      )}
+      
+      {/* Snake Body Segments */}
+      {state.bodySegments.map((segment, index) => (
+        <div
+          key={segment.id}
+          className={`absolute rounded-full border-2 shadow-lg ${
+            state.frogsEaten >= 10 ? 'border-amber-400 bg-gradient-to-br from-amber-500 to-orange-500' :
+            state.frogsEaten >= 5 ? 'border-purple-400 bg-gradient-to-br from-purple-500 to-pink-500' :
+            state.inSpecialWorld ? 'border-emerald-400 bg-gradient-to-br from-emerald-500 to-teal-500' : 
+            'border-green-400 bg-gradient-to-br from-green-500 to-green-600'
+          }`}
+          style={{
+            left: `${segment.x}px`,
+            top: `${segment.y}px`,
+            width: `${Math.max(15, 25 - index * 1.5)}px`,
+            height: `${Math.max(12, 20 - index * 1.2)}px`,
+            zIndex: 90 - index
+          }}
+        >
+          <div className={`absolute inset-1 rounded-full ${
+            state.frogsEaten >= 10 ? 'bg-gradient-to-br from-gold-400/40 to-amber-600/40' :
+            state.frogsEaten >= 5 ? 'bg-gradient-to-br from-purple-400/40 to-pink-600/40' :
+            state.inSpecialWorld ? 'bg-gradient-to-br from-emerald-400/40 to-teal-600/40' : 
+            'bg-gradient-to-br from-green-400/40 to-green-700/40'
+          }`}></div>
+        </div>
+      ))}
+      
+      {/* Pipes (only in normal world) */}
+      {!state.inSpecialWorld && state.pipes.map((pipe, index) => (
+        <div key={index}>
+          <div
+            className={`absolute border-2 border-foreground rounded-b-lg shadow-lg ${
+              pipe.isSpecial 
+                ? 'bg-gradient-to-b from-purple-500 to-purple-700 border-purple-300 shadow-purple-500/50' 
+                : state.isAdvancedLevel
+                ? 'bg-gradient-to-b from-red-600 to-red-800 border-red-300'
+                : 'bg-gradient-to-b from-green-600 to-green-800'
+            }`}
+            style={{
+              left: `${pipe.x}px`,
+              top: '0px',
+              width: `${PIPE_WIDTH}px`,
+              height: `${pipe.topHeight}px`
+            }}
+          >
+            <div className="absolute w-full h-1 bg-black/20 top-2"></div>
+            <div className="absolute w-full h-1 bg-black/20 bottom-4"></div>
+            
+            {pipe.isSpecial && (
+              <>
+                <div className="absolute inset-2 bg-gradient-to-b from-cyan-400/30 to-purple-400/30 rounded animate-pulse"></div>
+                <div className="absolute top-1 right-1 w-2 h-2 bg-yellow-400 rounded-full animate-ping"></div>
+              </>
+            )}
+          </div>
+          
+          {pipe.isSpecial && (
+            <div
+              className="absolute bg-gradient-to-r from-cyan-400 to-purple-400 border-2 border-yellow-400 rounded animate-pulse"
+              style={{
+                left: `${pipe.x - 5}px`,
+                top: `${pipe.topHeight + pipe.gap * 0.3}px`,
+                width: `${PIPE_WIDTH + 10}px`,
+                height: `${pipe.gap * 0.4}px`,
+                zIndex: 10
+              }}
+            >
+              <div className="absolute inset-1 bg-gradient-to-r from-cyan-200/50 to-purple-200/50 rounded animate-pulse"></div>
+              <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-xs font-bold text-white">
+                🌀PORTAL🌀
+              </div>
+            </div>
+          )}
+          
+          <div
+            className={`absolute border-2 border-foreground rounded-t-lg shadow-lg ${
+              pipe.isSpecial 
+                ? 'bg-gradient-to-t from-purple-500 to-purple-700 border-purple-300 shadow-purple-500/50' 
+                : state.isAdvancedLevel
+                ? 'bg-gradient-to-t from-red-600 to-red-800 border-red-300'
+                : 'bg-gradient-to-t from-green-600 to-green-800'
+            }`}
+            style={{
+              left: `${pipe.x}px`,
+              top: `${pipe.topHeight + pipe.gap}px`,
+              width: `${PIPE_WIDTH}px`,
+              height: `${WORLD_HEIGHT - (pipe.topHeight + pipe.gap)}px`
+            }}
+          >
+            <div className="absolute w-full h-1 bg-black/20 top-4"></div>
+            <div className="absolute w-full h-1 bg-black/20 bottom-2"></div>
+            
+            {pipe.isSpecial && (
+              <>
+                <div className="absolute inset-2 bg-gradient-to-t from-cyan-400/30 to-purple-400/30 rounded animate-pulse"></div>
+                <div className="absolute bottom-1 left-1 w-2 h-2 bg-yellow-400 rounded-full animate-ping"></div>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {/* Obstacles (only in normal world) */}
+      {!state.inSpecialWorld && state.obstacles.map(obstacle => {
+        const View = OBSTACLE_VIEWS[obstacle.kind];
+        return <View key={obstacle.id} obstacle={obstacle} />;
+      })}
+
+      <div className="absolute bottom-0 w-full h-12 bg-gradient-to-b from-green-700 to-green-900 border-t-2 border-foreground" />
+
+      {/* Enemies hunting in the world the snake is in */}
+      {state.enemies.filter(enemy => isEnemyIn(enemy, state.inSpecialWorld ? 'portal' : 'main')).map(enemy => {
+        const View = ENEMY_VIEWS[enemy.kind];
+        return <View key={enemy.id} enemy={enemy} />;
+      })}
+
+      {/* The boss in its arena */}
+      {state.inSpecialWorld && BossView && <BossView boss={state.boss} />}
+
+      {/* Dark portal worlds are only lit around the head */}
+      {state.inSpecialWorld && state.portalWorld?.dark && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{
+            background: `radial-gradient(circle at ${state.birdX + BIRD_SIZE / 2}px ${state.birdY + BIRD_SIZE / 2}px, transparent ${LIGHT_RADIUS * 0.4}px, rgba(0, 0, 0, 0.95) ${LIGHT_RADIUS}px)`,
+            zIndex: 101
+          }}
+        />
+      )}
+    </div>
+  );
+};
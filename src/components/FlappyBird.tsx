@@ -1,311 +1,222 @@
-import { useEffect, useState, useCallback, useRef } from "react";
+import { useEffect, useState, useCallback, useRef, type CSSProperties } from "react";
+import { Link } from "react-router-dom";
+import { Settings as SettingsIcon, Volume2, VolumeX } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
 import { toast } from "sonner";
+import { BossHealthBar } from "@/components/BossHealthBar";
+import { CanvasRenderer } from "@/components/CanvasRenderer";
+import { DomRenderer } from "@/components/DomRenderer";
+import { PortalGameOverlay } from "@/components/PortalGameOverlay";
+import { ReplayControls } from "@/components/ReplayControls";
+import { RunHistory } from "@/components/RunHistory";
+import { SettingsForm } from "@/components/SettingsForm";
+import { StageBanner } from "@/components/StageBanner";
+import { TouchControls } from "@/components/TouchControls";
+import { useGameAudio } from "@/hooks/use-game-audio";
+import { useGameLoop } from "@/hooks/use-game-loop";
+import { useGamepad } from "@/hooks/use-gamepad";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useSubmitScore } from "@/hooks/use-leaderboard";
+import { useReplayPlayback } from "@/hooks/use-replay-playback";
+import { useSettings } from "@/hooks/use-settings";
+import { downloadTextFile } from "@/lib/download";
+import { getActiveGamepad, inputFromGamepad } from "@/lib/gamepad";
+import { createRunRecord, loadHighScores, recordRun, type RunRecord } from "@/lib/high-scores";
+import { scoreService } from "@/lib/score-service";
+import { changesRunRules, getSettings, getSnakeRules, subscribeSettings } from "@/lib/settings";
+import { BASE_TICK, BOSS_PORTAL_INTERVAL, PORTAL_CONTINUE, WORLD_HEIGHT, WORLD_WIDTH } from "@/game/constants";
+import { DIFFICULTY_LABELS } from "@/game/rules";
+import { STAGES } from "@/game/stages";
+import {
+  EMPTY_INPUT,
+  actionForKey,
+  formatKey,
+  inputFromKeys,
+  mergeInputFrames,
+  normalizeKey,
+  type GameAction
+} from "@/game/input";
+import { interpolateState } from "@/game/interpolate";
+import { portalActionForKey } from "@/game/portal-games";
+import { FROG_VARIETIES, FROG_VARIETY_TYPES } from "@/game/frogs";
+import { POWER_UP_INFO, POWER_UP_TYPES, isPowerUpActive } from "@/game/power-ups";
+import {
+  createReplay,
+  createReplayPlayer,
+  encodeInputFrame,
+  parseReplay,
+  serializeReplay,
+  type Replay,
+  type ReplayPlayer
+} from "@/game/replay";
+import { createInitialState } from "@/game/state";
+import { step } from "@/game/step";
+import type { GameState, InputFrame, PortalAction } from "@/game/types";
+
+// Fit the board to the viewport at the world's aspect ratio, leaving room for
+// the title and HUD above it
+const BOARD_STYLE: CSSProperties = {
+  aspectRatio: `${WORLD_WIDTH} / ${WORLD_HEIGHT}`,
+  width: `max(240px, min(100%, calc((100dvh - 11rem) * ${WORLD_WIDTH / WORLD_HEIGHT})))`
+};
 
-interface BodySegment {
-  x: number;
-  y: number;
-  id: string;
-}
+// How long the portal game result stays up when it dismisses itself
+const PORTAL_GAME_AUTO_DISMISS_MS = 2500;
 
-interface GameState {
-  birdX: number;
-  birdY: number;
-  birdDirection: { x: number; y: number };
-  bodySegments: BodySegment[];
-  pipes: Array<{ x: number; topHeight: number; passed: boolean; isSpecial?: boolean; gap: number; id?: string; yVelocity?: number }>;
-  coins: number;
-  gameStarted: boolean;
-  gameOver: boolean;
-  gamePaused: boolean;
-  inSpecialWorld: boolean;
-  worldCoins: Array<{ x: number; y: number; collected: boolean; id: string; isBad?: boolean }>;
-  mainWorldFrogs: Array<{ x: number; y: number; collected: boolean; id: string; isBad?: boolean }>;
-  colorTheme: number;
-  portalTimer: number;
-  portalExit: { x: number; y: number } | null;
-  enteredPortal: { x: number; topHeight: number; gap: number; id: string } | null;
-  frogsEaten: number;
-  isEating: boolean;
-  isBadFrogReaction: boolean;
-  usedPortalIds: Set<string>;
-  currentPortalGame: string | null;
-  portalGameResult: number | null;
-  showPortalGame: boolean;
-  isInvincible: boolean;
-  invincibilityTimer: number;
-  gameData: {
-    dice: [number, number];
-    cards: number[];
-    selectedCards: number[];
-  };
-  lastPortalX: number;
-  isAdvancedLevel: boolean;
-}
+// A fresh run with the difficulty and rules currently in the settings
+const createRunState = (seed?: number) => {
+  const settings = getSettings();
+  return createInitialState(seed, settings.difficulty, getSnakeRules(settings), settings.customRules);
+};
 
-const BIRD_SIZE = 30;
-const PIPE_WIDTH = 60;
-const INITIAL_PIPE_GAP = 250;
-const MIN_PIPE_GAP = 120;
-const MOVE_SPEED = 4;
-const PIPE_SPEED = 2;
-const SPECIAL_PIPE_CHANCE = 0.2;
-const SEGMENT_FOLLOW_DISTANCE = 25;
-const MIN_PORTAL_DISTANCE = 300; // 5 pipes worth of distance
+interface FlappyBirdProps {
+  // Fixed seed for every run, e.g. for competitions; random per run otherwise
+  seed?: number;
+}
 
-export const FlappyBird = () => {
+export const FlappyBird = ({ seed }: FlappyBirdProps) => {
   const gameRef = useRef<HTMLDivElement>(null);
-  const [gameState, setGameState] = useState<GameState>({
-    birdX: 200,
-    birdY: 250,
-    birdDirection: { x: 0, y: 0 },
-    bodySegments: [],
-    pipes: [],
-    coins: 0,
-    gameStarted: false,
-    gameOver: false,
-    gamePaused: false,
-    inSpecialWorld: false,
-    worldCoins: [],
-    mainWorldFrogs: [],
-    colorTheme: 0,
-    portalTimer: 10,
-    portalExit: null,
-    enteredPortal: null,
-    frogsEaten: 0,
-    isEating: false,
-    isBadFrogReaction: false,
-    usedPortalIds: new Set(),
-    currentPortalGame: null,
-    portalGameResult: null,
-    showPortalGame: false,
-    isInvincible: false,
-    invincibilityTimer: 0,
-    gameData: {
-      dice: [1, 1],
-      cards: [1, 2, 3, 4, 5],
-      selectedCards: []
-    },
-    lastPortalX: -1000,
-    isAdvancedLevel: false
-  });
-
-  const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set());
-
-  // Generate random frogs for main world
-  const generateMainWorldFrogs = () => {
-    const frogs = [];
-    for (let i = 0; i < 3; i++) {
-      const isBad = Math.random() < 0.15;
-      frogs.push({
-        x: Math.random() * 340 + 30,
-        y: Math.random() * 400 + 50,
-        collected: false,
-        id: `main-frog-${i}-${Date.now()}`,
-        isBad: isBad
-      });
-    }
-    return frogs;
-  };
-
-  const resetGame = () => {
-    setGameState({
-      birdX: 200,
-      birdY: 250,
-      birdDirection: { x: 0, y: 0 },
-      bodySegments: [],
-      pipes: [],
-      coins: 0,
-      gameStarted: false,
-      gameOver: false,
-      gamePaused: false,
-      inSpecialWorld: false,
-      worldCoins: [],
-      mainWorldFrogs: generateMainWorldFrogs(),
-      colorTheme: 0,
-      portalTimer: 10,
-      portalExit: null,
-      enteredPortal: null,
-      frogsEaten: 0,
-      isEating: false,
-      isBadFrogReaction: false,
-      usedPortalIds: new Set(),
-      currentPortalGame: null,
-      portalGameResult: null,
-      showPortalGame: false,
-      isInvincible: false,
-      invincibilityTimer: 0,
-      gameData: {
-        dice: [1, 1],
-        cards: [1, 2, 3, 4, 5],
-        selectedCards: []
-      },
-      lastPortalX: -1000,
-      isAdvancedLevel: false
+  const [settings, updateSettings] = useSettings();
+  const [gameState, setGameState] = useState<GameState>(() => createRunState(seed));
+  const [renderAlpha, setRenderAlpha] = useState(0);
+
+  // The loop steps these refs; React state only receives a copy once per frame
+  const stateRef = useRef(gameState);
+  const previousStateRef = useRef(gameState);
+  const pressedKeysRef = useRef<Set<string>>(new Set());
+  const touchInputRef = useRef<InputFrame>(EMPTY_INPUT);
+  // Portal game decision waiting for the next simulation step
+  const portalActionRef = useRef<PortalAction | null>(null);
+  const isMobile = useIsMobile();
+  // One input mask per simulation step of the current run
+  const recordingRef = useRef<number[]>([]);
+
+  const [replayPlayer, setReplayPlayer] = useState<ReplayPlayer | null>(null);
+  const playback = useReplayPlayback(replayPlayer);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const [highScores, setHighScores] = useState<RunRecord[]>(loadHighScores);
+  const [lastRun, setLastRun] = useState<{ id: string; isNewBest: boolean } | null>(null);
+  const { mutate: submitScore } = useSubmitScore();
+
+  const updateGameState = useCallback((update: (prev: GameState) => GameState) => {
+    const next = update(stateRef.current);
+    stateRef.current = next;
+    previousStateRef.current = next;
+    setGameState(next);
+  }, []);
+
+  const resetGame = useCallback(() => {
+    pressedKeysRef.current = new Set();
+    portalActionRef.current = null;
+    recordingRef.current = [];
+    setLastRun(null);
+    updateGameState(() => createRunState(seed));
+  }, [seed, updateGameState]);
+
+  // Difficulty and rule changes saved before Play apply to the run waiting to
+  // start; a run under way keeps the rules it started with. Other settings
+  // leave the waiting run alone.
+  useEffect(() => {
+    let previous = getSettings();
+    return subscribeSettings(() => {
+      const settings = getSettings();
+      if (changesRunRules(previous, settings)) {
+        updateGameState(prev => (prev.gameStarted ? prev : createRunState(prev.seed)));
+      }
+      previous = settings;
     });
+  }, [updateGameState]);
+
+  const startGame = useCallback(() => {
+    updateGameState(prev => (prev.gameStarted ? prev : { ...prev, gameStarted: true }));
+  }, [updateGameState]);
+
+  const togglePause = useCallback(() => {
+    updateGameState(prev => (
+      prev.gameStarted && !prev.gameOver ? { ...prev, gamePaused: !prev.gamePaused } : prev
+    ));
+  }, [updateGameState]);
+
+  const handleTouchInput = useCallback((input: InputFrame) => {
+    touchInputRef.current = input;
+  }, []);
+
+  // Decisions go through the simulation like steering does, so replays
+  // record them too
+  const sendPortalAction = useCallback((action: PortalAction) => {
+    portalActionRef.current = action;
+  }, []);
+
+  const toggleMute = useCallback(() => {
+    updateSettings({ muted: !getSettings().muted });
+  }, [updateSettings]);
+
+  const exportReplay = (replay: Replay) => {
+    downloadTextFile(`snake-replay-${replay.seed}.txt`, serializeReplay(replay));
   };
 
-  // Generate random frogs for special world (including bad frogs)
-  const generateWorldCoins = () => {
-    const frogs = [];
-    for (let i = 0; i < 12; i++) {
-      const isBad = Math.random() < 0.2;
-      frogs.push({
-        x: Math.random() * 340 + 30,
-        y: Math.random() * 400 + 50,
-        collected: false,
-        id: `frog-${i}-${Date.now()}`,
-        isBad: isBad
-      });
-    }
-    return frogs;
-  };
+  const recordedReplay = () =>
+    createReplay(gameState, recordingRef.current, gameState.coins);
 
-  // Generate random portal game
-  const generatePortalGame = () => {
-    const games = ['dice', 'cards', 'spinner', 'treasure'];
-    return games[Math.floor(Math.random() * games.length)];
-  };
-
-  // Execute portal game
-  const executePortalGame = (gameType: string) => {
-    let result = 0;
-    let gameData = { dice: [1, 1], cards: [1, 2, 3, 4, 5], selectedCards: [] };
-
-    switch (gameType) {
-      case 'dice':
-        const dice1 = Math.floor(Math.random() * 6) + 1;
-        const dice2 = Math.floor(Math.random() * 6) + 1;
-        result = dice1 + dice2;
-        gameData.dice = [dice1, dice2];
-        break;
-      case 'cards':
-        const availableCards = [1, 2, 3, 4, 5].sort(() => Math.random() - 0.5);
-        const card1 = availableCards[0];
-        const card2 = availableCards[1];
-        result = card1 + card2;
-        gameData.cards = availableCards;
-        gameData.selectedCards = [card1, card2];
-        break;
-      case 'spinner':
-        result = Math.floor(Math.random() * 10) + 1;
-        break;
-      case 'treasure':
-        result = Math.floor(Math.random() * 15) + 5;
-        break;
+  const importReplay = async (file: File) => {
+    try {
+      setReplayPlayer(createReplayPlayer(parseReplay(await file.text())));
+    } catch (error) {
+      toast.error(`Could not load replay: ${error instanceof Error ? error.message : error}`);
     }
-
-    return { result, gameData };
   };
 
-  // Generate portal exit
-  const generatePortalExit = () => {
-    return {
-      x: Math.random() * 300 + 50,
-      y: Math.random() * 300 + 50
-    };
-  };
+  // Keyboard controls, mapped through the player's key bindings
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (settingsOpen) return;
+      const key = normalizeKey(e.key);
+      const action = actionForKey(settings.keyBindings, key);
+      if (action === 'mute') {
+        if (!e.repeat) toggleMute();
+        return;
+      }
+      if (replayPlayer) return;
 
-  // Calculate dynamic pipe gap based on coins
-  const getCurrentPipeGap = (coins: number) => {
-    const reduction = Math.floor(coins / 10) * 15;
-    return Math.max(MIN_PIPE_GAP, INITIAL_PIPE_GAP - reduction);
-  };
+      const { showPortalGame, portalGame } = stateRef.current;
+      const portalAction = showPortalGame && portalGame && !e.repeat ? portalActionForKey(portalGame, key) : null;
+      if (portalAction !== null) {
+        e.preventDefault();
+        sendPortalAction(portalAction);
+        return;
+      }
 
-  // Calculate color theme based on coins
-  const getCurrentTheme = (coins: number) => {
-    return Math.floor(coins / 20);
-  };
+      if (!action) return;
+      e.preventDefault();
 
-  // Helper function to update body segments
-  const updateBodySegments = (headX: number, headY: number, currentSegments: BodySegment[], frogsEaten: number) => {
-    const targetSegmentCount = Math.min(10, frogsEaten);
-    const newSegments: BodySegment[] = [];
-    
-    if (targetSegmentCount > 0) {
-      for (let i = 0; i < targetSegmentCount; i++) {
-        if (i === 0) {
-          if (currentSegments.length > 0) {
-            const prevSegment = currentSegments[0];
-            const dx = headX - prevSegment.x;
-            const dy = headY - prevSegment.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            
-            if (distance > SEGMENT_FOLLOW_DISTANCE) {
-              const ratio = SEGMENT_FOLLOW_DISTANCE / distance;
-              newSegments.push({
-                x: headX - dx * ratio,
-                y: headY - dy * ratio,
-                id: `segment-${i}`
-              });
-            } else {
-              newSegments.push({ ...prevSegment, id: `segment-${i}` });
-            }
-          } else {
-            newSegments.push({
-              x: headX - SEGMENT_FOLLOW_DISTANCE,
-              y: headY,
-              id: `segment-${i}`
-            });
-          }
-        } else {
-          const prevSegment = newSegments[i - 1];
-          const targetSegment = currentSegments[i] || { x: prevSegment.x - SEGMENT_FOLLOW_DISTANCE, y: prevSegment.y };
-          
-          const dx = prevSegment.x - targetSegment.x;
-          const dy = prevSegment.y - targetSegment.y;
-          const distance = Math.sqrt(dx * dx + dy * dy);
-          
-          if (distance > SEGMENT_FOLLOW_DISTANCE) {
-            const ratio = SEGMENT_FOLLOW_DISTANCE / distance;
-            newSegments.push({
-              x: prevSegment.x - dx * ratio,
-              y: prevSegment.y - dy * ratio,
-              id: `segment-${i}`
-            });
-          } else {
-            newSegments.push({ ...targetSegment, id: `segment-${i}` });
-          }
-        }
+      if (action === 'pause') {
+        if (!e.repeat) togglePause();
+        return;
       }
-    }
-    
-    return newSegments;
-  };
 
-  // WASD Controls + Spacebar Pause
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      
-      if (key === ' ' || e.code === 'Space') {
-        e.preventDefault();
-        if (gameState.gameStarted && !gameState.gameOver) {
-          setGameState(prev => ({ ...prev, gamePaused: !prev.gamePaused }));
-        }
+      if (action === 'restart') {
+        if (!e.repeat && gameState.gameStarted) resetGame();
         return;
       }
-      
-      if (['w', 'a', 's', 'd'].includes(key)) {
-        e.preventDefault();
-        if (!gameState.gameStarted) {
-          setGameState(prev => ({ ...prev, gameStarted: true }));
-        }
-        if (!gameState.gamePaused) {
-          setPressedKeys(prev => new Set(prev.add(key)));
-        }
+
+      startGame();
+      if (!gameState.gamePaused) {
+        pressedKeysRef.current.add(key);
       }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      if (['w', 'a', 's', 'd'].includes(key)) {
-        setPressedKeys(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(key);
-          return newSet;
-        });
-      }
+      pressedKeysRef.current.delete(normalizeKey(e.key));
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -314,901 +225,302 @@ export const FlappyBird = () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [gameState.gameStarted, gameState.gamePaused]);
+  }, [
+    gameState.gameStarted,
+    gameState.gamePaused,
+    replayPlayer,
+    settingsOpen,
+    settings.keyBindings,
+    resetGame,
+    startGame,
+    togglePause,
+    toggleMute,
+    sendPortalAction
+  ]);
+
+  // Controllers: the stick or d-pad starts a run, Start pauses and A plays
+  // the portal game's main move (stop, bank or continue)
+  const gamepadConnected = useGamepad({
+    onConnect: gamepad => toast.success(`🎮 Controller connected: ${gamepad.id}`),
+    onDisconnect: () => toast('🎮 Controller disconnected'),
+    onButtonPress: button => {
+      if (replayPlayer || settingsOpen) return;
+      if (button === 'start') {
+        togglePause();
+      } else if (stateRef.current.showPortalGame && stateRef.current.portalGame) {
+        const action = portalActionForKey(stateRef.current.portalGame, 'Enter');
+        if (action !== null) sendPortalAction(action);
+      }
+    },
+    onMove: () => {
+      if (!replayPlayer && !settingsOpen) startGame();
+    }
+  });
 
-  // Game loop - Optimized for performance
+  // Save every finished run to the local high score table, and share it when
+  // a score server is configured
   useEffect(() => {
-    if (!gameState.gameStarted || gameState.gameOver || gameState.gamePaused) return;
-
-    const gameLoop = setInterval(() => {
-      setGameState(prev => {
-        // Calculate new snake direction based on pressed keys
-        let newDirectionX = 0;
-        let newDirectionY = 0;
-        
-        if (pressedKeys.has('w')) newDirectionY = -MOVE_SPEED;
-        if (pressedKeys.has('s')) newDirectionY = MOVE_SPEED;
-        if (pressedKeys.has('a')) newDirectionX = -MOVE_SPEED;
-        if (pressedKeys.has('d')) newDirectionX = MOVE_SPEED;
-
-        // Update snake head position
-        let newBirdX = Math.max(0, Math.min(370, prev.birdX + newDirectionX));
-        let newBirdY = Math.max(0, Math.min(470, prev.birdY + newDirectionY));
-        
-        // Update body segments
-        let newBodySegments = updateBodySegments(newBirdX, newBirdY, prev.bodySegments, prev.frogsEaten);
-        
-        let newPipes = [...prev.pipes];
-        let newGameOver = prev.gameOver;
-        let newCoins = prev.coins;
-        let newInSpecialWorld = prev.inSpecialWorld;
-        let newWorldCoins = [...prev.worldCoins];
-        let newMainWorldFrogs = [...prev.mainWorldFrogs];
-        let newColorTheme = getCurrentTheme(newCoins);
-        let newUsedPortalIds = new Set(prev.usedPortalIds);
-        let newFrogsEaten = prev.frogsEaten;
-        let newIsEating = prev.isEating;
-        let newIsBadFrogReaction = prev.isBadFrogReaction;
-        let newIsInvincible = prev.isInvincible;
-        let newInvincibilityTimer = prev.invincibilityTimer;
-        let newLastPortalX = prev.lastPortalX;
-        let newIsAdvancedLevel = prev.coins >= 100;
-
-        // Handle invincibility timer
-        if (newIsInvincible) {
-          newInvincibilityTimer -= 16 / 1000;
-          if (newInvincibilityTimer <= 0) {
-            newIsInvincible = false;
-            newInvincibilityTimer = 0;
-          }
-        }
-
-        if (!newInSpecialWorld) {
-          // Normal world - move pipes and handle advanced level
-          newPipes = newPipes.map(pipe => {
-            let updatedPipe = { ...pipe, x: pipe.x - PIPE_SPEED };
-            
-            // Advanced level: pipes move up and down
-            if (newIsAdvancedLevel) {
-              if (!pipe.yVelocity) {
-                updatedPipe.yVelocity = (Math.random() - 0.5) * 2;
-              }
-              
-              const newTopHeight = pipe.topHeight + (pipe.yVelocity || 0);
-              if (newTopHeight < 50 || newTopHeight > 250) {
-                updatedPipe.yVelocity = -(pipe.yVelocity || 0);
-              } else {
-                updatedPipe.topHeight = newTopHeight;
-              }
-            }
-            
-            return updatedPipe;
-          });
-          
-          newPipes = newPipes.filter(pipe => pipe.x > -PIPE_WIDTH);
-
-          // Add new pipes with proper portal spacing
-          if (newPipes.length === 0 || newPipes[newPipes.length - 1].x < 200) {
-            const currentGap = getCurrentPipeGap(prev.coins);
-            const canBeSpecial = (400 - newLastPortalX) >= MIN_PORTAL_DISTANCE;
-            const isSpecial = canBeSpecial && Math.random() < SPECIAL_PIPE_CHANCE;
-            const topHeight = Math.random() * 200 + 50;
-            const pipeId = `pipe-${Date.now()}-${Math.random()}`;
-            
-            newPipes.push({
-              x: 400,
-              topHeight,
-              passed: false,
-              isSpecial,
-              gap: currentGap,
-              id: pipeId,
-              yVelocity: newIsAdvancedLevel ? (Math.random() - 0.5) * 2 : 0
-            });
-            
-            if (isSpecial) {
-              newLastPortalX = 400;
-            }
-          }
-
-          // Check main world frog collection - Fixed logic
-          newMainWorldFrogs = newMainWorldFrogs.map(frog => {
-            if (!frog.collected) {
-              const distance = Math.sqrt(
-                Math.pow(newBirdX - frog.x, 2) + Math.pow(newBirdY - frog.y, 2)
-              );
-              
-              if (distance < 25) {
-                if (frog.isBad) {
-                  // Bad frog - lose points and react
-                  newCoins = Math.max(0, newCoins - 10);
-                  newIsEating = true;
-                  newIsBadFrogReaction = true;
-                  
-                  // Reset reactions after delay
-                  setTimeout(() => {
-                    setGameState(current => ({ 
-                      ...current, 
-                      isBadFrogReaction: false,
-                      isEating: false 
-                    }));
-                  }, 800);
-                } else {
-                  // Good frog - gain points and grow
-                  newCoins += 2;
-                  newFrogsEaten += 1;
-                  newIsEating = true;
-                  newIsBadFrogReaction = false; // Ensure no bad reaction for good frogs
-                  
-                  // Reset eating animation for good frogs
-                  setTimeout(() => {
-                    setGameState(current => ({ 
-                      ...current, 
-                      isEating: false 
-                    }));
-                  }, 300);
-                }
-                return { ...frog, collected: true };
-              }
-            }
-            return frog;
-          });
-
-          // Add new frogs periodically in main world
-          if (newMainWorldFrogs.filter(f => !f.collected).length < 2 && Math.random() < 0.005) {
-            const isBad = Math.random() < 0.15;
-            newMainWorldFrogs.push({
-              x: Math.random() * 340 + 30,
-              y: Math.random() * 400 + 50,
-              collected: false,
-              id: `main-frog-${Date.now()}-${Math.random()}`,
-              isBad: isBad
-            });
-          }
+    if (!gameState.gameOver) return;
+    const run = createRunRecord(stateRef.current, seed === undefined ? 'classic' : 'seeded');
+    const { runs, isNewBest } = recordRun(run);
+    setHighScores(runs);
+    setLastRun({ id: run.id, isNewBest });
+
+    if (scoreService.isRemote) {
+      const replay = createReplay(stateRef.current, recordingRef.current, stateRef.current.coins);
+      submitScore({ playerName: getSettings().playerName, mode: run.mode, date: run.date, replay }, {
+        onError: error => toast.error(`Could not submit score: ${error.message}`)
+      });
+    }
+  }, [gameState.gameOver, seed, submitScore]);
 
-          // Check pipe collisions and portal entry
-          newPipes.forEach(pipe => {
-            const birdLeft = newBirdX;
-            const birdRight = newBirdX + BIRD_SIZE;
-            const birdTop = newBirdY;
-            const birdBottom = newBirdY + BIRD_SIZE;
+  // Keep the page from scrolling or bouncing under the player's thumb mid-run
+  const playingOnTouch = isMobile && !replayPlayer && gameState.gameStarted && !gameState.gameOver;
+  useEffect(() => {
+    if (!playingOnTouch) return;
+    const preventScroll = (e: TouchEvent) => e.preventDefault();
+    const { overflow, overscrollBehavior } = document.body.style;
+    document.body.style.overflow = 'hidden';
+    document.body.style.overscrollBehavior = 'none';
+    document.addEventListener('touchmove', preventScroll, { passive: false });
+    return () => {
+      document.body.style.overflow = overflow;
+      document.body.style.overscrollBehavior = overscrollBehavior;
+      document.removeEventListener('touchmove', preventScroll);
+    };
+  }, [playingOnTouch]);
 
-            const pipeLeft = pipe.x;
-            const pipeRight = pipe.x + PIPE_WIDTH;
+  // Optionally close the portal game result without waiting for Continue
+  useEffect(() => {
+    const portalGameFinished = gameState.showPortalGame && gameState.portalGame && gameState.portalGame.result !== null;
+    if (!settings.autoDismissPortalGame || !portalGameFinished || replayPlayer) return;
+    const timeout = setTimeout(() => sendPortalAction(PORTAL_CONTINUE), PORTAL_GAME_AUTO_DISMISS_MS);
+    return () => clearTimeout(timeout);
+  }, [settings.autoDismissPortalGame, gameState.showPortalGame, gameState.portalGame, replayPlayer, sendPortalAction]);
 
-            if (birdRight > pipeLeft && birdLeft < pipeRight && !newUsedPortalIds.has(pipe.id || '')) {
-              if (pipe.isSpecial) {
-                const portalTop = pipe.topHeight + pipe.gap * 0.3;
-                const portalBottom = pipe.topHeight + pipe.gap * 0.7;
-                
-                if (birdTop >= portalTop && birdBottom <= portalBottom) {
-                  if (!newInSpecialWorld && pipe.id) {
-                    const portalGame = generatePortalGame();
-                    const gameResult = executePortalGame(portalGame);
-                    
-                    newInSpecialWorld = true;
-                    newWorldCoins = generateWorldCoins();
-                    newCoins += 5 + gameResult.result;
-                    newUsedPortalIds.add(pipe.id);
-                    
-                    const enteredPortal = { x: pipe.x, topHeight: pipe.topHeight, gap: pipe.gap, id: pipe.id || '' };
-                    
-                    return {
-                      ...prev,
-                      birdX: newBirdX,
-                      birdY: newBirdY,
-                      bodySegments: newBodySegments,
-                      birdDirection: { x: newDirectionX, y: newDirectionY },
-                      pipes: newPipes,
-                      coins: newCoins,
-                      gameOver: newGameOver,
-                      inSpecialWorld: newInSpecialWorld,
-                      worldCoins: newWorldCoins,
-                      mainWorldFrogs: newMainWorldFrogs,
-                      colorTheme: newColorTheme,
-                      portalTimer: 10,
-                      portalExit: generatePortalExit(),
-                      enteredPortal: enteredPortal,
-                      frogsEaten: newFrogsEaten,
-                      isEating: newIsEating,
-                      isBadFrogReaction: newIsBadFrogReaction,
-                      usedPortalIds: newUsedPortalIds,
-                      currentPortalGame: portalGame,
-                      portalGameResult: gameResult.result,
-                      showPortalGame: true,
-                      isInvincible: false,
-                      invincibilityTimer: 0,
-                      gameData: gameResult.gameData,
-                      lastPortalX: newLastPortalX,
-                      isAdvancedLevel: newIsAdvancedLevel
-                    };
-                  }
-                } else if (!newIsInvincible && (birdTop < pipe.topHeight || birdBottom > pipe.topHeight + pipe.gap)) {
-                  newGameOver = true;
-                }
-              } else {
-                if (!newIsInvincible && (birdTop < pipe.topHeight || birdBottom > pipe.topHeight + pipe.gap)) {
-                  newGameOver = true;
-                }
-              }
-            }
+  // Auto-pause when the tab is hidden; the player resumes with Space
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (!document.hidden) return;
+      pressedKeysRef.current = new Set();
+      updateGameState(prev => (
+        prev.gameStarted && !prev.gameOver ? { ...prev, gamePaused: true } : prev
+      ));
+    };
 
-            // Check if bird passed the pipe
-            if (!pipe.passed && birdLeft > pipeRight) {
-              pipe.passed = true;
-              newCoins += pipe.isSpecial ? 3 : 1;
-            }
-          });
-        } else {
-          // Special world logic
-          let newPortalTimer = prev.portalTimer;
-          let newPortalExit = prev.portalExit;
-          
-          if (!newPortalExit) {
-            newPortalExit = generatePortalExit();
-          }
-          
-          newPortalTimer -= 16 / 1000;
-          
-          if (newPortalTimer <= 0) {
-            newGameOver = true;
-            return {
-              ...prev,
-              gameOver: newGameOver,
-              portalTimer: 0
-            };
-          }
-          
-          // Check frog collection in portal world - Fixed logic
-          newWorldCoins = newWorldCoins.map(frog => {
-            if (!frog.collected) {
-              const distance = Math.sqrt(
-                Math.pow(newBirdX - frog.x, 2) + Math.pow(newBirdY - frog.y, 2)
-              );
-              
-              if (distance < 25) {
-                if (frog.isBad) {
-                  // Bad frog - lose points and react
-                  newCoins = Math.max(0, newCoins - 10);
-                  newIsEating = true;
-                  newIsBadFrogReaction = true;
-                  
-                  setTimeout(() => {
-                    setGameState(current => ({ 
-                      ...current, 
-                      isBadFrogReaction: false,
-                      isEating: false 
-                    }));
-                  }, 800);
-                } else {
-                  // Good frog - gain points and grow
-                  newCoins += 2;
-                  newFrogsEaten += 1;
-                  newIsEating = true;
-                  newIsBadFrogReaction = false; // Ensure no bad reaction for good frogs
-                  
-                  setTimeout(() => {
-                    setGameState(current => ({ 
-                      ...current, 
-                      isEating: false 
-                    }));
-                  }, 300);
-                }
-                return { ...frog, collected: true };
-              }
-            }
-            return frog;
-          });
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [updateGameState]);
+
+  const running = !replayPlayer && gameState.gameStarted && !gameState.gameOver && !gameState.gamePaused;
+  const playStepSounds = useGameAudio({ music: running, fast: gameState.isAdvancedLevel });
+
+  // Game loop - fixed simulation step, rendering interpolated between steps
+  useGameLoop({
+    running,
+    fixedStep: BASE_TICK,
+    onStep: () => {
+      // A pause or game over can land mid-frame; only record steps that advance the run
+      const current = stateRef.current;
+      if (!current.gameStarted || current.gameOver || current.gamePaused) return;
+
+      const input: InputFrame = {
+        ...[inputFromGamepad(getActiveGamepad()), touchInputRef.current].reduce(
+          mergeInputFrames,
+          inputFromKeys(pressedKeysRef.current, settings.keyBindings)
+        ),
+        portalAction: portalActionRef.current ?? undefined
+      };
+      portalActionRef.current = null;
+      recordingRef.current.push(encodeInputFrame(input));
+      previousStateRef.current = stateRef.current;
+      stateRef.current = step(stateRef.current, input, BASE_TICK);
+      playStepSounds(previousStateRef.current, stateRef.current);
+    },
+    onFrame: alpha => {
+      setGameState(stateRef.current);
+      setRenderAlpha(alpha);
+    }
+  });
 
-          // Check exit collision
-          if (newPortalExit) {
-            const exitDistance = Math.sqrt(
-              Math.pow(newBirdX - newPortalExit.x, 2) + Math.pow(newBirdY - newPortalExit.y, 2)
-            );
-            
-            if (exitDistance < 30) {
-              let returnX = 200;
-              let returnY = 250;
-              
-              if (prev.enteredPortal) {
-                returnX = prev.enteredPortal.x + PIPE_WIDTH / 2 - BIRD_SIZE / 2;
-                returnY = prev.enteredPortal.topHeight + prev.enteredPortal.gap / 2 - BIRD_SIZE / 2;
-                
-                returnX = Math.max(0, Math.min(370, returnX));
-                returnY = Math.max(0, Math.min(470, returnY));
-              }
-              
-              // Make snake invincible for 2 seconds after exiting portal
-              newInSpecialWorld = false;
-              newWorldCoins = [];
-              newPortalTimer = 10;
-              newPortalExit = null;
-              newBirdX = returnX;
-              newBirdY = returnY;
-              newIsInvincible = true;
-              newInvincibilityTimer = 2;
-              
-              return {
-                ...prev,
-                birdX: newBirdX,
-                birdY: newBirdY,
-                bodySegments: newBodySegments,
-                birdDirection: { x: newDirectionX, y: newDirectionY },
-                pipes: newPipes,
-                coins: newCoins,
-                gameOver: newGameOver,
-                inSpecialWorld: newInSpecialWorld,
-                worldCoins: newWorldCoins,
-                colorTheme: newColorTheme,
-                portalTimer: newPortalTimer,
-                portalExit: newPortalExit,
-                enteredPortal: null,
-                frogsEaten: newFrogsEaten,
-                isEating: newIsEating,
-                usedPortalIds: newUsedPortalIds,
-                isInvincible: newIsInvincible,
-                invincibilityTimer: newInvincibilityTimer,
-                lastPortalX: newLastPortalX,
-                isAdvancedLevel: newIsAdvancedLevel
-              };
-            }
-          }
-          
-          return {
-            ...prev,
-            birdX: newBirdX,
-            birdY: newBirdY,
-            bodySegments: newBodySegments,
-            birdDirection: { x: newDirectionX, y: newDirectionY },
-            pipes: newPipes,
-            coins: newCoins,
-            gameOver: newGameOver,
-            inSpecialWorld: newInSpecialWorld,
-            worldCoins: newWorldCoins,
-            mainWorldFrogs: newMainWorldFrogs,
-            colorTheme: newColorTheme,
-            portalTimer: newPortalTimer,
-            portalExit: newPortalExit,
-            frogsEaten: newFrogsEaten,
-            isEating: newIsEating,
-            isBadFrogReaction: newIsBadFrogReaction,
-            isInvincible: newIsInvincible,
-            invincibilityTimer: newInvincibilityTimer,
-            usedPortalIds: newUsedPortalIds,
-            lastPortalX: newLastPortalX,
-            isAdvancedLevel: newIsAdvancedLevel
-          };
-        }
+  const openSettings = () => {
+    pressedKeysRef.current = new Set();
+    updateGameState(prev => (
+      prev.gameStarted && !prev.gameOver ? { ...prev, gamePaused: true } : prev
+    ));
+    setSettingsOpen(true);
+  };
 
-        return {
-          ...prev,
-          birdX: newBirdX,
-          birdY: newBirdY,
-          bodySegments: newBodySegments,
-          birdDirection: { x: newDirectionX, y: newDirectionY },
-          pipes: newPipes,
-          coins: newCoins,
-          gameOver: newGameOver,
-          inSpecialWorld: newInSpecialWorld,
-          worldCoins: newWorldCoins,
-          mainWorldFrogs: newMainWorldFrogs,
-          colorTheme: newColorTheme,
-          portalTimer: prev.portalTimer,
-          portalExit: prev.portalExit,
-          enteredPortal: prev.enteredPortal,
-          frogsEaten: newFrogsEaten,
-          isEating: newIsEating,
-          isBadFrogReaction: newIsBadFrogReaction,
-          isInvincible: newIsInvincible,
-          invincibilityTimer: newInvincibilityTimer,
-          usedPortalIds: newUsedPortalIds,
-          lastPortalX: newLastPortalX,
-          isAdvancedLevel: newIsAdvancedLevel
-        };
-      });
-    }, 16); // Fixed 60 FPS for consistent performance
+  const { keyBindings } = settings;
+  const keyLabel = (action: GameAction) => formatKey(keyBindings[action][0] ?? '?');
 
-    return () => clearInterval(gameLoop);
-  }, [gameState.gameStarted, gameState.gameOver, gameState.gamePaused, pressedKeys]);
+  const view = replayPlayer && playback.frame
+    ? interpolateState(playback.frame.previousState, playback.frame.state, playback.frame.alpha)
+    : interpolateState(previousStateRef.current, gameState, renderAlpha);
 
   return (
     <div className="flex flex-col items-center gap-4 p-4">
       <div className="text-center">
         <h1 className="text-4xl font-bold mb-2">🐍 Snake Bird Adventure</h1>
-        <div className="flex justify-center gap-4 mb-4">
+        <div className="flex flex-wrap justify-center gap-4 mb-4">
           <div className="bg-card px-3 py-1 rounded-lg border">
             <span className="text-sm text-muted-foreground">Frogs:</span>
-            <span className="ml-1 font-bold text-green-500">🐸 {gameState.coins}</span>
+            <span className="ml-1 font-bold text-green-500">🐸 {view.coins}</span>
           </div>
-          {gameState.gamePaused && (
+          {POWER_UP_TYPES.filter(type => isPowerUpActive(view, type)).map(type => (
+            <div
+              key={type}
+              className="bg-cyan-500/20 px-3 py-1 rounded-lg border border-cyan-500"
+              title={`${POWER_UP_INFO[type].label}: ${POWER_UP_INFO[type].description}`}
+            >
+              <span className="text-cyan-400 font-bold">
+                {POWER_UP_INFO[type].icon} {Math.ceil(view.activePowerUps[type])}s
+              </span>
+            </div>
+          ))}
+          {view.reversedControlsTimer > 0 && (
+            <div
+              className="bg-purple-500/20 px-3 py-1 rounded-lg border border-purple-500"
+              title={`${FROG_VARIETIES.poisonDart.label}: your controls are swapped`}
+            >
+              <span className="text-purple-400 font-bold">
+                {FROG_VARIETIES.poisonDart.icon} Reversed {Math.ceil(view.reversedControlsTimer)}s
+              </span>
+            </div>
+          )}
+          {view.gamePaused && (
             <div className="bg-yellow-500/20 px-3 py-1 rounded-lg border border-yellow-500">
               <span className="text-yellow-400 font-bold">⏸️ PAUSED</span>
             </div>
           )}
-          {gameState.inSpecialWorld && (
+          {view.inSpecialWorld && (
             <div className="bg-purple-500/20 px-3 py-1 rounded-lg border border-purple-500">
-              <span className="text-purple-400 font-bold">✨ Portal World</span>
-              <span className="ml-2 text-red-400 font-bold">⏰ {Math.ceil(gameState.portalTimer)}s</span>
+              <span className="text-purple-400 font-bold">{view.boss ? '⚔️ Boss Arena' : '✨ Portal World'}</span>
+              <span className="ml-2 text-red-400 font-bold">⏰ {Math.ceil(view.portalTimer)}s</span>
+              {view.portalWorld && view.portalWorld.keys.length > 0 && (
+                <span className="ml-2 text-yellow-400 font-bold">
+                  🔑 {view.portalWorld.keys.filter(key => key.collected).length}/{view.portalWorld.keys.length}
+                </span>
+              )}
+            </div>
+          )}
+          {replayPlayer && (
+            <div className="bg-blue-500/20 px-3 py-1 rounded-lg border border-blue-500">
+              <span className="text-blue-400 font-bold">🎬 REPLAY</span>
             </div>
           )}
-          {gameState.isAdvancedLevel && (
-            <div className="bg-red-500/20 px-3 py-1 rounded-lg border border-red-500">
-              <span className="text-red-400 font-bold">🔥 ADVANCED LEVEL</span>
+          {view.snakeRules.bodyCollision && (
+            <div
+              className="bg-green-500/20 px-3 py-1 rounded-lg border border-green-500"
+              title={view.snakeRules.selfCollision ? 'Body and self-collision are on' : 'The body collides with pipes'}
+            >
+              <span className="text-green-400 font-bold">🐍 TRUE SNAKE</span>
+            </div>
+          )}
+          {view.isAdvancedLevel ? (
+            <div
+              className="bg-red-500/20 px-3 py-1 rounded-lg border border-red-500"
+              title={`Stage ${view.stage + 1}: ${STAGES[view.stage].description}`}
+            >
+              <span className="text-red-400 font-bold">🔥 {STAGES[view.stage].name.toUpperCase()}</span>
+            </div>
+          ) : (
+            <div className="bg-card px-3 py-1 rounded-lg border" title={STAGES[view.stage].description}>
+              <span className="text-sm text-muted-foreground">Stage {view.stage + 1}:</span>
+              <span className="ml-1 font-bold">{STAGES[view.stage].name}</span>
             </div>
           )}
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label={settings.muted ? 'Unmute' : 'Mute'}
+            aria-pressed={settings.muted}
+            onClick={toggleMute}
+          >
+            {settings.muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+          </Button>
+          <Button variant="outline" size="icon" aria-label="Settings" onClick={openSettings}>
+            <SettingsIcon className="h-4 w-4" />
+          </Button>
         </div>
       </div>
 
       <div 
         ref={gameRef}
-        className={`relative w-[400px] h-[500px] border-2 border-border rounded-lg overflow-hidden select-none transition-all duration-1000 ${
-          gameState.inSpecialWorld 
-            ? 'bg-gradient-to-b from-purple-600 via-pink-500 to-cyan-600' 
-            : gameState.isAdvancedLevel
-            ? 'bg-gradient-to-b from-red-600 via-orange-500 to-yellow-600'
-            : gameState.colorTheme % 5 === 0 ? 'bg-gradient-to-b from-blue-400 to-blue-600' :
-              gameState.colorTheme % 5 === 1 ? 'bg-gradient-to-b from-orange-400 to-red-500' :
-              gameState.colorTheme % 5 === 2 ? 'bg-gradient-to-b from-green-400 to-emerald-600' :
-              gameState.colorTheme % 5 === 3 ? 'bg-gradient-to-b from-purple-400 to-indigo-600' :
-              'bg-gradient-to-b from-pink-400 to-rose-600'
+        className={`relative border-2 border-border rounded-lg overflow-hidden select-none ${
+          settings.reducedMotion ? 'reduce-motion' : ''
         }`}
+        style={BOARD_STYLE}
       >
-        {/* Enhanced Snake with Body Segments */}
-        <div
-          className={`absolute transition-all duration-100 ${
-            gameState.inSpecialWorld ? 'animate-pulse' : ''
-          } ${gameState.isEating ? 'animate-bounce' : ''} ${
-            gameState.isBadFrogReaction ? 'animate-ping' : ''
-          } ${gameState.isInvincible ? 'animate-pulse opacity-70' : ''}`}
-          style={{
-            left: `${gameState.birdX}px`,
-            top: `${gameState.birdY}px`,
-            width: `${Math.min(50, 30 + gameState.frogsEaten * 3)}px`,
-            height: `${Math.min(40, 25 + gameState.frogsEaten * 2)}px`,
-            transform: `rotate(${gameState.birdDirection.x > 0 ? '15deg' : 
-              gameState.birdDirection.x < 0 ? '-15deg' : 
-              gameState.birdDirection.y > 0 ? '90deg' : 
-              gameState.birdDirection.y < 0 ? '-90deg' : '0deg'})`,
-            zIndex: 100
-          }}
-        >
-          {/* Snake Head */}
-          <div className={`w-full h-full rounded-full border-3 shadow-xl relative overflow-hidden ${
-            gameState.frogsEaten >= 10 ? 'border-gold-400 bg-gradient-to-br from-amber-400 via-yellow-500 to-orange-600' :
-            gameState.frogsEaten >= 5 ? 'border-purple-400 bg-gradient-to-br from-purple-500 via-pink-500 to-red-500' :
-            gameState.inSpecialWorld ? 'border-cyan-400 bg-gradient-to-br from-emerald-400 via-green-500 to-teal-600' : 
-            'border-white bg-gradient-to-br from-green-500 via-emerald-600 to-green-700'
-          }`}>
-            
-            {/* Fancy Pattern Overlay */}
-            {gameState.frogsEaten >= 3 && (
-              <>
-                <div className={`absolute inset-1 rounded-full ${
-                  gameState.frogsEaten >= 10 ? 'bg-gradient-to-br from-gold-300/30 to-amber-500/30' :
-                  gameState.frogsEaten >= 5 ? 'bg-gradient-to-br from-purple-300/30 to-pink-500/30' :
-                  'bg-gradient-to-br from-cyan-300/30 to-emerald-500/30'
-                } animate-pulse`}></div>
-                <div className={`absolute w-2 h-2 top-1 left-1/2 transform -translate-x-1/2 rotate-45 ${
-                  gameState.frogsEaten >= 10 ? 'bg-gold-300' :
-                  gameState.frogsEaten >= 5 ? 'bg-purple-300' : 'bg-cyan-300'
-                }`}></div>
-              </>
-            )}
-            
-            {/* Enhanced Snake Pattern */}
-            <div className={`absolute w-2.5 h-2.5 rounded-full top-1 left-2 ${
-              gameState.frogsEaten >= 10 ? 'bg-amber-300' :
-              gameState.frogsEaten >= 5 ? 'bg-purple-300' :
-              gameState.inSpecialWorld ? 'bg-emerald-300' : 'bg-green-400'
-            }`}></div>
-            <div className={`absolute w-2 h-2 rounded-full top-3 left-1 ${
-              gameState.frogsEaten >= 10 ? 'bg-orange-300' :
-              gameState.frogsEaten >= 5 ? 'bg-pink-300' :
-              gameState.inSpecialWorld ? 'bg-teal-300' : 'bg-green-400'
-            }`}></div>
-            
-            {/* Enhanced Snake Eyes with bad frog reaction */}
-            <div className={`absolute w-3 h-3 rounded-full top-1.5 right-2 border-2 border-black ${
-              gameState.frogsEaten >= 10 ? 'bg-gold-200' :
-              gameState.frogsEaten >= 5 ? 'bg-purple-200' :
-              'bg-yellow-400'
-            } ${gameState.isBadFrogReaction ? 'transform -translate-x-1' : ''}`}>
-              <div className={`absolute w-2 h-2 rounded-full top-0.5 left-0.5 ${
-                gameState.isEating ? 'bg-red-600' : 
-                gameState.isBadFrogReaction ? 'bg-red-600' : 'bg-black'
-              }`}></div>
-            </div>
-            <div className={`absolute w-3 h-3 rounded-full top-1.5 right-0.5 border-2 border-black ${
-              gameState.frogsEaten >= 10 ? 'bg-gold-200' :
-              gameState.frogsEaten >= 5 ? 'bg-purple-200' :
-              'bg-yellow-400'
-            } ${gameState.isBadFrogReaction ? 'transform -translate-x-1' : ''}`}>
-              <div className={`absolute w-2 h-2 rounded-full top-0.5 left-0.5 ${
-                gameState.isEating ? 'bg-red-600' : 
-                gameState.isBadFrogReaction ? 'bg-red-600' : 'bg-black'
-              }`}></div>
-            </div>
-            
-            {/* Enhanced Mouth - Opens when eating */}
-            <div className={`absolute right-0 rounded-r-full transition-all duration-200 ${
-              gameState.isEating ? 'w-4 h-3 top-2 bg-red-600 border-2 border-red-800' : 
-              'w-3 h-1 top-3 bg-green-800'
-            }`}>
-              {/* Teeth when eating */}
-              {gameState.isEating && (
-                <>
-                  <div className="absolute w-1 h-1 bg-white top-0 left-1"></div>
-                  <div className="absolute w-1 h-1 bg-white bottom-0 left-1"></div>
-                  <div className="absolute w-1 h-1 bg-white top-0 right-1"></div>
-                  <div className="absolute w-1 h-1 bg-white bottom-0 right-1"></div>
-                </>
-              )}
-            </div>
-            
-            {/* Forked Tongue - Enhanced */}
-            <div className={`absolute bg-red-500 right-0 rounded-r-full transition-all duration-200 ${
-              gameState.isEating ? 'w-2 h-0.5 top-2.5' : 'w-3 h-0.5 top-3'
-            }`}></div>
-            <div className={`absolute bg-red-500 right-0 rounded-r-full transition-all duration-200 ${
-              gameState.isEating ? 'w-1 h-0.5 top-2' : 'w-1 h-0.5 top-2.5'
-            }`}></div>
-            
-            {/* Snake Body Trail - Grows with frogs eaten */}
-            <div className={`absolute left-0 rounded-l-full ${
-              gameState.frogsEaten >= 10 ? 'bg-gradient-to-r from-amber-500 to-orange-500' :
-              gameState.frogsEaten >= 5 ? 'bg-gradient-to-r from-purple-500 to-pink-500' :
-              gameState.inSpecialWorld ? 'bg-gradient-to-r from-emerald-500 to-teal-500' : 'bg-green-500'
-            }`}
-            style={{
-              width: `${Math.min(8, 3 + gameState.frogsEaten * 0.5)}px`,
-              height: `${Math.min(12, 4 + gameState.frogsEaten * 0.8)}px`,
-              top: `${Math.max(3, 8 - gameState.frogsEaten * 0.3)}px`
-            }}></div>
-            
-            {/* Crown for legendary snakes */}
-            {gameState.frogsEaten >= 10 && (
-              <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-yellow-400 text-xs animate-bounce">
-                👑
-              </div>
-            )}
-          </div>
-        </div>
+        {settings.renderer === 'canvas'
+          ? <CanvasRenderer state={view} colorblind={settings.colorblindPalette} animate={!settings.reducedMotion} />
+          : <DomRenderer state={view} colorblind={settings.colorblindPalette} />}
 
-        {/* Frogs in main world */}
-        {!gameState.inSpecialWorld && gameState.mainWorldFrogs.map((frog) => (
-          !frog.collected && (
-            <div
-              key={frog.id}
-              className="absolute w-8 h-6 animate-bounce shadow-lg"
-              style={{
-                left: `${frog.x}px`,
-                top: `${frog.y}px`,
-                animation: 'bounce 2s ease-in-out infinite'
-              }}
-            >
-              <div className={`absolute w-6 h-4 rounded-full border left-1 top-1 ${
-                frog.isBad 
-                  ? 'bg-gradient-to-br from-red-500 to-red-700 border-red-400' 
-                  : 'bg-gradient-to-br from-green-400 to-green-600 border-green-300'
-              }`}></div>
-              
-              <div className={`absolute w-4 h-3 rounded-full border left-2 top-0 ${
-                frog.isBad 
-                  ? 'bg-gradient-to-br from-red-400 to-red-600 border-red-500' 
-                  : 'bg-gradient-to-br from-green-300 to-green-500 border-green-400'
-              }`}></div>
-              
-              <div className={`absolute w-1.5 h-1.5 rounded-full top-0 left-1 border border-black z-10 ${
-                frog.isBad ? 'bg-red-300' : 'bg-yellow-400'
-              }`}>
-                <div className={`absolute w-1 h-1 rounded-full top-0 left-0 ${
-                  frog.isBad ? 'bg-red-800' : 'bg-black'
-                }`}></div>
-              </div>
-              <div className={`absolute w-1.5 h-1.5 rounded-full top-0 right-1 border border-black z-10 ${
-                frog.isBad ? 'bg-red-300' : 'bg-yellow-400'
-              }`}>
-                <div className={`absolute w-1 h-1 rounded-full top-0 left-0 ${
-                  frog.isBad ? 'bg-red-800' : 'bg-black'
-                }`}></div>
-              </div>
-              
-              {frog.isBad && (
-                <div className="absolute -top-1 left-1/2 transform -translate-x-1/2 text-xs animate-pulse">
-                  💀
-                </div>
-              )}
-            </div>
-          )
-        ))}
+        {view.stageBannerTimer > 0 && !view.inSpecialWorld && (
+          <StageBanner stage={view.stage} timeLeft={view.stageBannerTimer} />
+        )}
 
-        {/* Frogs (only in special world) */}
-        {gameState.inSpecialWorld && gameState.worldCoins.map((frog) => (
-          !frog.collected && (
-            <div
-              key={frog.id}
-              className="absolute w-10 h-8 animate-bounce shadow-lg"
-              style={{
-                left: `${frog.x}px`,
-                top: `${frog.y}px`,
-                animation: 'bounce 2s ease-in-out infinite'
-              }}
-            >
-              <div className={`absolute w-8 h-6 rounded-full border-2 left-1 top-1 ${
-                frog.isBad 
-                  ? 'bg-gradient-to-br from-red-500 to-red-700 border-red-400' 
-                  : 'bg-gradient-to-br from-green-400 to-green-600 border-green-300'
-              }`}></div>
-              
-              <div className={`absolute w-6 h-5 rounded-full border left-2 top-0 ${
-                frog.isBad 
-                  ? 'bg-gradient-to-br from-red-400 to-red-600 border-red-500' 
-                  : 'bg-gradient-to-br from-green-300 to-green-500 border-green-400'
-              }`}></div>
-              
-              <div className={`absolute w-2.5 h-2.5 rounded-full top-0 left-1.5 border border-black z-10 ${
-                frog.isBad ? 'bg-red-300' : 'bg-yellow-400'
-              }`}>
-                <div className={`absolute w-1.5 h-1.5 rounded-full top-0.5 left-0.5 ${
-                  frog.isBad ? 'bg-red-800' : 'bg-black'
-                }`}></div>
-              </div>
-              <div className={`absolute w-2.5 h-2.5 rounded-full top-0 right-1.5 border border-black z-10 ${
-                frog.isBad ? 'bg-red-300' : 'bg-yellow-400'
-              }`}>
-                <div className={`absolute w-1.5 h-1.5 rounded-full top-0.5 left-0.5 ${
-                  frog.isBad ? 'bg-red-800' : 'bg-black'
-                }`}></div>
-              </div>
-              
-              <div className={`absolute w-3 h-1 rounded-full left-1/2 top-3 transform -translate-x-1/2 ${
-                frog.isBad ? 'bg-red-800' : 'bg-green-600'
-              }`}></div>
-              
-              <div className={`absolute w-2 h-3 rounded-full left-0 top-2 ${
-                frog.isBad ? 'bg-red-600' : 'bg-green-500'
-              }`}></div>
-              <div className={`absolute w-2 h-3 rounded-full right-0 top-2 ${
-                frog.isBad ? 'bg-red-600' : 'bg-green-500'
-              }`}></div>
-              
-              <div className={`absolute w-1.5 h-4 rounded-full left-0.5 bottom-0 ${
-                frog.isBad ? 'bg-red-700' : 'bg-green-600'
-              }`}></div>
-              <div className={`absolute w-1.5 h-4 rounded-full right-0.5 bottom-0 ${
-                frog.isBad ? 'bg-red-700' : 'bg-green-600'
-              }`}></div>
-              
-              {frog.isBad && (
-                <div className="absolute -top-2 left-1/2 transform -translate-x-1/2 text-xs animate-pulse">
-                  💀
-                </div>
-              )}
-            </div>
-          )
-        ))}
+        {view.inSpecialWorld && view.boss && !view.showPortalGame && <BossHealthBar boss={view.boss} />}
 
-        {/* Portal Exit (only in special world) */}
-        {gameState.inSpecialWorld && gameState.portalExit && (
-          <div
-            className="absolute w-12 h-12 bg-gradient-to-br from-cyan-400 to-blue-500 rounded-full border-4 border-yellow-400 animate-pulse shadow-xl"
-            style={{
-              left: `${gameState.portalExit.x}px`,
-              top: `${gameState.portalExit.y}px`,
-              animation: 'pulse 1.5s ease-in-out infinite'
-            }}
-          >
-            <div className="absolute inset-2 bg-gradient-to-br from-cyan-200 to-blue-300 rounded-full"></div>
-            <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-lg font-bold text-white">
-              🚪
-            </div>
-            <div className="absolute -top-6 left-1/2 transform -translate-x-1/2 text-xs font-bold text-yellow-400 animate-bounce">
-              EXIT
-            </div>
-          </div>
+        {playingOnTouch && (
+          <TouchControls paused={view.gamePaused} onInputChange={handleTouchInput} onTogglePause={togglePause} />
         )}
-        
-        {/* Snake Body Segments */}
-        {gameState.bodySegments.map((segment, index) => (
-          <div
-            key={segment.id}
-            className={`absolute transition-all duration-150 rounded-full border-2 shadow-lg ${
-              gameState.frogsEaten >= 10 ? 'border-amber-400 bg-gradient-to-br from-amber-500 to-orange-500' :
-              gameState.frogsEaten >= 5 ? 'border-purple-400 bg-gradient-to-br from-purple-500 to-pink-500' :
-              gameState.inSpecialWorld ? 'border-emerald-400 bg-gradient-to-br from-emerald-500 to-teal-500' : 
-              'border-green-400 bg-gradient-to-br from-green-500 to-green-600'
-            }`}
-            style={{
-              left: `${segment.x}px`,
-              top: `${segment.y}px`,
-              width: `${Math.max(15, 25 - index * 1.5)}px`,
-              height: `${Math.max(12, 20 - index * 1.2)}px`,
-              zIndex: 90 - index
-            }}
-          >
-            <div className={`absolute inset-1 rounded-full ${
-              gameState.frogsEaten >= 10 ? 'bg-gradient-to-br from-gold-400/40 to-amber-600/40' :
-              gameState.frogsEaten >= 5 ? 'bg-gradient-to-br from-purple-400/40 to-pink-600/40' :
-              gameState.inSpecialWorld ? 'bg-gradient-to-br from-emerald-400/40 to-teal-600/40' : 
-              'bg-gradient-to-br from-green-400/40 to-green-700/40'
-            }`}></div>
-          </div>
-        ))}
-        
-        {/* Pipes (only in normal world) */}
-        {!gameState.inSpecialWorld && gameState.pipes.map((pipe, index) => (
-          <div key={index}>
-            <div
-              className={`absolute border-2 border-foreground rounded-b-lg shadow-lg ${
-                pipe.isSpecial 
-                  ? 'bg-gradient-to-b from-purple-500 to-purple-700 border-purple-300 shadow-purple-500/50' 
-                  : gameState.isAdvancedLevel
-                  ? 'bg-gradient-to-b from-red-600 to-red-800 border-red-300'
-                  : 'bg-gradient-to-b from-green-600 to-green-800'
-              }`}
-              style={{
-                left: `${pipe.x}px`,
-                top: '0px',
-                width: `${PIPE_WIDTH}px`,
-                height: `${pipe.topHeight}px`
-              }}
-            >
-              <div className="absolute w-full h-1 bg-black/20 top-2"></div>
-              <div className="absolute w-full h-1 bg-black/20 bottom-4"></div>
-              
-              {pipe.isSpecial && (
-                <>
-                  <div className="absolute inset-2 bg-gradient-to-b from-cyan-400/30 to-purple-400/30 rounded animate-pulse"></div>
-                  <div className="absolute top-1 right-1 w-2 h-2 bg-yellow-400 rounded-full animate-ping"></div>
-                </>
-              )}
-            </div>
-            
-            {pipe.isSpecial && (
-              <div
-                className="absolute bg-gradient-to-r from-cyan-400 to-purple-400 border-2 border-yellow-400 rounded animate-pulse"
-                style={{
-                  left: `${pipe.x - 5}px`,
-                  top: `${pipe.topHeight + pipe.gap * 0.3}px`,
-                  width: `${PIPE_WIDTH + 10}px`,
-                  height: `${pipe.gap * 0.4}px`,
-                  zIndex: 10
-                }}
-              >
-                <div className="absolute inset-1 bg-gradient-to-r from-cyan-200/50 to-purple-200/50 rounded animate-pulse"></div>
-                <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-xs font-bold text-white">
-                  🌀PORTAL🌀
-                </div>
-              </div>
-            )}
-            
-            <div
-              className={`absolute border-2 border-foreground rounded-t-lg shadow-lg ${
-                pipe.isSpecial 
-                  ? 'bg-gradient-to-t from-purple-500 to-purple-700 border-purple-300 shadow-purple-500/50' 
-                  : gameState.isAdvancedLevel
-                  ? 'bg-gradient-to-t from-red-600 to-red-800 border-red-300'
-                  : 'bg-gradient-to-t from-green-600 to-green-800'
-              }`}
-              style={{
-                left: `${pipe.x}px`,
-                top: `${pipe.topHeight + pipe.gap}px`,
-                width: `${PIPE_WIDTH}px`,
-                height: `${500 - (pipe.topHeight + pipe.gap)}px`
-              }}
-            >
-              <div className="absolute w-full h-1 bg-black/20 top-4"></div>
-              <div className="absolute w-full h-1 bg-black/20 bottom-2"></div>
-              
-              {pipe.isSpecial && (
-                <>
-                  <div className="absolute inset-2 bg-gradient-to-t from-cyan-400/30 to-purple-400/30 rounded animate-pulse"></div>
-                  <div className="absolute bottom-1 left-1 w-2 h-2 bg-yellow-400 rounded-full animate-ping"></div>
-                </>
-              )}
-            </div>
-          </div>
-        ))}
-
-        <div className="absolute bottom-0 w-full h-12 bg-gradient-to-b from-green-700 to-green-900 border-t-2 border-foreground" />
 
-        {/* Portal Game Result Overlay */}
-        {gameState.showPortalGame && gameState.currentPortalGame && (
-          <div className="absolute inset-0 bg-background/90 flex items-center justify-center z-50">
-            <div className="text-center bg-card p-6 rounded-lg border shadow-lg max-w-md">
-              <h2 className="text-2xl font-bold mb-4 text-purple-500">🌟 Portal Game!</h2>
-              
-              {gameState.currentPortalGame === 'dice' && (
-                <div className="mb-4">
-                  <p className="mb-2">🎲 Rolling Two Dice:</p>
-                  <div className="flex justify-center gap-2 mb-2">
-                    <div className="w-12 h-12 bg-white border-2 border-black rounded flex items-center justify-center text-xl font-bold">
-                      {gameState.gameData.dice[0]}
-                    </div>
-                    <div className="w-12 h-12 bg-white border-2 border-black rounded flex items-center justify-center text-xl font-bold">
-                      {gameState.gameData.dice[1]}
-                    </div>
-                  </div>
-                  <p>Total: <span className="font-bold text-green-500">{gameState.portalGameResult}</span></p>
-                </div>
-              )}
-              
-              {gameState.currentPortalGame === 'cards' && (
-                <div className="mb-4">
-                  <p className="mb-2">🃏 Drawing 2 Cards from 5:</p>
-                  <div className="flex justify-center gap-1 mb-2">
-                    {gameState.gameData.cards.map((card, index) => (
-                      <div 
-                        key={index} 
-                        className={`w-8 h-10 rounded border-2 flex items-center justify-center text-sm font-bold ${
-                          gameState.gameData.selectedCards.includes(card)
-                            ? 'bg-yellow-400 border-yellow-600 text-black'
-                            : 'bg-gray-200 border-gray-400 text-gray-600'
-                        }`}
-                      >
-                        {card}
-                      </div>
-                    ))}
-                  </div>
-                  <p>Total: <span className="font-bold text-green-500">{gameState.portalGameResult}</span></p>
-                </div>
-              )}
-              
-              {gameState.currentPortalGame === 'spinner' && (
-                <div className="mb-4">
-                  <p className="mb-2">🎡 Spinning the Wheel:</p>
-                  <div className="w-16 h-16 bg-gradient-to-br from-purple-400 to-pink-400 rounded-full flex items-center justify-center text-2xl font-bold text-white mx-auto mb-2 animate-spin">
-                    {gameState.portalGameResult}
-                  </div>
-                  <p>You got: <span className="font-bold text-green-500">{gameState.portalGameResult} points!</span></p>
-                </div>
-              )}
-              
-              {gameState.currentPortalGame === 'treasure' && (
-                <div className="mb-4">
-                  <p className="mb-2">🏆 Opening Treasure Chest:</p>
-                  <div className="text-4xl mb-2">💰</div>
-                  <p>Treasure found: <span className="font-bold text-green-500">{gameState.portalGameResult} coins!</span></p>
-                </div>
-              )}
-              
-              <Button 
-                onClick={() => setGameState(prev => ({ ...prev, showPortalGame: false }))} 
-                className="w-full"
-              >
-                Continue Adventure
-              </Button>
-            </div>
-          </div>
+        {view.showPortalGame && view.portalGame && (
+          <PortalGameOverlay game={view.portalGame} disabled={!!replayPlayer} onAction={sendPortalAction} />
         )}
 
-        {gameState.gameOver && (
+        {view.gameOver && !replayPlayer && (
           <div className="absolute inset-0 bg-background/80 flex items-center justify-center">
-            <div className="text-center bg-card p-6 rounded-lg border shadow-lg">
+            <div className="text-center bg-card p-6 m-2 rounded-lg border shadow-lg max-h-[calc(100%-1rem)] overflow-y-auto">
               <h2 className="text-2xl font-bold mb-2 text-destructive">Game Over!</h2>
+              {lastRun?.isNewBest && (
+                <div className="mb-2 bg-yellow-400/20 border border-yellow-500 rounded-lg px-3 py-1 text-yellow-500 font-bold animate-bounce">
+                  🏅 New best!
+                </div>
+              )}
               <div className="mb-4 space-y-2">
-                <p>Total Frogs: <span className="font-bold text-green-500">🐸 {gameState.coins}</span></p>
-                {gameState.coins >= 50 && <p className="text-green-500 font-bold">🎉 Frog Master!</p>}
-                {gameState.coins >= 100 && <p className="text-purple-500 font-bold">👑 Portal Champion!</p>}
+                <p>Total Frogs: <span className="font-bold text-green-500">🐸 {view.coins}</span></p>
+                {view.coins >= 50 && <p className="text-green-500 font-bold">🎉 Frog Master!</p>}
+                {view.coins >= 100 && <p className="text-purple-500 font-bold">👑 Portal Champion!</p>}
+                <p className="text-xs text-muted-foreground">
+                  {DIFFICULTY_LABELS[view.difficulty]} rules · Seed: <span className="font-mono select-all">{view.seed}</span>
+                </p>
               </div>
               <Button onClick={resetGame} className="w-full">
                 Play Again
               </Button>
+              <div className="flex gap-2 mt-2">
+                <Button variant="outline" onClick={() => setReplayPlayer(createReplayPlayer(recordedReplay()))} className="flex-1">
+                  Watch Replay
+                </Button>
+                <Button variant="outline" onClick={() => exportReplay(recordedReplay())} className="flex-1">
+                  Export Replay
+                </Button>
+              </div>
             </div>
           </div>
         )}
 
-        {!gameState.gameStarted && !gameState.gameOver && (
-          <div className="absolute inset-0 bg-background/80 flex items-center justify-center">
-            <div className="text-center bg-card p-6 rounded-lg border shadow-lg">
+        {!view.gameStarted && !view.gameOver && (
+          <div
+            className="absolute inset-0 bg-background/80 flex items-center justify-center"
+            onClick={isMobile && !replayPlayer ? startGame : undefined}
+          >
+            <div className="text-center bg-card p-6 m-2 rounded-lg border shadow-lg max-h-[calc(100%-1rem)] overflow-y-auto">
               <h2 className="text-2xl font-bold mb-2">Ready to Snake Adventure?</h2>
-              <p className="mb-4">Use WASD keys to control the snake!</p>
-              <div className="grid grid-cols-3 gap-1 w-fit mx-auto mb-4">
+              {isMobile ? (
+                <p className="mb-4">Tap to start, then drag anywhere on the board to steer!</p>
+              ) : (
+                <p className="mb-4">Use your movement keys to control the snake!</p>
+              )}
+              <div className={`grid grid-cols-3 gap-1 w-fit mx-auto mb-4 ${isMobile ? 'hidden' : ''}`}>
                 <div></div>
-                <div className="bg-primary text-primary-foreground px-2 py-1 rounded text-xs">W</div>
+                <div className="bg-primary text-primary-foreground px-2 py-1 rounded text-xs">{keyLabel('up')}</div>
                 <div></div>
-                <div className="bg-primary text-primary-foreground px-2 py-1 rounded text-xs">A</div>
-                <div className="bg-primary text-primary-foreground px-2 py-1 rounded text-xs">S</div>
-                <div className="bg-primary text-primary-foreground px-2 py-1 rounded text-xs">D</div>
+                <div className="bg-primary text-primary-foreground px-2 py-1 rounded text-xs">{keyLabel('left')}</div>
+                <div className="bg-primary text-primary-foreground px-2 py-1 rounded text-xs">{keyLabel('down')}</div>
+                <div className="bg-primary text-primary-foreground px-2 py-1 rounded text-xs">{keyLabel('right')}</div>
               </div>
               <div className="w-8 h-8 bg-gradient-to-br from-orange-400 to-yellow-400 rounded-full mx-auto animate-float border-2 border-white"></div>
             </div>
@@ -1217,20 +529,114 @@ export const FlappyBird = () => {
       </div>
 
       <div className="text-center text-sm text-muted-foreground max-w-md">
-        <p>Use <strong>WASD</strong> keys to control the snake! Press <strong>SPACEBAR</strong> to pause!</p>
+        {isMobile ? (
+          <p>Drag anywhere on the board to steer the snake! Tap <strong>⏸️</strong> to pause!</p>
+        ) : (
+          <p>
+            Use <strong>{(['up', 'left', 'down', 'right'] as GameAction[]).map(keyLabel).join('')}</strong> to control
+            the snake! Press <strong>{keyBindings.pause.map(formatKey).join(' / ')}</strong> to pause
+            and <strong>{keyBindings.mute.map(formatKey).join(' / ')}</strong> to mute!
+          </p>
+        )}
+        {gamepadConnected && (
+          <p>🎮 Steer with the <strong>left stick</strong> or <strong>d-pad</strong>, <strong>Start</strong> pauses and <strong>A</strong> plays portal games!</p>
+        )}
         <p>Fly through <strong>purple portals</strong> to enter special worlds and collect frogs!</p>
-        <p className="text-yellow-600 font-medium">Find the exit within 10 seconds or game over!</p>
+        <p className="text-yellow-600 font-medium">
+          Find the exit within {view.rules.portalTimeLimit} seconds or game over!
+        </p>
         <p className="text-green-600 font-medium">Collect frogs in both main world and portal worlds!</p>
-        {gameState.isAdvancedLevel && (
-          <p className="text-red-600 font-bold">🔥 Advanced Level: Moving pipes activated!</p>
+        <p>
+          Every portal you use makes the next world harder: mazes, sliding platforms that shove you about,
+          🔑 keys to find before the exit unlocks, and dark rooms lit only around the snake.
+        </p>
+        <p>
+          Every {BOSS_PORTAL_INTERVAL}th portal leads to a boss instead. Dodge its attacks, bite it while it's open,
+          and beat it before time runs out for a big reward!
+        </p>
+        <p>
+          Frogs hop about and some run from you. Look out for{' '}
+          {FROG_VARIETY_TYPES.filter(variety => variety !== 'common')
+            .map(variety => `${FROG_VARIETIES[variety].icon} ${FROG_VARIETIES[variety].label.toLowerCase()}s (${FROG_VARIETIES[variety].description.toLowerCase()})`)
+            .join(', ')}.
+        </p>
+        <p>
+          Grab power-ups for a few seconds of help:{' '}
+          {POWER_UP_TYPES.map(type => `${POWER_UP_INFO[type].icon} ${POWER_UP_INFO[type].description.toLowerCase()}`).join(', ')}.
+        </p>
+        <p>
+          Every few frogs the world moves on a stage:{' '}
+          {STAGES.map(stage => stage.name).join(' → ')}. Each one is a little harder than the last.
+        </p>
+        <p>
+          Later stages bring spinning bars, spiked mines, laser sweeps and gates that slam shut. Grow to full
+          length to smash straight through <strong>cracked pipes</strong>!
+        </p>
+        <p>
+          Watch out for 🦅 hawks diving from above, mongooses leaping off the ground and 🦇 bat swarms in portal
+          worlds. Each one flashes a red <strong>!</strong> before it attacks, and every bite takes a chunk of your
+          tail. With no tail left, the next bite ends the run!
+        </p>
+        {view.isAdvancedLevel && (
+          <p className="text-red-600 font-bold">🔥 {STAGES[view.stage].name}: {STAGES[view.stage].description}</p>
         )}
       </div>
 
-      {gameState.gameStarted && !gameState.gameOver && (
+      <Dialog open={settingsOpen} onOpenChange={setSettingsOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>⚙️ Settings</DialogTitle>
+            <DialogDescription>Saved on this device.</DialogDescription>
+          </DialogHeader>
+          <SettingsForm onSaved={() => setSettingsOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      {replayPlayer && playback.frame && (
+        <ReplayControls
+          tick={playback.frame.tick}
+          tickCount={replayPlayer.tickCount}
+          playing={playback.playing}
+          speed={playback.speed}
+          onTogglePlaying={playback.togglePlaying}
+          onSpeedChange={playback.setSpeed}
+          onSeek={playback.seek}
+          onExport={() => exportReplay(replayPlayer.replay)}
+          onClose={() => setReplayPlayer(null)}
+        />
+      )}
+
+      {!replayPlayer && gameState.gameStarted && !gameState.gameOver && (
         <Button variant="outline" onClick={resetGame}>
           Reset Game
         </Button>
       )}
+
+      {!replayPlayer && (!gameState.gameStarted || gameState.gameOver) && (
+        <>
+          <Button variant="ghost" size="sm" onClick={() => importInputRef.current?.click()}>
+            Import Replay
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".txt,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importReplay(file);
+            }}
+          />
+          <RunHistory runs={highScores} highlightId={lastRun?.id} />
+          <Button asChild variant="link" size="sm">
+            <Link to="/leaderboard">🏆 View leaderboard</Link>
+          </Button>
+          <Button asChild variant="link" size="sm">
+            <Link to="/settings">⚙️ All settings</Link>
+          </Button>
+        </>
+      )}
     </div>
   );
 };
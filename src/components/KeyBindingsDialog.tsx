@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  ACTION_LABELS,
+  DEFAULT_KEY_BINDINGS,
+  GAME_ACTIONS,
+  findKeyConflict,
+  formatKey,
+  normalizeKey,
+  type GameAction,
+  type KeyBindings
+} from "@/game/input";
+
+interface KeyBindingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: KeyBindings;
+  onSave: (bindings: KeyBindings) => void;
+}
+
+// Keys that only modify other keys, or move focus, can't be bound
+const UNBINDABLE_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock', 'Tab']);
+
+// Add `key` to `action`, taking it away from `removeFrom` when moving it
+const withKey = (bindings: KeyBindings, action: GameAction, key: string, removeFrom?: GameAction): KeyBindings => ({
+  ...bindings,
+  ...(removeFrom && { [removeFrom]: bindings[removeFrom].filter(k => k !== key) }),
+  [action]: [...bindings[action], key]
+});
+
+interface PendingConflict {
+  key: string;
+  action: GameAction;
+  usedBy: GameAction;
+}
+
+export const KeyBindingsDialog = ({ open, onOpenChange, bindings, onSave }: KeyBindingsDialogProps) => {
+  const [draft, setDraft] = useState(bindings);
+  const [listeningFor, setListeningFor] = useState<GameAction | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+
+  // Start from the saved bindings every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDraft(bindings);
+    setListeningFor(null);
+    setConflict(null);
+  }, [open, bindings]);
+
+  const removeKey = (action: GameAction, key: string) => {
+    setDraft(prev => ({ ...prev, [action]: prev[action].filter(k => k !== key) }));
+  };
+
+  // Capture the next key press, ahead of the game's and the dialog's own handlers
+  useEffect(() => {
+    if (!listeningFor) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (UNBINDABLE_KEYS.has(e.key)) return;
+      e.preventDefault();
+      e.stopPropagation();
+
+      const key = normalizeKey(e.key);
+      const usedBy = findKeyConflict(draft, key, listeningFor);
+      if (usedBy) {
+        setConflict({ key, action: listeningFor, usedBy });
+      } else if (!draft[listeningFor].includes(key)) {
+        setDraft(withKey(draft, listeningFor, key));
+      }
+      setListeningFor(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [listeningFor, draft]);
+
+  const unboundActions = GAME_ACTIONS.filter(action => draft[action].length === 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-md"
+        onEscapeKeyDown={e => {
+          if (listeningFor) e.preventDefault();
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>⌨️ Controls</DialogTitle>
+          <DialogDescription>
+            Each action can have several keys. Click + and press a key to add one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {GAME_ACTIONS.map(action => (
+            <div key={action} className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium w-24">{ACTION_LABELS[action]}</span>
+              <div className="flex flex-1 flex-wrap justify-end gap-1">
+                {draft[action].map(key => (
+                  <span
+                    key={key}
+                    className="inline-flex items-center gap-1 rounded border bg-secondary px-2 py-0.5 text-xs font-mono"
+                  >
+                    {formatKey(key)}
+                    <button
+                      type="button"
+                      aria-label={`Remove ${formatKey(key)} from ${ACTION_LABELS[action]}`}
+                      className="opacity-60 hover:opacity-100"
+                      onClick={() => removeKey(action, key)}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+                <Button
+                  size="sm"
+                  variant={listeningFor === action ? 'default' : 'outline'}
+                  className="h-6 px-2 text-xs"
+                  onClick={() => {
+                    setConflict(null);
+                    setListeningFor(listeningFor === action ? null : action);
+                  }}
+                >
+                  {listeningFor === action ? 'Press a key…' : '+'}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {conflict && (
+          <div className="rounded-lg border border-destructive bg-destructive/10 p-3 text-sm space-y-2">
+            <p>
+              <strong>{formatKey(conflict.key)}</strong> is already used for{' '}
+              <strong>{ACTION_LABELS[conflict.usedBy]}</strong>. Move it to{' '}
+              <strong>{ACTION_LABELS[conflict.action]}</strong>?
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setConflict(null)}>
+                Keep
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => {
+                  setDraft(withKey(draft, conflict.action, conflict.key, conflict.usedBy));
+                  setConflict(null);
+                }}
+              >
+                Move key
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {unboundActions.length > 0 && (
+          <p className="text-sm text-destructive">
+            No key for: {unboundActions.map(action => ACTION_LABELS[action]).join(', ')}
+          </p>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_KEY_BINDINGS)}>
+            Reset to defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={unboundActions.length > 0}
+              onClick={() => {
+                onSave(draft);
+                onOpenChange(false);
+              }}
+            >
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
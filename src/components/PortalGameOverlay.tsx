@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import { PORTAL_GAME_VIEWS } from "@/components/portal-games";
+import { PORTAL_CONTINUE } from "@/game/constants";
+import { getPortalAction } from "@/game/portal-games";
+import type { PortalAction, PortalGame, PortalMove } from "@/game/types";
+
+interface PortalGameOverlayProps {
+  game: PortalGame;
+  // Shown but not playable, e.g. while watching a replay
+  disabled?: boolean;
+  onAction: (action: PortalAction) => void;
+}
+
+// The portal mini-game: played before the portal world starts, then shows
+// the result until the player continues
+export const PortalGameOverlay = ({ game, disabled = false, onAction }: PortalGameOverlayProps) => {
+  const View = PORTAL_GAME_VIEWS[game.type];
+
+  const makeMove = (move: PortalMove) => {
+    const action = getPortalAction(game, move);
+    if (action !== null) onAction(action);
+  };
+
+  return (
+    <div className="absolute inset-0 bg-background/90 flex items-center justify-center z-50">
+      <div className="text-center bg-card p-6 m-2 rounded-lg border shadow-lg max-w-md max-h-[calc(100%-1rem)] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-4 text-purple-500">🌟 Portal Game!</h2>
+
+        {View ? (
+          <View game={game} disabled={disabled} onMove={makeMove} />
+        ) : (
+          <p className="mb-4">Result: <span className="font-bold text-green-500">{game.result ?? '?'}</span></p>
+        )}
+
+        {game.result !== null && (
+          <Button onClick={() => onAction(PORTAL_CONTINUE)} disabled={disabled} className="w-full">
+            Continue Adventure
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
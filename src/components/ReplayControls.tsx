@@ -0,0 +1,74 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { BASE_TICK } from "@/game/constants";
+import { REPLAY_SPEEDS } from "@/hooks/use-replay-playback";
+import { formatDuration } from "@/lib/utils";
+
+interface ReplayControlsProps {
+  tick: number;
+  tickCount: number;
+  playing: boolean;
+  speed: number;
+  onTogglePlaying: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (ticks: number) => formatDuration(ticks * BASE_TICK);
+
+export const ReplayControls = ({
+  tick,
+  tickCount,
+  playing,
+  speed,
+  onTogglePlaying,
+  onSpeedChange,
+  onSeek,
+  onExport,
+  onClose
+}: ReplayControlsProps) => {
+  return (
+    <div className="w-full max-w-[400px] bg-card p-3 rounded-lg border shadow-lg space-y-3">
+      <div className="flex items-center gap-3">
+        <Button size="sm" onClick={onTogglePlaying} className="w-20">
+          {playing ? '⏸️ Pause' : '▶️ Play'}
+        </Button>
+        <Slider
+          min={0}
+          max={tickCount}
+          step={1}
+          value={[tick]}
+          onValueChange={([value]) => onSeek(value)}
+        />
+        <span className="text-xs font-mono text-muted-foreground whitespace-nowrap">
+          {formatTime(tick)} / {formatTime(tickCount)}
+        </span>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={option === speed ? 'default' : 'outline'}
+              onClick={() => onSpeedChange(option)}
+              className="px-2"
+            >
+              {option}x
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <Button size="sm" variant="outline" onClick={onExport}>
+            Export
+          </Button>
+          <Button size="sm" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { format } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { DIFFICULTY_LABELS, SNAKE_RULES_LABELS, getSnakeRulesId } from "@/game/rules";
+import type { RunRecord } from "@/lib/high-scores";
+import { formatDuration } from "@/lib/utils";
+
+interface RunHistoryProps {
+  runs: RunRecord[];
+  // Run to highlight, usually the one that just ended
+  highlightId?: string | null;
+}
+
+const HISTORY_LENGTH = 10;
+
+export const RunHistory = ({ runs, highlightId }: RunHistoryProps) => {
+  if (runs.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-[400px] bg-card rounded-lg border">
+      <Table>
+        <TableCaption className="mb-2">🏆 Best runs on this device</TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8">#</TableHead>
+            <TableHead>Score</TableHead>
+            <TableHead>Frogs</TableHead>
+            <TableHead>Portals</TableHead>
+            <TableHead>Time</TableHead>
+            <TableHead>Rules</TableHead>
+            <TableHead>Date</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.slice(0, HISTORY_LENGTH).map((run, index) => (
+            <TableRow key={run.id} data-state={run.id === highlightId ? 'selected' : undefined}>
+              <TableCell>{index + 1}</TableCell>
+              <TableCell className="font-bold text-green-500">
+                🐸 {run.score}
+                {run.reachedAdvancedLevel && <span title="Reached advanced level"> 🔥</span>}
+              </TableCell>
+              <TableCell>{run.frogsEaten}</TableCell>
+              <TableCell>{run.portalsEntered}</TableCell>
+              <TableCell>{formatDuration(run.duration)}</TableCell>
+              <TableCell title={SNAKE_RULES_LABELS[getSnakeRulesId(run.snakeRules)]}>
+                {DIFFICULTY_LABELS[run.difficulty]}
+                {run.snakeRules.bodyCollision && ' 🐍'}
+              </TableCell>
+              <TableCell className="text-muted-foreground">{format(new Date(run.date), 'MMM d, HH:mm')}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { KeyBindingsDialog } from "@/components/KeyBindingsDialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ACTION_LABELS, GAME_ACTIONS, formatKey } from "@/game/input";
+import { RULE_FIELDS, RULE_KEYS, RULE_PRESETS, type RulesPreset } from "@/game/rules";
+import { useSettings } from "@/hooks/use-settings";
+import { DEFAULT_SETTINGS, settingsSchema, type GameSettings } from "@/lib/settings";
+
+interface SettingsFormProps {
+  // Called after the settings have been saved
+  onSaved?: () => void;
+}
+
+type ToggleSetting =
+  | 'trueSnake'
+  | 'selfCollision'
+  | 'reducedMotion'
+  | 'colorblindPalette'
+  | 'autoDismissPortalGame'
+  | 'muted';
+type VolumeSetting = 'volume' | 'sfxVolume' | 'musicVolume';
+
+// Edits every stored preference; shared by the /settings page and the in-game dialog
+export const SettingsForm = ({ onSaved }: SettingsFormProps) => {
+  const [settings, updateSettings] = useSettings();
+  const [bindingsOpen, setBindingsOpen] = useState(false);
+  const form = useForm<GameSettings>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: settings
+  });
+
+  const onSubmit = (values: GameSettings) => {
+    updateSettings(values);
+    form.reset(values);
+    toast.success('Settings saved');
+    onSaved?.();
+  };
+
+  const renderToggle = (name: ToggleSetting, label: string, description: string, disabled = false) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4 space-y-0">
+          <div className="space-y-0.5">
+            <FormLabel>{label}</FormLabel>
+            <FormDescription>{description}</FormDescription>
+          </div>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} disabled={disabled} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderVolume = (name: VolumeSetting, label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex justify-between">
+            <FormLabel>{label}</FormLabel>
+            <span className="text-sm text-muted-foreground">{field.value}%</span>
+          </div>
+          <FormControl>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={[field.value]}
+              onValueChange={([value]) => field.onChange(value)}
+            />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  const keyBindings = form.watch('keyBindings');
+  const trueSnake = form.watch('trueSnake');
+  const difficulty = form.watch('difficulty');
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">🎮 Gameplay</h2>
+          <FormField
+            control={form.control}
+            name="difficulty"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Difficulty</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="easy">Easy - slower pipes, wider gaps</SelectItem>
+                    <SelectItem value="normal">Normal</SelectItem>
+                    <SelectItem value="hard">Hard - faster pipes, less portal time</SelectItem>
+                    <SelectItem value="insane">Insane - narrow gaps, more bad frogs</SelectItem>
+                    <SelectItem value="custom">Custom - your own rules</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormDescription>Takes effect from the next run. Scores are ranked separately for each.</FormDescription>
+              </FormItem>
+            )}
+          />
+          {difficulty === 'custom' && (
+            <div className="space-y-3 rounded-lg border p-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Start from</span>
+                {(Object.keys(RULE_PRESETS) as RulesPreset[]).map(preset => (
+                  <Button
+                    key={preset}
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="capitalize"
+                    onClick={() => form.setValue('customRules', RULE_PRESETS[preset], { shouldDirty: true, shouldValidate: true })}
+                  >
+                    {preset}
+                  </Button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {RULE_KEYS.map(key => (
+                  <FormField
+                    key={key}
+                    control={form.control}
+                    name={`customRules.${key}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{RULE_FIELDS[key].label}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={RULE_FIELDS[key].min}
+                            max={RULE_FIELDS[key].max}
+                            step={RULE_FIELDS[key].step}
+                            {...field}
+                            onChange={e => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+          {renderToggle(
+            'trueSnake',
+            'True snake',
+            'Your body has to fit through the pipes too, so every frog eaten makes the gaps harder. From the next run.'
+          )}
+          {renderToggle(
+            'selfCollision',
+            'Self-collision',
+            'Running into your own body ends the run.',
+            !trueSnake
+          )}
+          {renderToggle(
+            'autoDismissPortalGame',
+            'Auto-dismiss portal games',
+            'Close the portal game result after a moment instead of waiting for Continue.'
+          )}
+          <FormField
+            control={form.control}
+            name="playerName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Player name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Anonymous" maxLength={24} {...field} />
+                </FormControl>
+                <FormDescription>Shown next to your scores on shared leaderboards.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </section>
+
+        <Separator />
+
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">⌨️ Controls</h2>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {GAME_ACTIONS.map(action => (
+              <div key={action} className="flex justify-between gap-2">
+                <dt className="text-muted-foreground">{ACTION_LABELS[action]}</dt>
+                <dd className="font-mono">{keyBindings[action].map(formatKey).join(' ')}</dd>
+              </div>
+            ))}
+          </dl>
+          <Button type="button" variant="outline" onClick={() => setBindingsOpen(true)}>
+            Change key bindings
+          </Button>
+          <KeyBindingsDialog
+            open={bindingsOpen}
+            onOpenChange={setBindingsOpen}
+            bindings={keyBindings}
+            onSave={bindings => form.setValue('keyBindings', bindings, { shouldDirty: true })}
+          />
+        </section>
+
+        <Separator />
+
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">🖥️ Display</h2>
+          <FormField
+            control={form.control}
+            name="renderer"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Renderer</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="dom">DOM</SelectItem>
+                    <SelectItem value="canvas">Canvas - faster on slow devices</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          {renderToggle('reducedMotion', 'Reduced motion', 'Hold the bouncing, pulsing and spinning on the board still.')}
+          {renderToggle('colorblindPalette', 'Colorblind palette', 'Show bad frogs in blue instead of red.')}
+        </section>
+
+        <Separator />
+
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold">🔊 Audio</h2>
+          {renderToggle('muted', 'Mute', `Silence all sound. ${keyBindings.mute.map(formatKey).join(' / ')} toggles it in game.`)}
+          {renderVolume('volume', 'Master volume')}
+          {renderVolume('sfxVolume', 'Sound effects')}
+          {renderVolume('musicVolume', 'Music')}
+        </section>
+
+        <div className="flex justify-between gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => form.reset(DEFAULT_SETTINGS, { keepDefaultValues: true })}
+          >
+            Reset to defaults
+          </Button>
+          <Button type="submit" disabled={!form.formState.isDirty}>
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
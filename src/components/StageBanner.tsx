@@ -0,0 +1,26 @@
+import { STAGES } from "@/game/stages";
+
+interface StageBannerProps {
+  stage: number;
+  // Seconds the banner has left; it fades out over the last half second
+  timeLeft: number;
+}
+
+// Announces a newly reached stage across the top of the board
+export const StageBanner = ({ stage, timeLeft }: StageBannerProps) => {
+  const { name, description } = STAGES[stage];
+
+  return (
+    <div
+      className="absolute inset-x-0 top-1/4 flex justify-center pointer-events-none z-40"
+      style={{ opacity: Math.min(1, timeLeft / 0.5) }}
+      role="status"
+    >
+      <div className="bg-background/80 px-6 py-3 rounded-lg border shadow-lg text-center">
+        <p className="text-xs uppercase tracking-widest text-muted-foreground">Stage {stage + 1}</p>
+        <p className="text-2xl font-bold">{name}</p>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+    </div>
+  );
+};
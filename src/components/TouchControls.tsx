@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { EMPTY_INPUT, inputFromStick } from "@/game/input";
+import type { InputFrame } from "@/game/types";
+
+interface TouchControlsProps {
+  paused: boolean;
+  onInputChange: (input: InputFrame) => void;
+  onTogglePause: () => void;
+}
+
+// Distance in px the knob can travel from where the finger first landed
+const JOYSTICK_RADIUS = 50;
+const JOYSTICK_DEADZONE = 0.15;
+
+interface Joystick {
+  pointerId: number;
+  originX: number;
+  originY: number;
+  knobX: number;
+  knobY: number;
+}
+
+// A floating joystick: touch anywhere on the playfield and drag to steer.
+// Only the first finger steers, so a second one is free for the pause button.
+export const TouchControls = ({ paused, onInputChange, onTogglePause }: TouchControlsProps) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [joystick, setJoystick] = useState<Joystick | null>(null);
+
+  // Let go of the stick whenever the game pauses or the controls go away
+  useEffect(() => {
+    if (!paused) return;
+    setJoystick(null);
+    onInputChange(EMPTY_INPUT);
+  }, [paused, onInputChange]);
+
+  useEffect(() => () => onInputChange(EMPTY_INPUT), [onInputChange]);
+
+  const moveKnob = (stick: Joystick, clientX: number, clientY: number) => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    let dx = clientX - rect.left - stick.originX;
+    let dy = clientY - rect.top - stick.originY;
+    const distance = Math.hypot(dx, dy);
+    if (distance > JOYSTICK_RADIUS) {
+      dx = dx / distance * JOYSTICK_RADIUS;
+      dy = dy / distance * JOYSTICK_RADIUS;
+    }
+
+    setJoystick({ ...stick, knobX: stick.originX + dx, knobY: stick.originY + dy });
+    onInputChange(inputFromStick(dx / JOYSTICK_RADIUS, dy / JOYSTICK_RADIUS, JOYSTICK_DEADZONE));
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (joystick || paused) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    setJoystick({ pointerId: e.pointerId, originX: x, originY: y, knobX: x, knobY: y });
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (joystick?.pointerId !== e.pointerId) return;
+    moveKnob(joystick, e.clientX, e.clientY);
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (joystick?.pointerId !== e.pointerId) return;
+    setJoystick(null);
+    onInputChange(EMPTY_INPUT);
+  };
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0 z-40 touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {joystick && (
+        <>
+          <div
+            className="absolute rounded-full border-2 border-white/60 bg-white/10 pointer-events-none"
+            style={{
+              left: joystick.originX - JOYSTICK_RADIUS,
+              top: joystick.originY - JOYSTICK_RADIUS,
+              width: JOYSTICK_RADIUS * 2,
+              height: JOYSTICK_RADIUS * 2
+            }}
+          />
+          <div
+            className="absolute w-10 h-10 rounded-full bg-white/70 shadow-lg pointer-events-none"
+            style={{ left: joystick.knobX - 20, top: joystick.knobY - 20 }}
+          />
+        </>
+      )}
+
+      <button
+        type="button"
+        aria-label={paused ? 'Resume' : 'Pause'}
+        className="absolute top-2 right-2 w-11 h-11 rounded-full bg-background/70 border text-xl flex items-center justify-center"
+        onPointerDown={e => e.stopPropagation()}
+        onClick={onTogglePause}
+      >
+        {paused ? '▶️' : '⏸️'}
+      </button>
+
+      {paused && (
+        <div className="absolute inset-x-0 bottom-4 text-center text-sm font-medium text-white drop-shadow pointer-events-none">
+          Tap ▶️ to resume
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import { WarningMark } from "@/components/enemies/WarningMark";
+import {
+  HERON_BEAK_LENGTH,
+  HERON_BODY_HEIGHT,
+  HERON_BODY_WIDTH,
+  HERON_BODY_Y,
+  HERON_HEAD_RADIUS,
+  HERON_LEG_LENGTH,
+  getHeronHead,
+  getNeckBase
+} from "@/game/bosses/heron";
+import type { Heron } from "@/game/types";
+import type { BossViewProps } from "./types";
+
+// A straight stroke from (x, y), `length` long at `angle` radians
+const Stroke = ({ x, y, length, angle, thickness, className }: {
+  x: number;
+  y: number;
+  length: number;
+  angle: number;
+  thickness: number;
+  className: string;
+}) => (
+  <div
+    className={`absolute rounded-full ${className}`}
+    style={{
+      left: `${x}px`,
+      top: `${y - thickness / 2}px`,
+      width: `${length}px`,
+      height: `${thickness}px`,
+      transform: `rotate(${angle}rad)`,
+      transformOrigin: '0 50%'
+    }}
+  />
+);
+
+// While it takes aim a crosshair marks where the beak will land; while the
+// beak is stuck its head glows as the spot to bite
+export const HeronView = ({ boss: heron }: BossViewProps<Heron>) => {
+  const base = getNeckBase(heron);
+  const head = getHeronHead(heron);
+  const legTop = HERON_BODY_Y + HERON_BODY_HEIGHT - 6;
+
+  return (
+    <>
+      {heron.mode === 'aiming' && (
+        <>
+          <div
+            className="absolute w-8 h-8 -ml-4 -mt-4 rounded-full border-2 border-dashed border-red-500 animate-pulse"
+            style={{ left: `${heron.targetX}px`, top: `${heron.targetY}px` }}
+          />
+          <WarningMark x={head.x} y={head.y - HERON_HEAD_RADIUS} />
+        </>
+      )}
+      {[-15, 15].map(offset => (
+        <div
+          key={offset}
+          className="absolute w-1.5 bg-amber-500"
+          style={{ left: `${heron.x + offset}px`, top: `${legTop}px`, height: `${HERON_LEG_LENGTH + 6}px` }}
+        />
+      ))}
+      <div
+        className="absolute rounded-full bg-gradient-to-br from-slate-300 to-slate-500 border-2 border-slate-700"
+        style={{
+          left: `${heron.x - HERON_BODY_WIDTH / 2}px`,
+          top: `${HERON_BODY_Y}px`,
+          width: `${HERON_BODY_WIDTH}px`,
+          height: `${HERON_BODY_HEIGHT}px`
+        }}
+      />
+      <Stroke
+        x={base.x}
+        y={base.y}
+        length={Math.hypot(head.x - base.x, head.y - base.y)}
+        angle={Math.atan2(head.y - base.y, head.x - base.x)}
+        thickness={10}
+        className="bg-slate-300 border border-slate-600"
+      />
+      <Stroke x={head.x} y={head.y} length={HERON_BEAK_LENGTH} angle={head.angle} thickness={6} className="bg-amber-400" />
+      <div
+        className={`absolute rounded-full bg-gradient-to-br from-slate-100 to-slate-300 border-2 ${
+          heron.mode === 'stuck' ? 'border-red-500 ring-4 ring-red-500/60 animate-pulse' : 'border-slate-600'
+        }`}
+        style={{
+          left: `${head.x - HERON_HEAD_RADIUS}px`,
+          top: `${head.y - HERON_HEAD_RADIUS}px`,
+          width: `${HERON_HEAD_RADIUS * 2}px`,
+          height: `${HERON_HEAD_RADIUS * 2}px`
+        }}
+      >
+        <div className="absolute left-1/2 top-1 w-2 h-2 rounded-full bg-yellow-400 border border-black" />
+      </div>
+    </>
+  );
+};
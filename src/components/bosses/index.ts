@@ -0,0 +1,11 @@
+import type { BossKind } from "@/game/types";
+import { HeronView } from "./HeronView";
+import type { BossView } from "./types";
+
+export type { BossView, BossViewProps } from "./types";
+
+// What the DOM renderer draws of each boss kind in its arena; the health
+// bar above it is shared, in BossHealthBar
+export const BOSS_VIEWS: Record<BossKind, BossView> = {
+  heron: HeronView
+};
@@ -0,0 +1,8 @@
+import type { ComponentType } from "react";
+import type { Boss } from "@/game/types";
+
+export interface BossViewProps<T extends Boss = Boss> {
+  boss: T;
+}
+
+export type BossView<T extends Boss = Boss> = ComponentType<BossViewProps<T>>;
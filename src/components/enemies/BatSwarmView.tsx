@@ -0,0 +1,22 @@
+import { BAT_SIZE } from "@/game/enemies/bat-swarm";
+import type { BatSwarm } from "@/game/types";
+import type { EnemyViewProps } from "./types";
+import { WarningMark } from "./WarningMark";
+
+// The bats' eyes glow red while the swarm bunches up to swoop
+export const BatSwarmView = ({ enemy: swarm }: EnemyViewProps<BatSwarm>) => (
+  <>
+    {swarm.mode === 'gather' && <WarningMark x={swarm.x} y={swarm.y - BAT_SIZE * 1.5} />}
+    {swarm.bats.map((bat, index) => (
+      <div
+        key={index}
+        className={`absolute flex items-center justify-center text-sm ${
+          swarm.mode === 'gather' ? 'drop-shadow-[0_0_4px_rgba(239,68,68,0.9)]' : ''
+        }`}
+        style={{ left: `${bat.x - BAT_SIZE / 2}px`, top: `${bat.y - BAT_SIZE / 2}px`, width: `${BAT_SIZE}px`, height: `${BAT_SIZE}px` }}
+      >
+        🦇
+      </div>
+    ))}
+  </>
+);
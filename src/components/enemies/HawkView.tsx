@@ -0,0 +1,31 @@
+import { HAWK_SIZE } from "@/game/enemies/hawk";
+import type { Hawk } from "@/game/types";
+import type { EnemyViewProps } from "./types";
+import { WarningMark } from "./WarningMark";
+
+// While it takes aim, a crosshair marks where the dive will land
+export const HawkView = ({ enemy: hawk }: EnemyViewProps<Hawk>) => (
+  <>
+    {hawk.mode === 'warning' && (
+      <>
+        <div
+          className="absolute w-8 h-8 -ml-4 -mt-4 rounded-full border-2 border-dashed border-red-500 animate-pulse"
+          style={{ left: `${hawk.targetX}px`, top: `${hawk.targetY}px` }}
+        />
+        <WarningMark x={hawk.x} y={hawk.y - HAWK_SIZE / 2} />
+      </>
+    )}
+    <div
+      className="absolute flex items-center justify-center text-3xl"
+      style={{
+        left: `${hawk.x - HAWK_SIZE / 2}px`,
+        top: `${hawk.y - HAWK_SIZE / 2}px`,
+        width: `${HAWK_SIZE}px`,
+        height: `${HAWK_SIZE}px`,
+        transform: `scaleX(${hawk.vx > 0 ? -1 : 1})`
+      }}
+    >
+      🦅
+    </div>
+  </>
+);
@@ -0,0 +1,31 @@
+import { MONGOOSE_HEIGHT, MONGOOSE_WIDTH } from "@/game/enemies/mongoose";
+import type { Mongoose } from "@/game/types";
+import type { EnemyViewProps } from "./types";
+import { WarningMark } from "./WarningMark";
+
+// Flattens itself while crouching to leap
+export const MongooseView = ({ enemy: mongoose }: EnemyViewProps<Mongoose>) => {
+  const facingRight = mongoose.vx !== 0 ? mongoose.vx > 0 : mongoose.targetX > mongoose.x;
+
+  return (
+    <>
+      {mongoose.mode === 'crouch' && <WarningMark x={mongoose.x} y={mongoose.y - MONGOOSE_HEIGHT} />}
+      <div
+        className="absolute"
+        style={{
+          left: `${mongoose.x - MONGOOSE_WIDTH / 2}px`,
+          top: `${mongoose.y - MONGOOSE_HEIGHT / 2}px`,
+          width: `${MONGOOSE_WIDTH}px`,
+          height: `${MONGOOSE_HEIGHT}px`,
+          transform: `scaleX(${facingRight ? 1 : -1}) scaleY(${mongoose.mode === 'crouch' ? 0.7 : 1})`,
+          transformOrigin: '50% 100%'
+        }}
+      >
+        <div className="absolute inset-x-1 top-1 bottom-0 rounded-full bg-gradient-to-b from-amber-600 to-amber-800 border border-amber-900" />
+        <div className="absolute -right-1 top-0 w-3 h-3 rounded-full bg-amber-700 border border-amber-900" />
+        <div className="absolute right-0 top-1 w-1 h-1 rounded-full bg-black" />
+        <div className="absolute -left-2 top-2 w-4 h-1.5 rounded-full bg-amber-800" />
+      </div>
+    </>
+  );
+};
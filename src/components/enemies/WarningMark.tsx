@@ -0,0 +1,14 @@
+interface WarningMarkProps {
+  x: number;
+  y: number;
+}
+
+// The "!" over an enemy about to attack
+export const WarningMark = ({ x, y }: WarningMarkProps) => (
+  <div
+    className="absolute -translate-x-1/2 -translate-y-full text-lg font-bold text-red-500 animate-pulse pointer-events-none"
+    style={{ left: `${x}px`, top: `${y}px` }}
+  >
+    !
+  </div>
+);
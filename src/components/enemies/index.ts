@@ -0,0 +1,15 @@
+import type { EnemyKind } from "@/game/types";
+import { BatSwarmView } from "./BatSwarmView";
+import { HawkView } from "./HawkView";
+import { MongooseView } from "./MongooseView";
+import type { EnemyView } from "./types";
+
+export type { EnemyView, EnemyViewProps } from "./types";
+
+// The DOM renderer's element for each enemy kind, warning mark included
+// while it telegraphs an attack
+export const ENEMY_VIEWS: Record<EnemyKind, EnemyView> = {
+  hawk: HawkView,
+  mongoose: MongooseView,
+  batSwarm: BatSwarmView
+};
@@ -0,0 +1,8 @@
+import type { ComponentType } from "react";
+import type { Enemy } from "@/game/types";
+
+export interface EnemyViewProps<T extends Enemy = Enemy> {
+  enemy: T;
+}
+
+export type EnemyView<T extends Enemy = Enemy> = ComponentType<EnemyViewProps<T>>;
@@ -0,0 +1,29 @@
+import { PIPE_WIDTH, WORLD_HEIGHT } from "@/game/constants";
+import type { BreakablePipe } from "@/game/types";
+import type { ObstacleViewProps } from "./types";
+
+// Cracked brown pipe halves; smashed ones are left as stumps at the edges
+export const BreakablePipeView = ({ obstacle: pipe }: ObstacleViewProps<BreakablePipe>) => {
+  const bottomTop = pipe.topHeight + pipe.gap;
+  const topHeight = pipe.broken ? Math.min(pipe.topHeight, 24) : pipe.topHeight;
+  const bottomHeight = pipe.broken ? Math.min(WORLD_HEIGHT - bottomTop, 72) : WORLD_HEIGHT - bottomTop;
+
+  return (
+    <>
+      <div
+        className="absolute bg-gradient-to-b from-amber-700 to-amber-900 border-2 border-amber-950 rounded-b-lg shadow-lg overflow-hidden"
+        style={{ left: `${pipe.x}px`, top: '0px', width: `${PIPE_WIDTH}px`, height: `${topHeight}px` }}
+      >
+        <div className="absolute left-3 bottom-2 w-8 h-0.5 bg-amber-950 rotate-45" />
+        <div className="absolute right-2 bottom-6 w-6 h-0.5 bg-amber-950 -rotate-12" />
+      </div>
+      <div
+        className="absolute bg-gradient-to-t from-amber-700 to-amber-900 border-2 border-amber-950 rounded-t-lg shadow-lg overflow-hidden"
+        style={{ left: `${pipe.x}px`, top: `${WORLD_HEIGHT - bottomHeight}px`, width: `${PIPE_WIDTH}px`, height: `${bottomHeight}px` }}
+      >
+        <div className="absolute left-2 top-3 w-8 h-0.5 bg-amber-950 -rotate-45" />
+        <div className="absolute right-3 top-7 w-5 h-0.5 bg-amber-950 rotate-12" />
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,26 @@
+import { PIPE_WIDTH, WORLD_HEIGHT } from "@/game/constants";
+import { getGateGap } from "@/game/obstacles/closing-gate";
+import type { ClosingGate } from "@/game/types";
+import type { ObstacleViewProps } from "./types";
+
+// Steel pipe halves with hazard-striped ends that slide together
+export const ClosingGateView = ({ obstacle: gate }: ObstacleViewProps<ClosingGate>) => {
+  const gap = getGateGap(gate);
+
+  return (
+    <>
+      <div
+        className="absolute bg-gradient-to-b from-slate-500 to-slate-700 border-2 border-slate-900 rounded-b-lg shadow-lg"
+        style={{ left: `${gate.x}px`, top: '0px', width: `${PIPE_WIDTH}px`, height: `${gap.top}px` }}
+      >
+        <div className="absolute inset-x-0 bottom-0 h-3 bg-[repeating-linear-gradient(45deg,#facc15_0_6px,#0f172a_6px_12px)]" />
+      </div>
+      <div
+        className="absolute bg-gradient-to-t from-slate-500 to-slate-700 border-2 border-slate-900 rounded-t-lg shadow-lg"
+        style={{ left: `${gate.x}px`, top: `${gap.bottom}px`, width: `${PIPE_WIDTH}px`, height: `${WORLD_HEIGHT - gap.bottom}px` }}
+      >
+        <div className="absolute inset-x-0 top-0 h-3 bg-[repeating-linear-gradient(45deg,#facc15_0_6px,#0f172a_6px_12px)]" />
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,26 @@
+import { LASER_WIDTH, isLaserFiring, isLaserWarming } from "@/game/obstacles/laser";
+import type { LaserSweep } from "@/game/types";
+import type { ObstacleViewProps } from "./types";
+
+// Emitters at both ends; the beam flickers faintly just before it fires
+export const LaserView = ({ obstacle: laser }: ObstacleViewProps<LaserSweep>) => {
+  const firing = isLaserFiring(laser);
+  const warming = isLaserWarming(laser);
+
+  return (
+    <div
+      className="absolute"
+      style={{ left: `${laser.x}px`, top: `${laser.y - 8}px`, width: `${LASER_WIDTH}px`, height: '16px' }}
+    >
+      {(firing || warming) && (
+        <div
+          className={`absolute inset-x-2 top-1/2 -translate-y-1/2 rounded-full ${
+            firing ? 'h-1.5 bg-red-500 shadow-[0_0_8px_2px_rgba(239,68,68,0.8)]' : 'h-px bg-red-300/60 animate-pulse'
+          }`}
+        />
+      )}
+      <div className="absolute left-0 top-0 w-3 h-4 rounded-sm bg-zinc-700 border border-zinc-400" />
+      <div className="absolute right-0 top-0 w-3 h-4 rounded-sm bg-zinc-700 border border-zinc-400" />
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { MINE_RADIUS } from "@/game/obstacles/mine";
+import type { SpikedMine } from "@/game/types";
+import type { ObstacleViewProps } from "./types";
+
+const SPIKE_ANGLES = [0, 45, 90, 135, 180, 225, 270, 315];
+
+export const MineView = ({ obstacle: mine }: ObstacleViewProps<SpikedMine>) => (
+  <div
+    className="absolute"
+    style={{ left: `${mine.x}px`, top: `${mine.y - MINE_RADIUS}px`, width: `${MINE_RADIUS * 2}px`, height: `${MINE_RADIUS * 2}px` }}
+  >
+    {SPIKE_ANGLES.map(angle => (
+      <div
+        key={angle}
+        className="absolute left-1/2 top-1/2 w-1 h-2 -ml-0.5 bg-zinc-300 rounded-full"
+        style={{ transform: `rotate(${angle}deg) translateY(-${MINE_RADIUS + 2}px)`, transformOrigin: '50% 0' }}
+      />
+    ))}
+    <div className="absolute inset-0 rounded-full bg-gradient-to-br from-zinc-600 to-zinc-900 border-2 border-zinc-400 shadow-lg" />
+    <div className="absolute left-1/2 top-1/2 w-2 h-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-red-500 animate-pulse" />
+  </div>
+);
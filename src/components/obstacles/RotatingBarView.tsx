@@ -0,0 +1,16 @@
+import { BAR_THICKNESS } from "@/game/obstacles/rotating-bar";
+import type { RotatingBar } from "@/game/types";
+import type { ObstacleViewProps } from "./types";
+
+export const RotatingBarView = ({ obstacle: bar }: ObstacleViewProps<RotatingBar>) => (
+  <div
+    className="absolute"
+    style={{ left: `${bar.x}px`, top: `${bar.y - BAR_THICKNESS / 2}px`, width: `${bar.length}px`, height: `${BAR_THICKNESS}px` }}
+  >
+    <div
+      className="w-full h-full rounded-full bg-gradient-to-r from-zinc-500 via-zinc-300 to-zinc-500 border-2 border-zinc-800 shadow-lg"
+      style={{ transform: `rotate(${bar.angle}rad)` }}
+    />
+    <div className="absolute left-1/2 top-1/2 w-4 h-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-zinc-800 border-2 border-zinc-400" />
+  </div>
+);
@@ -0,0 +1,19 @@
+import type { ObstacleKind } from "@/game/types";
+import { BreakablePipeView } from "./BreakablePipeView";
+import { ClosingGateView } from "./ClosingGateView";
+import { LaserView } from "./LaserView";
+import { MineView } from "./MineView";
+import { RotatingBarView } from "./RotatingBarView";
+import type { ObstacleView } from "./types";
+
+export type { ObstacleView, ObstacleViewProps } from "./types";
+
+// The DOM renderer's element for each obstacle kind; the canvas renderer
+// paints the same kinds in src/lib/draw-game.ts
+export const OBSTACLE_VIEWS: Record<ObstacleKind, ObstacleView> = {
+  rotatingBar: RotatingBarView,
+  closingGate: ClosingGateView,
+  mine: MineView,
+  laser: LaserView,
+  breakablePipe: BreakablePipeView
+};
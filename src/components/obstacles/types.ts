@@ -0,0 +1,8 @@
+import type { ComponentType } from "react";
+import type { Obstacle } from "@/game/types";
+
+export interface ObstacleViewProps<T extends Obstacle = Obstacle> {
+  obstacle: T;
+}
+
+export type ObstacleView<T extends Obstacle = Obstacle> = ComponentType<ObstacleViewProps<T>>;
@@ -0,0 +1,37 @@
+import { CARD_PICKS, type CardsGame } from "@/game/portal-games/cards";
+import type { PortalGameViewProps } from "./types";
+
+// Cards show their number once picked, and all of them once the game is decided
+export const CardsView = ({ game, disabled, onMove }: PortalGameViewProps<CardsGame, number>) => {
+  const finished = game.result !== null;
+
+  return (
+    <div className="mb-4">
+      <p className="mb-2">🃏 Pick {CARD_PICKS} of the 5 cards:</p>
+      <div className="flex justify-center gap-1 mb-2">
+        {game.cards.map((card, index) => {
+          const picked = game.picked.includes(index);
+          return (
+            <button
+              key={index}
+              type="button"
+              aria-label={picked || finished ? `Card ${card}` : `Card ${index + 1}`}
+              disabled={disabled || picked || finished}
+              onClick={() => onMove(index)}
+              className={`w-10 h-14 rounded border-2 flex items-center justify-center text-sm font-bold ${
+                picked
+                  ? 'bg-yellow-400 border-yellow-600 text-black'
+                  : finished
+                    ? 'bg-gray-200 border-gray-400 text-gray-600'
+                    : 'bg-purple-700 border-purple-900 text-purple-200 hover:bg-purple-600'
+              }`}
+            >
+              {picked || finished ? card : index + 1}
+            </button>
+          );
+        })}
+      </div>
+      {finished && <p>Total: <span className="font-bold text-green-500">{game.result}</span></p>}
+    </div>
+  );
+};
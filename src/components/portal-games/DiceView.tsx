@@ -0,0 +1,38 @@
+import { Button } from "@/components/ui/button";
+import { DICE_BUST_FACE, type DiceGame, type DiceMove } from "@/game/portal-games/dice";
+import type { PortalGameViewProps } from "./types";
+
+export const DiceView = ({ game, disabled, onMove }: PortalGameViewProps<DiceGame, DiceMove>) => (
+  <div className="mb-4">
+    <p className="mb-2">🎲 Roll again to grow the pot, but a {DICE_BUST_FACE} loses it all!</p>
+    <div className="flex justify-center gap-2 mb-2">
+      {game.dice.map((face, index) => (
+        <div
+          key={index}
+          className={`w-12 h-12 bg-white border-2 rounded flex items-center justify-center text-xl font-bold text-black ${
+            game.busted && face === DICE_BUST_FACE ? 'border-red-500' : 'border-black'
+          }`}
+        >
+          {face}
+        </div>
+      ))}
+    </div>
+    {game.busted ? (
+      <p className="text-destructive font-bold">Bust! The pot is gone.</p>
+    ) : game.result !== null ? (
+      <p>Banked: <span className="font-bold text-green-500">{game.result}</span></p>
+    ) : (
+      <>
+        <p className="mb-2">Pot: <span className="font-bold text-green-500">{game.pot}</span> after {game.rolls} roll{game.rolls === 1 ? '' : 's'}</p>
+        <div className="flex justify-center gap-2">
+          <Button variant="outline" onClick={() => onMove('roll')} disabled={disabled}>
+            Roll again <span className="ml-1 text-xs opacity-70">1</span>
+          </Button>
+          <Button onClick={() => onMove('bank')} disabled={disabled}>
+            Bank {game.pot} <span className="ml-1 text-xs opacity-70">Enter</span>
+          </Button>
+        </div>
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import { getSpinnerIndex, type SpinnerGame } from "@/game/portal-games/spinner";
+import type { PortalGameViewProps } from "./types";
+
+const WHEEL_SIZE = 128;
+
+// The wheel turns with the simulation, so it holds still while paused
+export const SpinnerView = ({ game, disabled, onMove }: PortalGameViewProps<SpinnerGame, 'stop'>) => {
+  const segmentAngle = 360 / game.segments.length;
+  const current = getSpinnerIndex(game);
+
+  return (
+    <div className="mb-4">
+      <p className="mb-2">🎡 Stop the wheel on a big number!</p>
+      <div className="relative mx-auto mb-2" style={{ width: WHEEL_SIZE, height: WHEEL_SIZE }}>
+        <div className="absolute left-1/2 -top-1 -translate-x-1/2 z-10 text-lg leading-none">🔻</div>
+        <div
+          className="absolute inset-0 rounded-full bg-gradient-to-br from-purple-400 to-pink-400 border-2 border-white"
+          style={{ transform: `rotate(${-game.position * segmentAngle}deg)` }}
+        >
+          {game.segments.map((value, index) => (
+            <span
+              key={index}
+              className={`absolute left-1/2 top-1/2 w-6 -ml-3 -mt-3 text-center font-bold ${
+                index === current ? 'text-yellow-200 text-lg' : 'text-white text-sm'
+              }`}
+              style={{ transform: `rotate(${index * segmentAngle}deg) translateY(-${WHEEL_SIZE / 2 - 14}px)` }}
+            >
+              {value}
+            </span>
+          ))}
+        </div>
+      </div>
+      {game.result === null ? (
+        <Button onClick={() => onMove('stop')} disabled={disabled}>
+          Stop! <span className="ml-1 text-xs opacity-70">Enter</span>
+        </Button>
+      ) : (
+        <p>You got: <span className="font-bold text-green-500">{game.result} points!</span></p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import type { TreasureGame } from "@/game/portal-games/treasure";
+import type { PortalGameViewProps } from "./types";
+
+// Opening a chest reveals what was in every one of them
+export const TreasureView = ({ game, disabled, onMove }: PortalGameViewProps<TreasureGame, number>) => (
+  <div className="mb-4">
+    <p className="mb-2">🏆 Choose a chest to open:</p>
+    <div className="flex justify-center gap-3 mb-2">
+      {game.chests.map((coins, index) => (
+        <button
+          key={index}
+          type="button"
+          aria-label={`Chest ${index + 1}`}
+          disabled={disabled || game.opened !== null}
+          onClick={() => onMove(index)}
+          className={`w-16 rounded-lg border-2 p-1 ${
+            game.opened === index ? 'border-yellow-500 bg-yellow-400/20' : 'border-border hover:bg-muted'
+          }`}
+        >
+          <div className="text-3xl">{game.opened === null ? '🧰' : '💰'}</div>
+          <div className="text-xs font-bold">{game.opened === null ? index + 1 : coins}</div>
+        </button>
+      ))}
+    </div>
+    {game.result !== null && (
+      <p>Treasure found: <span className="font-bold text-green-500">{game.result} coins!</span></p>
+    )}
+  </div>
+);
@@ -0,0 +1,17 @@
+import type { PortalGameKind } from "@/game/portal-games";
+import { CardsView } from "./CardsView";
+import { DiceView } from "./DiceView";
+import { SpinnerView } from "./SpinnerView";
+import { TreasureView } from "./TreasureView";
+import type { PortalGameView } from "./types";
+
+export type { PortalGameView, PortalGameViewProps } from "./types";
+
+// The overlay's body for each game in src/game/portal-games. Keyed by every
+// registered game, so a game without a view here fails the type-check.
+export const PORTAL_GAME_VIEWS: Record<PortalGameKind, PortalGameView> = {
+  dice: DiceView,
+  cards: CardsView,
+  spinner: SpinnerView,
+  treasure: TreasureView
+};
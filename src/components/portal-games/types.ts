@@ -0,0 +1,13 @@
+import type { ComponentType } from "react";
+import type { PortalGame, PortalMove } from "@/game/types";
+
+export interface PortalGameViewProps<T extends PortalGame = PortalGame, M extends PortalMove = PortalMove> {
+  game: T;
+  // Shown but not playable, e.g. while watching a replay
+  disabled: boolean;
+  // Make one of the moves the game's definition lists
+  onMove: (move: M) => void;
+}
+
+export type PortalGameView<T extends PortalGame = PortalGame, M extends PortalMove = PortalMove> =
+  ComponentType<PortalGameViewProps<T, M>>;
@@ -0,0 +1,28 @@
+import type { Point } from "../enemies/definition";
+import type { Random } from "../rng";
+import type { Boss, Box } from "../types";
+
+// One kind of boss: its name and health bar, how it fights, and where it can
+// be bitten. Health and phase are counted down for every boss alike in
+// ./index.ts; a kind only reacts to losing them.
+export interface BossDefinition<T extends Boss = Boss> {
+  kind: T['kind'];
+  name: string;
+  icon: string;
+  maxHealth: number;
+  // Its health is split evenly between this many phases
+  phases: number;
+  // Coins for beating it
+  reward: number;
+  spawn(random: Random): T;
+  // `target` is the middle of the snake's head
+  advance(boss: T, target: Point, dt: number): T;
+  // Telegraphing its next attack
+  isWarning(boss: T): boolean;
+  // Only an attacking boss hurts
+  hits(boss: T, box: Box): boolean;
+  // A weak point is open to a bite from the head `box`
+  isExposed(boss: T, box: Box): boolean;
+  // Reel back from a bite; its new health and phase are already set
+  flinch(boss: T): T;
+}
@@ -0,0 +1,134 @@
+import { GROUND_HEIGHT, WORLD_HEIGHT, WORLD_WIDTH } from "../constants";
+import { hitsCircle } from "../obstacles/definition";
+import type { Heron } from "../types";
+import type { BossDefinition } from "./definition";
+
+const HERON_HEALTH = 6;
+export const HERON_BODY_WIDTH = 90;
+export const HERON_BODY_HEIGHT = 56;
+export const HERON_LEG_LENGTH = 110;
+// Top of its body; it always stands on the grass
+export const HERON_BODY_Y = WORLD_HEIGHT - GROUND_HEIGHT - HERON_LEG_LENGTH - HERON_BODY_HEIGHT;
+export const HERON_HEAD_RADIUS = 16;
+export const HERON_BEAK_LENGTH = 28;
+const BEAK_HIT_RADIUS = 10;
+// Between stabs the beak is held this far up and out from the body, on the
+// snake's side
+const REST_REACH = 60;
+const REST_HEIGHT = 70;
+const WALK_SPEED = 50;
+const MIN_X = HERON_BODY_WIDTH / 2;
+const MAX_X = WORLD_WIDTH - HERON_BODY_WIDTH / 2;
+const RECOIL_SPEED = 320;
+
+// Each phase strikes sooner, faster and more often, and leaves the head
+// open for less time
+const PHASES = [
+  { stalkTime: 1.6, aimTime: 0.9, strikeSpeed: 520, strikes: 1, stuckTime: 1.6 },
+  { stalkTime: 1.2, aimTime: 0.7, strikeSpeed: 650, strikes: 2, stuckTime: 1.3 },
+  { stalkTime: 0.8, aimTime: 0.55, strikeSpeed: 780, strikes: 3, stuckTime: 1 }
+];
+
+// Where the neck joins the body
+export const getNeckBase = (heron: Heron) => ({ x: heron.x, y: HERON_BODY_Y + 8 });
+
+// Middle of the head, just behind the beak along the neck
+export const getHeronHead = (heron: Heron) => {
+  const base = getNeckBase(heron);
+  const angle = Math.atan2(heron.beakY - base.y, heron.beakX - base.x);
+  return {
+    x: heron.beakX - Math.cos(angle) * HERON_BEAK_LENGTH,
+    y: heron.beakY - Math.sin(angle) * HERON_BEAK_LENGTH,
+    angle
+  };
+};
+
+// Step (x, y) up to `distance` towards (toX, toY)
+const moveToward = (x: number, y: number, toX: number, toY: number, distance: number) => {
+  const dx = toX - x;
+  const dy = toY - y;
+  const length = Math.hypot(dx, dy);
+  if (length <= distance) return { x: toX, y: toY, arrived: true };
+  return { x: x + (dx / length) * distance, y: y + (dy / length) * distance, arrived: false };
+};
+
+const getRestPosition = (x: number, targetX: number) => ({
+  x: x + (targetX < x ? -REST_REACH : REST_REACH),
+  y: HERON_BODY_Y - REST_HEIGHT
+});
+
+// Wades after the snake, takes aim, then stabs its beak at where the head
+// was. After the last stab of a flurry the beak sticks fast for a moment,
+// and that's the time to bite its head.
+export const heron: BossDefinition<Heron> = {
+  kind: 'heron',
+  name: 'Giant Heron',
+  icon: '🦩',
+  maxHealth: HERON_HEALTH,
+  phases: PHASES.length,
+  reward: 50,
+  spawn: random => {
+    const x = WORLD_WIDTH * 0.7 + random() * 40;
+    const rest = getRestPosition(x, 0);
+    return {
+      kind: 'heron',
+      health: HERON_HEALTH,
+      phase: 0,
+      timer: 0,
+      targetX: 0,
+      targetY: 0,
+      mode: 'stalking',
+      x,
+      beakX: rest.x,
+      beakY: rest.y,
+      strikesLeft: 0
+    };
+  },
+  advance: (heron, target, dt) => {
+    const timer = heron.timer + dt;
+    const phase = PHASES[heron.phase];
+
+    if (heron.mode === 'stalking') {
+      const x = Math.max(MIN_X, Math.min(MAX_X, moveToward(heron.x, 0, target.x, 0, WALK_SPEED * dt).x));
+      const rest = getRestPosition(x, target.x);
+      const beak = moveToward(heron.beakX, heron.beakY, rest.x, rest.y, RECOIL_SPEED * dt);
+      const moved = { ...heron, x, beakX: beak.x, beakY: beak.y, timer };
+      if (timer < phase.stalkTime) return moved;
+      return { ...moved, mode: 'aiming', timer: 0, targetX: target.x, targetY: target.y, strikesLeft: phase.strikes };
+    }
+
+    if (heron.mode === 'aiming') {
+      if (timer < phase.aimTime) return { ...heron, timer };
+      return { ...heron, mode: 'striking', timer: 0 };
+    }
+
+    if (heron.mode === 'striking') {
+      const beak = moveToward(heron.beakX, heron.beakY, heron.targetX, heron.targetY, phase.strikeSpeed * dt);
+      const moved = { ...heron, beakX: beak.x, beakY: beak.y, timer };
+      if (!beak.arrived) return moved;
+      const strikesLeft = heron.strikesLeft - 1;
+      return { ...moved, mode: strikesLeft > 0 ? 'recoiling' : 'stuck', timer: 0, strikesLeft };
+    }
+
+    if (heron.mode === 'stuck') {
+      if (timer < phase.stuckTime) return { ...heron, timer };
+      return { ...heron, mode: 'recoiling', timer: 0 };
+    }
+
+    // Recoiling: back to rest, then on with the flurry or back to stalking
+    const rest = getRestPosition(heron.x, target.x);
+    const beak = moveToward(heron.beakX, heron.beakY, rest.x, rest.y, RECOIL_SPEED * dt);
+    const moved = { ...heron, beakX: beak.x, beakY: beak.y, timer };
+    if (!beak.arrived) return moved;
+    if (heron.strikesLeft > 0) return { ...moved, mode: 'aiming', timer: 0, targetX: target.x, targetY: target.y };
+    return { ...moved, mode: 'stalking', timer: 0 };
+  },
+  isWarning: heron => heron.mode === 'aiming',
+  hits: (heron, box) => heron.mode === 'striking' && hitsCircle(heron.beakX, heron.beakY, BEAK_HIT_RADIUS, box),
+  isExposed: (heron, box) => {
+    if (heron.mode !== 'stuck') return false;
+    const head = getHeronHead(heron);
+    return hitsCircle(head.x, head.y, HERON_HEAD_RADIUS, box);
+  },
+  flinch: heron => ({ ...heron, mode: 'recoiling', timer: 0, strikesLeft: 0 })
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { BIRD_SIZE, BOSS_PORTAL_INTERVAL, BOSS_TIME_MULTIPLIER } from "../constants";
+import { EMPTY_INPUT } from "../input";
+import { createRandom } from "../rng";
+import { pipe, startRun, tick } from "../test-fixtures";
+import type { GameState, Heron, InputFrame } from "../types";
+import { getHeronHead, heron } from "./heron";
+import { biteBoss, isBossExposed, spawnBoss } from "./index";
+
+// Go through a portal right at the head, after `used` others this run, and
+// skip the portal game
+const enterPortal = (used: number) => {
+  const entered = tick(startRun({
+    pipes: [pipe(190, { isSpecial: true })],
+    usedPortalIds: new Set(Array.from({ length: used }, (_, index) => `used-${index}`))
+  }));
+  expect(entered.inSpecialWorld).toBe(true);
+  return { ...entered, showPortalGame: false };
+};
+
+// Head box centred on (x, y)
+const headAt = (x: number, y: number) => ({ left: x - BIRD_SIZE / 2, right: x + BIRD_SIZE / 2, top: y - BIRD_SIZE / 2, bottom: y + BIRD_SIZE / 2 });
+
+// Keys that move the middle of the head towards (x, y)
+const steerTo = (state: GameState, x: number, y: number): InputFrame => {
+  const headX = state.birdX + BIRD_SIZE / 2;
+  const headY = state.birdY + BIRD_SIZE / 2;
+  return { ...EMPTY_INPUT, up: headY > y + 3, down: headY < y - 3, left: headX > x + 3, right: headX < x - 3 };
+};
+
+// Wait in the open, step aside while the heron aims so its beak lands short,
+// then bite its head while the beak is stuck
+const fightHeron = (state: GameState): InputFrame => {
+  const boss = state.boss as Heron;
+  if (boss.mode === 'stuck') {
+    const head = getHeronHead(boss);
+    return steerTo(state, head.x, head.y);
+  }
+  if (boss.mode === 'aiming' || boss.mode === 'striking') return steerTo(state, boss.targetX - 80, boss.targetY);
+  return steerTo(state, 150, 250);
+};
+
+describe('boss arenas', () => {
+  it(`take the place of every ${BOSS_PORTAL_INTERVAL}th portal world`, () => {
+    for (let used = 0; used < BOSS_PORTAL_INTERVAL * 2; used++) {
+      const state = enterPortal(used);
+      const isBossPortal = (used + 1) % BOSS_PORTAL_INTERVAL === 0;
+      expect(state.boss !== null).toBe(isBossPortal);
+      expect(state.portalWorld === null).toBe(isBossPortal);
+    }
+  });
+
+  it('give much longer to beat the boss in, with no frogs or exit until then', () => {
+    const state = enterPortal(BOSS_PORTAL_INTERVAL - 1);
+    expect(state.portalTimer).toBe(state.rules.portalTimeLimit * BOSS_TIME_MULTIPLIER);
+    expect(state.worldCoins).toEqual([]);
+    expect(state.portalExit).toBeNull();
+  });
+});
+
+describe('the heron', () => {
+  const spawned = spawnBoss(createRandom({ rngState: 1 })) as Heron;
+  const stuck: Heron = { ...spawned, mode: 'stuck', beakX: 150, beakY: 260 };
+  const head = getHeronHead(stuck);
+
+  it('can only be bitten while its beak is stuck', () => {
+    expect(isBossExposed(stuck, headAt(head.x, head.y))).toBe(true);
+    expect(isBossExposed(stuck, headAt(head.x + 60, head.y))).toBe(false);
+    for (const mode of ['stalking', 'aiming', 'striking', 'recoiling'] as const) {
+      expect(isBossExposed({ ...stuck, mode }, headAt(head.x, head.y))).toBe(false);
+    }
+
+    const arena = enterPortal(BOSS_PORTAL_INTERVAL - 1);
+    const onHead = { birdX: head.x - BIRD_SIZE / 2, birdY: head.y - BIRD_SIZE / 2 };
+    const bitten = tick({ ...arena, ...onHead, boss: stuck });
+    expect(bitten.events).toContainEqual({ type: 'bossBitten', kind: 'heron', health: heron.maxHealth - 1, phase: 0 });
+    expect(bitten.boss.mode).toBe('recoiling');
+    expect(tick({ ...arena, ...onHead, boss: { ...stuck, mode: 'recoiling' } }).boss.health).toBe(heron.maxHealth);
+  });
+
+  it('moves on a phase each time another share of its health is gone', () => {
+    const phases: number[] = [];
+    let boss: Heron = stuck;
+    while (boss.health > 0) {
+      boss = biteBoss(boss);
+      phases.push(boss.phase);
+    }
+    expect(phases).toEqual([0, 1, 1, 2, 2, 2]);
+  });
+
+  it('pays its reward and opens the way out when beaten', () => {
+    const arena = enterPortal(BOSS_PORTAL_INTERVAL - 1);
+    const state = tick({ ...arena, birdX: head.x - BIRD_SIZE / 2, birdY: head.y - BIRD_SIZE / 2, boss: { ...stuck, health: 1 } });
+    expect(state.events).toContainEqual({ type: 'bossDefeated', kind: 'heron', reward: heron.reward });
+    expect(state.coins).toBe(arena.coins + heron.reward);
+    expect(state.boss).toBeNull();
+    expect(state.portalExit).not.toBeNull();
+  });
+
+  it('can be beaten by dodging its stabs and biting back', () => {
+    let state = enterPortal(BOSS_PORTAL_INTERVAL - 1);
+    const events: GameState['events'] = [];
+    while (state.boss && !state.gameOver) {
+      state = tick(state, fightHeron(state));
+      events.push(...state.events);
+    }
+    expect(state.gameOver).toBe(false);
+    expect(events.filter(event => event.type === 'bossHit')).toEqual([]);
+    expect(events.filter(event => event.type === 'bossBitten')).toHaveLength(heron.maxHealth);
+    expect(events).toContainEqual({ type: 'bossDefeated', kind: 'heron', reward: heron.reward });
+
+    while (state.inSpecialWorld && !state.gameOver) {
+      state = tick(state, steerTo(state, state.portalExit.x, state.portalExit.y));
+    }
+    expect(state.gameOver).toBe(false);
+    expect(state.events).toContainEqual({ type: 'portalExited' });
+  });
+});
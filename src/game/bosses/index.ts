@@ -0,0 +1,36 @@
+import type { Point } from "../enemies/definition";
+import { createRegistry } from "../registry";
+import type { Random } from "../rng";
+import type { Boss, BossKind, Box } from "../types";
+import type { BossDefinition } from "./definition";
+import { heron } from "./heron";
+
+export type { BossDefinition } from "./definition";
+
+// The bosses a boss portal can lead to, drawn evenly by index, so a new one
+// (a Boss union member and a module like ./heron.ts) is appended. The arena
+// shows it with a view in src/components/bosses and a painter in
+// src/lib/draw-game.ts.
+const BOSSES = createRegistry<BossKind, BossDefinition>('boss', [heron]);
+
+export const getBossDefinition = BOSSES.get;
+
+// The boss waiting in the next arena
+export const spawnBoss = (random: Random) => BOSSES.all[Math.floor(random() * BOSSES.all.length)].spawn(random);
+
+export const advanceBoss = (boss: Boss, target: Point, dt: number) => getBossDefinition(boss.kind).advance(boss, target, dt);
+
+export const isBossWarning = (boss: Boss) => getBossDefinition(boss.kind).isWarning(boss);
+
+export const bossHits = (boss: Boss, box: Box) => getBossDefinition(boss.kind).hits(boss, box);
+
+export const isBossExposed = (boss: Boss, box: Box) => getBossDefinition(boss.kind).isExposed(boss, box);
+
+// Take a bite out of its health, moving on a phase each time another share
+// of it is gone
+export const biteBoss = (boss: Boss) => {
+  const definition = getBossDefinition(boss.kind);
+  const health = boss.health - 1;
+  const phase = Math.min(definition.phases - 1, Math.floor(((definition.maxHealth - health) * definition.phases) / definition.maxHealth));
+  return definition.flinch({ ...boss, health, phase });
+};
@@ -0,0 +1,62 @@
+import type { PowerUpType, SnakeRules } from "./types";
+
+// The playfield in world units; renderers scale it to fit the screen
+export const WORLD_WIDTH = 400;
+export const WORLD_HEIGHT = 500;
+
+export const BIRD_SIZE = 30;
+export const PIPE_WIDTH = 60;
+export const MOVE_SPEED = 4;
+export const SEGMENT_FOLLOW_DISTANCE = 25;
+export const PIPE_SPACING = 200; // distance between consecutive pipes
+// The strip of grass along the bottom of the playfield
+export const GROUND_HEIGHT = 48;
+// Pipe speed, gaps, portal timing and frog odds vary by rule set; see rules.ts
+
+// Only the head collides unless the true snake rules are on
+export const CLASSIC_SNAKE_RULES: SnakeRules = { bodyCollision: false, selfCollision: false };
+// A snake this long is fully grown, and smashes through breakable pipes
+export const MAX_BODY_SEGMENTS = 10;
+export const OBSTACLE_SMASH_POINTS = 3;
+// What an enemy attack costs a snake that still has a tail to lose
+export const ENEMY_BITE_SEGMENTS = 3;
+export const ENEMY_BITE_COINS = 5;
+// Every this many portals leads to a boss arena instead of a portal world,
+// with this many times the portal time limit to win in
+export const BOSS_PORTAL_INTERVAL = 5;
+export const BOSS_TIME_MULTIPLIER = 4;
+// The portal action closing a decided mini-game; moves count up from 0
+export const PORTAL_CONTINUE = -1;
+// Hitbox of a body segment, a little inside the drawn segment
+export const SEGMENT_SIZE = 20;
+// The segments right behind the head always touch it, so they can't be bitten
+export const SELF_COLLISION_SKIP = 2;
+
+// Speeds are in pixels per tick; one tick is the 16 ms the original loop ran at
+export const BASE_TICK = 16 / 1000;
+
+export const INVINCIBILITY_DURATION = 2;
+export const STAGE_BANNER_DURATION = 2.5;
+export const FROG_SPAWN_CHANCE = 0.005;
+export const GOOD_FROG_REACTION = 0.3;
+export const BAD_FROG_REACTION = 0.8;
+
+// Power-ups: the chance per tick of one appearing while none is on the field,
+// and how long it waits there to be picked up
+export const POWER_UP_SPAWN_CHANCE = 0.002;
+export const POWER_UP_LIFETIME = 8;
+export const POWER_UP_DURATIONS: Record<PowerUpType, number> = {
+  shrink: 8,
+  magnet: 8,
+  slowTime: 6,
+  shield: 10,
+  doublePoints: 10
+};
+// Picking up a power-up that is already running adds its duration, up to
+// this many durations in total
+export const MAX_POWER_UP_STACK = 2;
+export const SHRINK_SCALE = 0.6;
+export const MAGNET_RADIUS = 120;
+export const MAGNET_PULL = 3; // pixels per tick
+export const SLOW_TIME_FACTOR = 0.5;
+export const DOUBLE_POINTS_MULTIPLIER = 2;
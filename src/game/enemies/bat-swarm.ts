@@ -0,0 +1,94 @@
+import { WORLD_HEIGHT, WORLD_WIDTH } from "../constants";
+import { hitsCircle } from "../obstacles/definition";
+import type { BatSwarm } from "../types";
+import { type EnemyDefinition, steer } from "./definition";
+
+export const BAT_SIZE = 16;
+const BAT_HIT_RADIUS = 6;
+const BAT_COUNT = 5;
+// The swarm's middle hangs back this far from the head while the bats
+// flutter around it
+const HOVER_DISTANCE = 90;
+const SWARM_SPEED = 45;
+const SWARM_ACCEL = 120;
+const FLUTTER_RADIUS = 36;
+const GATHER_RADIUS = 10;
+// Radians per second the bats go round the middle
+const FLUTTER_SPIN = 3;
+const BAT_SPEED = 150;
+const BAT_ACCEL = 600;
+const SWOOP_SPEED = 240;
+const SWOOP_ACCEL = 900;
+// Seconds of fluttering, of bunching up as a warning, and of swooping
+const FLUTTER_TIME = 2.5;
+export const BAT_GATHER_TIME = 0.7;
+const SWOOP_TIME = 1.2;
+
+// Where bat `index` flutters, evenly spaced round the middle
+const getPerch = (swarm: BatSwarm, index: number, radius: number, time: number) => {
+  const angle = (index * 2 * Math.PI) / swarm.bats.length + time * FLUTTER_SPIN;
+  return { x: swarm.x + Math.cos(angle) * radius, y: swarm.y + Math.sin(angle) * radius };
+};
+
+// A swarm that trails the snake round a portal world. Every few seconds the
+// bats bunch up, then swoop together at where the head was.
+export const batSwarm: EnemyDefinition<BatSwarm> = {
+  kind: 'batSwarm',
+  world: 'portal',
+  spawn: (random, id, target) => {
+    const x = random() < 0.5 ? 0 : WORLD_WIDTH;
+    const y = random() * (WORLD_HEIGHT - 200) + 50;
+    return {
+      kind: 'batSwarm',
+      id,
+      x,
+      y,
+      vx: 0,
+      vy: 0,
+      timer: 0,
+      targetX: target.x,
+      targetY: target.y,
+      mode: 'flutter',
+      bats: Array.from({ length: BAT_COUNT }, () => ({
+        x: x + (random() - 0.5) * FLUTTER_RADIUS * 2,
+        y: y + (random() - 0.5) * FLUTTER_RADIUS * 2,
+        vx: 0,
+        vy: 0
+      }))
+    };
+  },
+  advance: (swarm, target, dt) => {
+    const timer = swarm.timer + dt;
+
+    if (swarm.mode === 'swoop') {
+      const bats = swarm.bats.map(bat => steer(bat, swarm.targetX, swarm.targetY, SWOOP_SPEED, SWOOP_ACCEL, 0, dt));
+      const middle = steer(swarm, swarm.targetX, swarm.targetY, SWOOP_SPEED, SWOOP_ACCEL, 0, dt);
+      if (timer < SWOOP_TIME) return { ...middle, bats, timer };
+      return { ...middle, bats, mode: 'flutter', timer: 0 };
+    }
+
+    const gathering = swarm.mode === 'gather';
+    // The middle keeps its distance from the head, and holds still while gathering
+    const dx = swarm.x - target.x;
+    const dy = swarm.y - target.y;
+    const distance = Math.hypot(dx, dy) || 1;
+    const middle = gathering
+      ? steer(swarm, swarm.x, swarm.y, 0, SWARM_ACCEL, 0, dt)
+      : steer(swarm, target.x + (dx / distance) * HOVER_DISTANCE, target.y + (dy / distance) * HOVER_DISTANCE, SWARM_SPEED, SWARM_ACCEL, 40, dt);
+    const radius = gathering ? GATHER_RADIUS : FLUTTER_RADIUS;
+    const bats = swarm.bats.map((bat, index) => {
+      const perch = getPerch(middle, index, radius, timer);
+      return steer(bat, perch.x, perch.y, BAT_SPEED, BAT_ACCEL, 20, dt);
+    });
+
+    if (!gathering && timer >= FLUTTER_TIME) {
+      return { ...middle, bats, mode: 'gather', timer: 0, targetX: target.x, targetY: target.y };
+    }
+    if (gathering && timer >= BAT_GATHER_TIME) {
+      return { ...middle, bats, mode: 'swoop', timer: 0 };
+    }
+    return { ...middle, bats, timer };
+  },
+  isWarning: swarm => swarm.mode === 'gather',
+  hits: (swarm, box) => swarm.mode === 'swoop' && swarm.bats.some(bat => hitsCircle(bat.x, bat.y, BAT_HIT_RADIUS, box))
+};
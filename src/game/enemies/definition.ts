@@ -0,0 +1,56 @@
+import type { Random } from "../rng";
+import type { Box, Enemy } from "../types";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// How one kind of enemy hunts the snake: where it turns up, how it steers
+// and when its attack lands. Each one is plain data in GameState, steered
+// only by the simulation's random numbers, so replays re-simulate it exactly.
+export interface EnemyDefinition<T extends Enemy = Enemy> {
+  kind: T['kind'];
+  // Hunts in the main world, or in portal worlds
+  world: 'main' | 'portal';
+  // `target` is the middle of the snake's head, here and in `advance`
+  spawn(random: Random, id: string, target: Point): T;
+  // Steer and attack; null once the enemy has left the playfield for good
+  advance(enemy: T, target: Point, dt: number): T | null;
+  // Telegraphing its next attack
+  isWarning(enemy: T): boolean;
+  // Only an attacking enemy hurts
+  hits(enemy: T, box: Box): boolean;
+}
+
+interface Body {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+// Seek steering: turn the velocity towards (toX, toY) by at most `accel`
+// pixels per second per second, then move. Within `slowRadius` of the goal
+// the body slows down to arrive instead of overshooting; 0 flies straight through.
+export const steer = <T extends Body>(body: T, toX: number, toY: number, maxSpeed: number, accel: number, slowRadius: number, dt: number): T => {
+  const dx = toX - body.x;
+  const dy = toY - body.y;
+  const distance = Math.hypot(dx, dy);
+  const speed = slowRadius > 0 ? maxSpeed * Math.min(1, distance / slowRadius) : maxSpeed;
+  const desiredX = distance > 0 ? (dx / distance) * speed : 0;
+  const desiredY = distance > 0 ? (dy / distance) * speed : 0;
+
+  let forceX = desiredX - body.vx;
+  let forceY = desiredY - body.vy;
+  const force = Math.hypot(forceX, forceY);
+  const maxForce = accel * dt;
+  if (force > maxForce) {
+    forceX = (forceX / force) * maxForce;
+    forceY = (forceY / force) * maxForce;
+  }
+
+  const vx = body.vx + forceX;
+  const vy = body.vy + forceY;
+  return { ...body, x: body.x + vx * dt, y: body.y + vy * dt, vx, vy };
+};
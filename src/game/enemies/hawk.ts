@@ -0,0 +1,71 @@
+import { GROUND_HEIGHT, WORLD_HEIGHT, WORLD_WIDTH } from "../constants";
+import { hitsCircle } from "../obstacles/definition";
+import type { Hawk } from "../types";
+import { type EnemyDefinition, steer } from "./definition";
+
+export const HAWK_SIZE = 36;
+const HAWK_HIT_RADIUS = 12;
+// The hawk circles around a point this high above the head's x
+const CIRCLE_HEIGHT = 70;
+const CIRCLE_RADIUS = 70;
+const CIRCLE_SPEED = 180;
+const CIRCLE_ACCEL = 500;
+// Seconds of circling, then of hanging still before the dive
+const CIRCLE_TIME = 3;
+export const HAWK_WARNING_TIME = 0.8;
+const DIVE_SPEED = 380;
+// Past this the hawk has flown off for good
+const MARGIN = 60;
+
+// Swoops in from one side, circles over the snake, hangs still while it
+// takes aim, then dives straight at where the head was and flies off
+export const hawk: EnemyDefinition<Hawk> = {
+  kind: 'hawk',
+  world: 'main',
+  spawn: (random, id, target) => {
+    const fromLeft = random() < 0.5;
+    return {
+      kind: 'hawk',
+      id,
+      x: fromLeft ? -HAWK_SIZE : WORLD_WIDTH + HAWK_SIZE,
+      y: CIRCLE_HEIGHT,
+      vx: fromLeft ? CIRCLE_SPEED : -CIRCLE_SPEED,
+      vy: 0,
+      timer: 0,
+      targetX: target.x,
+      targetY: target.y,
+      mode: 'circling'
+    };
+  },
+  advance: (hawk, target, dt) => {
+    const timer = hawk.timer + dt;
+
+    if (hawk.mode === 'circling') {
+      const angle = (timer * CIRCLE_SPEED) / CIRCLE_RADIUS;
+      const goalX = target.x + Math.cos(angle) * CIRCLE_RADIUS;
+      const goalY = CIRCLE_HEIGHT + Math.sin(angle) * CIRCLE_RADIUS * 0.3;
+      const moved = steer(hawk, goalX, goalY, CIRCLE_SPEED, CIRCLE_ACCEL, 0, dt);
+      if (timer < CIRCLE_TIME) return { ...moved, timer };
+      return { ...moved, mode: 'warning', timer: 0, targetX: target.x, targetY: target.y };
+    }
+
+    if (hawk.mode === 'warning') {
+      const braked = steer(hawk, hawk.x, hawk.y, 0, CIRCLE_ACCEL * 2, 0, dt);
+      if (timer < HAWK_WARNING_TIME) return { ...braked, timer };
+      const dx = hawk.targetX - hawk.x;
+      const dy = hawk.targetY - hawk.y;
+      const distance = Math.hypot(dx, dy) || 1;
+      return { ...braked, mode: 'diving', timer: 0, vx: (dx / distance) * DIVE_SPEED, vy: (dy / distance) * DIVE_SPEED };
+    }
+
+    // Diving: on past the target, pulling up off the ground
+    const x = hawk.x + hawk.vx * dt;
+    const y = hawk.y + hawk.vy * dt;
+    if (x < -MARGIN || x > WORLD_WIDTH + MARGIN || y < -MARGIN) return null;
+    const floor = WORLD_HEIGHT - GROUND_HEIGHT - HAWK_SIZE / 2;
+    const vy = y > floor ? -Math.abs(hawk.vy) : hawk.vy;
+    return { ...hawk, x, y: Math.min(y, floor), vy, timer };
+  },
+  isWarning: hawk => hawk.mode === 'warning',
+  hits: (hawk, box) => hawk.mode === 'diving' && hitsCircle(hawk.x, hawk.y, HAWK_HIT_RADIUS, box)
+};
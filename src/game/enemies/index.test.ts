@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { BASE_TICK, BIRD_SIZE, ENEMY_BITE_COINS, ENEMY_BITE_SEGMENTS } from "../constants";
+import { createRandom } from "../rng";
+import { startRun, tick } from "../test-fixtures";
+import type { Enemy, EnemyKind, Hawk } from "../types";
+import { BAT_GATHER_TIME } from "./bat-swarm";
+import { HAWK_WARNING_TIME } from "./hawk";
+import { advanceEnemy, enemyHits, isEnemyWarning, spawnEnemy } from "./index";
+import { MONGOOSE_CROUCH_TIME } from "./mongoose";
+
+const ATTACKS: Record<EnemyKind, { mode: Enemy['mode']; warning: number }> = {
+  hawk: { mode: 'diving', warning: HAWK_WARNING_TIME },
+  mongoose: { mode: 'lunge', warning: MONGOOSE_CROUCH_TIME },
+  batSwarm: { mode: 'swoop', warning: BAT_GATHER_TIME }
+};
+
+// Let an enemy hunt a head that holds still, low enough for a mongoose to
+// leap at, until its attack first lands. Returns every tick along the way.
+const hunt = (kind: EnemyKind, seed: number) => {
+  const target = { x: 200, y: 350 };
+  const head = { left: target.x - BIRD_SIZE / 2, right: target.x + BIRD_SIZE / 2, top: target.y - BIRD_SIZE / 2, bottom: target.y + BIRD_SIZE / 2 };
+  let enemy = spawnEnemy(kind, createRandom({ rngState: seed }), kind, target);
+  const ticks: { enemy: Enemy; warning: boolean; hits: boolean }[] = [];
+  for (let count = 0; count < 1000 && enemy; count++) {
+    enemy = advanceEnemy(enemy, target, BASE_TICK);
+    if (!enemy) break;
+    const hits = enemyHits(enemy, head);
+    ticks.push({ enemy, warning: isEnemyWarning(enemy), hits });
+    if (hits) break;
+  }
+  return ticks;
+};
+
+const diving: Hawk = { kind: 'hawk', id: 'hawk', x: 215, y: 265, vx: 0, vy: 0, timer: 0, targetX: 215, targetY: 265, mode: 'diving' };
+
+describe('enemies', () => {
+  it.each(Object.keys(ATTACKS) as EnemyKind[])('give warning before a %s attack can land', kind => {
+    for (const seed of [1, 2, 3]) {
+      const ticks = hunt(kind, seed);
+      const firstHit = ticks.findIndex(entry => entry.hits);
+      const firstWarning = ticks.findIndex(entry => entry.warning);
+      expect(firstHit).toBeGreaterThan(-1);
+      expect(firstWarning).toBeGreaterThan(-1);
+      expect(firstWarning).toBeLessThan(firstHit);
+
+      const warningTicks = ticks.slice(firstWarning, firstHit).filter(entry => entry.warning).length;
+      expect(warningTicks * BASE_TICK).toBeGreaterThanOrEqual(ATTACKS[kind].warning - BASE_TICK);
+    }
+  });
+
+  it.each(Object.keys(ATTACKS) as EnemyKind[])('only let a %s hurt while attacking', kind => {
+    const ticks = hunt(kind, 4);
+    for (const entry of ticks.filter(entry => entry.hits)) {
+      expect(entry.enemy.mode).toBe(ATTACKS[kind].mode);
+    }
+    const head = { left: 200, right: 230, top: 250, bottom: 280 };
+    expect(enemyHits(diving, head)).toBe(true);
+    expect(enemyHits({ ...diving, mode: 'circling' }, head)).toBe(false);
+    expect(enemyHits({ ...diving, mode: 'warning' }, head)).toBe(false);
+  });
+
+  it('report the start of a warning', () => {
+    const state = tick(startRun({ enemies: [{ ...diving, mode: 'circling', timer: 3 }] }));
+    expect(state.events).toContainEqual({ type: 'enemyWarning', enemyId: 'hawk', kind: 'hawk' });
+  });
+});
+
+describe('enemy attacks', () => {
+  it('bite off part of the tail and some coins, then leave a moment to get clear', () => {
+    const bitten = tick(startRun({ enemies: [diving], coins: 20, bodyLength: 5 }));
+    expect(bitten.events).toContainEqual({ type: 'enemyHit', enemyId: 'hawk', kind: 'hawk' });
+    expect(bitten.gameOver).toBe(false);
+    expect(bitten.bodyLength).toBe(5 - ENEMY_BITE_SEGMENTS);
+    expect(bitten.coins).toBe(20 - ENEMY_BITE_COINS);
+    expect(bitten.isInvincible).toBe(true);
+
+    const again = tick({ ...bitten, enemies: [diving] });
+    expect(again.events).not.toContainEqual({ type: 'enemyHit', enemyId: 'hawk', kind: 'hawk' });
+    expect(again.bodyLength).toBe(bitten.bodyLength);
+  });
+
+  it('catch a snake with no tail left to lose', () => {
+    const state = tick(startRun({ enemies: [diving], coins: 20 }));
+    expect(state.gameOver).toBe(true);
+    expect(state.events).toContainEqual({ type: 'gameOver', reason: 'enemy' });
+  });
+
+  it('pass harmlessly through an invincible snake, leaving its shield up', () => {
+    const state = tick(startRun({ enemies: [diving], isInvincible: true, invincibilityTimer: 1, activePowerUps: { shield: 5 } }));
+    expect(state.gameOver).toBe(false);
+    expect(state.events.map(event => event.type)).not.toContain('shieldBroken');
+    expect(state.activePowerUps.shield).toBeGreaterThan(0);
+  });
+
+  it('break a shield instead of biting', () => {
+    const state = tick(startRun({ enemies: [diving], coins: 20, bodyLength: 5, activePowerUps: { shield: 5 } }));
+    expect(state.events).toContainEqual({ type: 'shieldBroken' });
+    expect(state.events.map(event => event.type)).not.toContain('enemyHit');
+    expect(state.bodyLength).toBe(5);
+    expect(state.coins).toBe(20);
+    expect(state.isInvincible).toBe(true);
+  });
+});
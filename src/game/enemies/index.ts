@@ -0,0 +1,42 @@
+import { createRegistry } from "../registry";
+import type { Random } from "../rng";
+import type { Box, Enemy, EnemyKind } from "../types";
+import { batSwarm } from "./bat-swarm";
+import type { EnemyDefinition, Point } from "./definition";
+import { hawk } from "./hawk";
+import { mongoose } from "./mongoose";
+
+export type { EnemyDefinition, Point } from "./definition";
+
+// The spawn rolls each tick go down this list, so a new enemy (an Enemy
+// union member and a module like ./hawk.ts) is appended here. Give it a view
+// in src/components/enemies and a painter in src/lib/draw-game.ts as well.
+const ENEMIES = createRegistry<EnemyKind, EnemyDefinition>('enemy', [hawk, mongoose, batSwarm]);
+
+export const getEnemyDefinition = ENEMIES.get;
+
+export const isEnemyIn = (enemy: Enemy, world: EnemyDefinition['world']) => getEnemyDefinition(enemy.kind).world === world;
+
+// The kinds turning up this tick: a roll per kind the stage sends into
+// `world` that isn't already about. Kinds without a chance draw nothing.
+export const rollEnemies = (
+  random: Random,
+  chances: Partial<Record<EnemyKind, number>>,
+  world: EnemyDefinition['world'],
+  present: Enemy[],
+  scale: number
+) => ENEMIES.all
+  .filter(definition => definition.world === world && (chances[definition.kind] ?? 0) > 0)
+  .filter(definition => !present.some(enemy => enemy.kind === definition.kind))
+  .filter(definition => random() < chances[definition.kind] * scale)
+  .map(definition => definition.kind);
+
+export const spawnEnemy = (kind: EnemyKind, random: Random, id: string, target: Point) =>
+  getEnemyDefinition(kind).spawn(random, id, target);
+
+export const advanceEnemy = (enemy: Enemy, target: Point, dt: number) =>
+  getEnemyDefinition(enemy.kind).advance(enemy, target, dt);
+
+export const isEnemyWarning = (enemy: Enemy) => getEnemyDefinition(enemy.kind).isWarning(enemy);
+
+export const enemyHits = (enemy: Enemy, box: Box) => getEnemyDefinition(enemy.kind).hits(enemy, box);
@@ -0,0 +1,91 @@
+import { GROUND_HEIGHT, WORLD_HEIGHT, WORLD_WIDTH } from "../constants";
+import type { Mongoose } from "../types";
+import type { EnemyDefinition } from "./definition";
+
+export const MONGOOSE_WIDTH = 40;
+export const MONGOOSE_HEIGHT = 20;
+// Where its middle is while it stands on the grass
+const STANDING_Y = WORLD_HEIGHT - GROUND_HEIGHT - MONGOOSE_HEIGHT / 2;
+const RUN_SPEED = 90;
+const RUN_ACCEL = 300;
+// It crouches to leap once the head is this close sideways, and no higher
+// above the ground than it can jump
+const LEAP_REACH = 70;
+const MAX_LEAP_HEIGHT = 220;
+const MIN_LEAP_HEIGHT = 40;
+const GRAVITY = 900;
+export const MONGOOSE_CROUCH_TIME = 0.6;
+// Seconds of running before it may crouch again, including after it arrives
+const LEAP_COOLDOWN = 1.5;
+// It gives up and runs off after this many leaps, or this many seconds
+// without a chance to leap
+const MAX_LUNGES = 3;
+const GIVE_UP_TIME = 8;
+const LEAVE_SPEED = 160;
+
+// Follows the snake along the ground and leaps at it whenever it flies low,
+// crouching first so the player can see it coming
+export const mongoose: EnemyDefinition<Mongoose> = {
+  kind: 'mongoose',
+  world: 'main',
+  spawn: (random, id, target) => {
+    const fromLeft = random() < 0.5;
+    return {
+      kind: 'mongoose',
+      id,
+      x: fromLeft ? -MONGOOSE_WIDTH : WORLD_WIDTH + MONGOOSE_WIDTH,
+      y: STANDING_Y,
+      vx: 0,
+      vy: 0,
+      timer: 0,
+      targetX: target.x,
+      targetY: target.y,
+      mode: 'patrol',
+      lunges: 0
+    };
+  },
+  advance: (animal, target, dt) => {
+    const timer = animal.timer + dt;
+
+    if (animal.mode === 'patrol') {
+      if (animal.lunges >= MAX_LUNGES || timer >= GIVE_UP_TIME) {
+        return { ...animal, mode: 'leaving', timer: 0, vx: animal.x < WORLD_WIDTH / 2 ? -LEAVE_SPEED : LEAVE_SPEED };
+      }
+      const dx = target.x - animal.x;
+      const desired = Math.sign(dx) * RUN_SPEED * Math.min(1, Math.abs(dx) / LEAP_REACH);
+      const change = Math.max(-RUN_ACCEL * dt, Math.min(RUN_ACCEL * dt, desired - animal.vx));
+      const vx = animal.vx + change;
+      const moved = { ...animal, x: animal.x + vx * dt, vx, timer };
+      const inReach = Math.abs(dx) < LEAP_REACH && STANDING_Y - target.y < MAX_LEAP_HEIGHT;
+      if (timer < LEAP_COOLDOWN || !inReach) return moved;
+      return { ...moved, mode: 'crouch', timer: 0, vx: 0, targetX: target.x, targetY: target.y };
+    }
+
+    if (animal.mode === 'crouch') {
+      if (timer < MONGOOSE_CROUCH_TIME) return { ...animal, timer };
+      // Jump so the top of the arc is where the head was
+      const height = Math.max(MIN_LEAP_HEIGHT, Math.min(MAX_LEAP_HEIGHT, STANDING_Y - animal.targetY));
+      const vy = -Math.sqrt(2 * GRAVITY * height);
+      const timeToTop = -vy / GRAVITY;
+      return { ...animal, mode: 'lunge', timer: 0, vx: (animal.targetX - animal.x) / timeToTop, vy };
+    }
+
+    if (animal.mode === 'lunge') {
+      const vy = animal.vy + GRAVITY * dt;
+      const x = animal.x + animal.vx * dt;
+      const y = animal.y + vy * dt;
+      if (y < STANDING_Y || vy < 0) return { ...animal, x, y, vy, timer };
+      return { ...animal, mode: 'patrol', timer: 0, x, y: STANDING_Y, vx: 0, vy: 0, lunges: animal.lunges + 1 };
+    }
+
+    // Leaving
+    const x = animal.x + animal.vx * dt;
+    if (x < -MONGOOSE_WIDTH || x > WORLD_WIDTH + MONGOOSE_WIDTH) return null;
+    return { ...animal, x, timer };
+  },
+  isWarning: animal => animal.mode === 'crouch',
+  hits: (animal, box) =>
+    animal.mode === 'lunge' &&
+    box.right > animal.x - MONGOOSE_WIDTH / 2 && box.left < animal.x + MONGOOSE_WIDTH / 2 &&
+    box.bottom > animal.y - MONGOOSE_HEIGHT / 2 && box.top < animal.y + MONGOOSE_HEIGHT / 2
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_INPUT } from "./input";
+import { FROG_VARIETIES, POISON_DURATION, clingTo, moveFrogs, pickFrogVariety } from "./frogs";
+import { createRandom } from "./rng";
+import { frog, pipe, startRun, tick } from "./test-fixtures";
+import type { FrogVariety } from "./types";
+
+// Eat a frog of `variety` hanging under a pipe right at the head, where a
+// tree frog would cling
+const pipeAtHead = pipe(186, { topHeight: 248 });
+const eat = (variety: FrogVariety, coins = 20) =>
+  tick(startRun({ coins, pipes: [pipeAtHead], mainWorldFrogs: [clingTo(frog(0, 0, { variety }), pipeAtHead)] }));
+
+describe('frog varieties', () => {
+  it.each([
+    ['common', 22],
+    ['golden', 35],
+    ['poisonDart', 24],
+    ['tree', 23],
+    ['splitting', 22],
+    ['bad', 10]
+  ] as [FrogVariety, number][])('score %s frogs by their points', (variety, coins) => {
+    expect(eat(variety).coins).toBe(coins);
+    expect(FROG_VARIETIES[variety].points).toBe(coins - 20);
+  });
+
+  it('swap the controls for a while after a poison dart frog', () => {
+    const poisoned = { ...eat('poisonDart'), pipes: [] };
+    expect(poisoned.reversedControlsTimer).toBe(POISON_DURATION);
+    expect(poisoned.frogsEaten).toBe(1);
+
+    const up = { ...EMPTY_INPUT, up: true };
+    expect(tick(poisoned, up).birdY).toBeGreaterThan(poisoned.birdY);
+    const recovered = { ...poisoned, reversedControlsTimer: 0 };
+    expect(tick(recovered, up).birdY).toBeLessThan(recovered.birdY);
+  });
+
+  it('leave two common frogs behind a splitting frog', () => {
+    const frogs = eat('splitting').mainWorldFrogs;
+    expect(frogs).toHaveLength(3);
+    expect(frogs[0].collected).toBe(true);
+    expect(frogs.slice(1)).toEqual([
+      expect.objectContaining({ variety: 'common', collected: false }),
+      expect.objectContaining({ variety: 'common', collected: false })
+    ]);
+    expect(frogs[1].id).not.toBe(frogs[2].id);
+    expect(frogs[1].vy).toBeLessThan(0);
+    expect(frogs[2].vy).toBeGreaterThan(0);
+  });
+
+  it('only pick tree frogs when there is a pipe to cling to, and never bad ones', () => {
+    const random = createRandom({ rngState: 1 });
+    const picked = new Set(Array.from({ length: 500 }, () => pickFrogVariety(random, false)));
+    expect(picked.has('tree')).toBe(false);
+    expect(picked.has('bad')).toBe(false);
+    expect(picked.has('golden')).toBe(true);
+    expect(new Set(Array.from({ length: 500 }, () => pickFrogVariety(random, true))).has('tree')).toBe(true);
+  });
+});
+
+describe('frog movement', () => {
+  const random = createRandom({ rngState: 1 });
+
+  it('keep tree frogs on their pipe, and drop them with it', () => {
+    const treeFrog = clingTo(frog(0, 0, { variety: 'tree' }), pipe(300));
+    const [moved] = moveFrogs([treeFrog], 0, 0, [pipe(250, { id: 'pipe-300' })], 0.1, random);
+    expect(moved.x - treeFrog.x).toBe(-50);
+    expect(moved.y).toBe(treeFrog.y);
+    expect(moveFrogs([treeFrog], 0, 0, [], 0.1, random)).toEqual([]);
+
+    const scrolled = tick(startRun({ pipes: [pipe(300)], mainWorldFrogs: [treeFrog] }));
+    expect(scrolled.mainWorldFrogs[0].x - treeFrog.x).toBeCloseTo(scrolled.pipes[0].x - 300);
+  });
+
+  it('send fleeing frogs hopping away from a snake that comes close', () => {
+    const [fled] = moveFrogs([frog(250, 280)], 200, 250, [], 0.01, random);
+    expect(fled.vx * 50 + fled.vy * 30).toBeGreaterThan(0);
+    expect(Math.hypot(fled.vx, fled.vy)).toBeGreaterThan(FROG_VARIETIES.common.hopSpeed);
+  });
+
+  it('leave frogs that do not flee, or are out of reach, sitting', () => {
+    const [calm] = moveFrogs([frog(250, 280, { variety: 'poisonDart' })], 200, 250, [], 0.01, random);
+    expect(calm).toMatchObject({ vx: 0, vy: 0 });
+    const [far] = moveFrogs([frog(350, 400)], 200, 250, [], 0.01, random);
+    expect(far).toMatchObject({ x: 350, y: 400, vx: 0, vy: 0 });
+  });
+});
@@ -0,0 +1,195 @@
+import { GROUND_HEIGHT, PIPE_WIDTH, WORLD_HEIGHT, WORLD_WIDTH } from "./constants";
+import type { Random } from "./rng";
+import type { Frog, FrogVariety, Pipe, PortalWall } from "./types";
+
+export type FrogEffect = 'reverseControls' | 'split';
+
+export interface FrogVarietyInfo {
+  icon: string;
+  label: string;
+  description: string;
+  // Coins for eating it. Negative costs coins instead, which double points
+  // doesn't double, and doesn't grow the snake.
+  points: number;
+  // Relative odds among the frogs that aren't bad; how many frogs are bad
+  // is up to the rule set
+  weight: number;
+  // Pixels per second it hops at; 0 never hops
+  hopSpeed: number;
+  // Hops away from a snake that comes close
+  flees: boolean;
+  // Clings to a pipe instead of sitting in the open
+  clings: boolean;
+  effect: FrogEffect | null;
+}
+
+export const FROG_VARIETIES: Record<FrogVariety, FrogVarietyInfo> = {
+  common: {
+    icon: '🐸',
+    label: 'Frog',
+    description: 'Hops about and flees when you get close',
+    points: 2,
+    weight: 10,
+    hopSpeed: 120,
+    flees: true,
+    clings: false,
+    effect: null
+  },
+  bad: {
+    icon: '💀',
+    label: 'Bad frog',
+    description: 'Costs 10 coins',
+    points: -10,
+    weight: 0,
+    hopSpeed: 80,
+    flees: false,
+    clings: false,
+    effect: null
+  },
+  golden: {
+    icon: '✨',
+    label: 'Golden frog',
+    description: 'Rare, quick and worth 15',
+    points: 15,
+    weight: 0.5,
+    hopSpeed: 180,
+    flees: true,
+    clings: false,
+    effect: null
+  },
+  poisonDart: {
+    icon: '🔄',
+    label: 'Poison dart frog',
+    description: 'Worth 4, but swaps your controls for a few seconds',
+    points: 4,
+    weight: 1.5,
+    hopSpeed: 80,
+    flees: false,
+    clings: false,
+    effect: 'reverseControls'
+  },
+  tree: {
+    icon: '🌿',
+    label: 'Tree frog',
+    description: 'Clings under a pipe and rides along with it',
+    points: 3,
+    weight: 2,
+    hopSpeed: 0,
+    flees: false,
+    clings: true,
+    effect: null
+  },
+  splitting: {
+    icon: '➗',
+    label: 'Splitting frog',
+    description: 'Splits into two frogs when bitten',
+    points: 2,
+    weight: 1.5,
+    hopSpeed: 120,
+    flees: true,
+    clings: false,
+    effect: 'split'
+  }
+};
+
+export const FROG_VARIETY_TYPES = Object.keys(FROG_VARIETIES) as FrogVariety[];
+
+export const POISON_DURATION = 4;
+// Seconds a hop lasts, and the rest between hops
+const HOP_TIME = 0.3;
+const MIN_REST = 1;
+const MAX_REST = 3;
+// Frogs that flee notice the head this close, and hop away faster, a little
+// to either side of straight away
+const FLEE_RADIUS = 90;
+const FLEE_BOOST = 1.6;
+const FLEE_SPREAD = Math.PI / 3;
+// Halves of a split frog land this far above and below it
+const SPLIT_DISTANCE = 35;
+// Size of a frog, which keeps clear of the edges and the ground
+const FROG_WIDTH = 40;
+const FROG_HEIGHT = 32;
+const MAX_FROG_X = WORLD_WIDTH - FROG_WIDTH;
+const MAX_FROG_Y = WORLD_HEIGHT - GROUND_HEIGHT - FROG_HEIGHT;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const isInWall = (x: number, y: number, wall: PortalWall) =>
+  x + FROG_WIDTH > wall.x && x < wall.x + wall.width && y + FROG_HEIGHT > wall.y && y < wall.y + wall.height;
+
+export const isBadFrog = (frog: Frog) => FROG_VARIETIES[frog.variety].points < 0;
+
+export const getRestTime = (random: Random) => MIN_REST + random() * (MAX_REST - MIN_REST);
+
+// One of the frogs that aren't bad, by weight. Tree frogs need a pipe to cling to.
+export const pickFrogVariety = (random: Random, canCling: boolean) => {
+  const varieties = FROG_VARIETY_TYPES.filter(variety => canCling || !FROG_VARIETIES[variety].clings);
+  const totalWeight = varieties.reduce((sum, variety) => sum + FROG_VARIETIES[variety].weight, 0);
+  let roll = random() * totalWeight;
+  return varieties.find(variety => (roll -= FROG_VARIETIES[variety].weight) < 0) ?? 'common';
+};
+
+// Hang a tree frog under the top half of its pipe
+export const clingTo = (frog: Frog, pipe: Pipe): Frog => ({
+  ...frog,
+  x: pipe.x + PIPE_WIDTH / 2 - 16,
+  y: pipe.topHeight + 2,
+  pipeId: pipe.id
+});
+
+// Hop every so often, and away from the head (at `headX`, `headY`) when it
+// comes close. Tree frogs ride along with their pipe, and fall away with it.
+// A hop that would land in one of the `walls` stops short, though a frog a
+// platform has slid over can still hop out.
+export const moveFrogs = (
+  frogs: Frog[],
+  headX: number,
+  headY: number,
+  pipes: Pipe[],
+  dt: number,
+  random: Random,
+  walls: PortalWall[] = []
+) =>
+  frogs.flatMap((frog): Frog[] => {
+    const info = FROG_VARIETIES[frog.variety];
+    if (frog.collected) return [frog];
+    if (info.clings) {
+      const pipe = pipes.find(candidate => candidate.id === frog.pipeId);
+      return pipe ? [clingTo(frog, pipe)] : [];
+    }
+
+    const hopTimer = frog.hopTimer - dt;
+    if (frog.vx !== 0 || frog.vy !== 0) {
+      const x = clamp(frog.x + frog.vx * dt, 0, MAX_FROG_X);
+      const y = clamp(frog.y + frog.vy * dt, 0, MAX_FROG_Y);
+      const blocked = walls.some(wall => isInWall(x, y, wall) && !isInWall(frog.x, frog.y, wall));
+      if (blocked) return [{ ...frog, vx: 0, vy: 0, hopTimer: getRestTime(random) }];
+      if (hopTimer > 0) return [{ ...frog, x, y, hopTimer }];
+      return [{ ...frog, x, y, vx: 0, vy: 0, hopTimer: getRestTime(random) }];
+    }
+
+    const dx = frog.x - headX;
+    const dy = frog.y - headY;
+    const fleeing = info.flees && Math.hypot(dx, dy) < FLEE_RADIUS;
+    if (info.hopSpeed === 0 || (!fleeing && hopTimer > 0)) return [{ ...frog, hopTimer }];
+
+    const angle = fleeing ? Math.atan2(dy, dx) + (random() - 0.5) * FLEE_SPREAD : random() * Math.PI * 2;
+    const speed = info.hopSpeed * (fleeing ? FLEE_BOOST : 1);
+    return [{ ...frog, vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed, hopTimer: HOP_TIME }];
+  });
+
+// The two common frogs a splitting frog leaves behind, hopping apart
+export const splitFrog = (frog: Frog, ids: [string, string]): Frog[] =>
+  ids.map((id, index) => {
+    const direction = index === 0 ? -1 : 1;
+    return {
+      x: frog.x,
+      y: clamp(frog.y + direction * SPLIT_DISTANCE, 0, MAX_FROG_Y),
+      collected: false,
+      id,
+      variety: 'common',
+      vx: 0,
+      vy: direction * FROG_VARIETIES.common.hopSpeed * FLEE_BOOST,
+      hopTimer: HOP_TIME
+    };
+  });
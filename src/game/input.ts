@@ -0,0 +1,107 @@
+import type { InputFrame } from "./types";
+
+export const EMPTY_INPUT: InputFrame = { up: false, down: false, left: false, right: false };
+
+// Analog strengths are rounded to this many steps so replays can record them
+export const ANALOG_LEVELS = 15;
+
+export const quantizeStrength = (strength: number) =>
+  Math.max(1, Math.min(ANALOG_LEVELS, Math.round(strength * ANALOG_LEVELS))) / ANALOG_LEVELS;
+
+export type GameAction = 'up' | 'down' | 'left' | 'right' | 'pause' | 'restart' | 'mute';
+
+// Keys are normalized `KeyboardEvent.key` values (see normalizeKey), so
+// AZERTY players bind the letters printed on their keys
+export type KeyBindings = Record<GameAction, string[]>;
+
+export const GAME_ACTIONS: GameAction[] = ['up', 'down', 'left', 'right', 'pause', 'restart', 'mute'];
+
+export const ACTION_LABELS: Record<GameAction, string> = {
+  up: 'Move up',
+  down: 'Move down',
+  left: 'Move left',
+  right: 'Move right',
+  pause: 'Pause',
+  restart: 'Restart',
+  mute: 'Mute sound'
+};
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  up: ['w', 'ArrowUp'],
+  down: ['s', 'ArrowDown'],
+  left: ['a', 'ArrowLeft'],
+  right: ['d', 'ArrowRight'],
+  pause: ['Space', 'p', 'Escape'],
+  restart: ['r'],
+  mute: ['m']
+};
+
+// Letters are case-insensitive so Shift or Caps Lock don't change bindings
+export const normalizeKey = (key: string) => {
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toLowerCase() : key;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc'
+};
+
+export const formatKey = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+export const actionForKey = (bindings: KeyBindings, key: string): GameAction | null =>
+  GAME_ACTIONS.find(action => bindings[action].includes(key)) ?? null;
+
+// The action other than `action` that already uses `key`, if any
+export const findKeyConflict = (bindings: KeyBindings, key: string, action: GameAction): GameAction | null =>
+  GAME_ACTIONS.find(other => other !== action && bindings[other].includes(key)) ?? null;
+
+const isPushingX = (input: InputFrame) => input.left || input.right;
+const isPushingY = (input: InputFrame) => input.up || input.down;
+
+// Combine input from several devices; the strongest push on each axis wins
+export const mergeInputFrames = (a: InputFrame, b: InputFrame): InputFrame => {
+  const merged: InputFrame = {
+    up: a.up || b.up,
+    down: a.down || b.down,
+    left: a.left || b.left,
+    right: a.right || b.right
+  };
+
+  const xStrength = Math.max(isPushingX(a) ? a.xStrength ?? 1 : 0, isPushingX(b) ? b.xStrength ?? 1 : 0);
+  const yStrength = Math.max(isPushingY(a) ? a.yStrength ?? 1 : 0, isPushingY(b) ? b.yStrength ?? 1 : 0);
+  if (xStrength > 0 && xStrength < 1) merged.xStrength = xStrength;
+  if (yStrength > 0 && yStrength < 1) merged.yStrength = yStrength;
+  return merged;
+};
+
+// 0 inside the deadzone, then rising to 1 at the edge of the stick's range
+const stickStrength = (value: number, deadzone: number) =>
+  Math.abs(value) <= deadzone ? 0 : Math.min(1, (Math.abs(value) - deadzone) / (1 - deadzone));
+
+// Build an input frame from an analog stick position (-1..1 on each axis,
+// positive y pointing down)
+export const inputFromStick = (x: number, y: number, deadzone: number): InputFrame => {
+  const xStrength = stickStrength(x, deadzone);
+  const yStrength = stickStrength(y, deadzone);
+  const input: InputFrame = {
+    up: yStrength > 0 && y < 0,
+    down: yStrength > 0 && y > 0,
+    left: xStrength > 0 && x < 0,
+    right: xStrength > 0 && x > 0
+  };
+  if (xStrength > 0) input.xStrength = quantizeStrength(xStrength);
+  if (yStrength > 0) input.yStrength = quantizeStrength(yStrength);
+  return input;
+};
+
+// Build an input frame from the set of currently held keys
+export const inputFromKeys = (keys: Set<string>, bindings: KeyBindings = DEFAULT_KEY_BINDINGS): InputFrame => ({
+  up: bindings.up.some(key => keys.has(key)),
+  down: bindings.down.some(key => keys.has(key)),
+  left: bindings.left.some(key => keys.has(key)),
+  right: bindings.right.some(key => keys.has(key))
+});
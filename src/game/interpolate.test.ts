@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { spawnBoss } from "./bosses";
+import { interpolateState } from "./interpolate";
+import { createRandom } from "./rng";
+import { startRun } from "./test-fixtures";
+
+describe('interpolateState', () => {
+  const boss = spawnBoss(createRandom({ rngState: 1 }));
+  const arena = startRun({ inSpecialWorld: true, boss });
+
+  it('blends the boss between frames', () => {
+    const previous = { ...arena, boss: { ...boss, x: boss.x - 10 } };
+    expect(interpolateState(previous, arena, 0.5).boss).toMatchObject({ x: boss.x - 5, beakX: boss.beakX });
+  });
+
+  it('shows the boss on the frame it appears', () => {
+    expect(interpolateState({ ...arena, boss: null }, arena, 0.5).boss).toEqual(boss);
+  });
+});
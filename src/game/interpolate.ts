@@ -0,0 +1,67 @@
+import type { Boss, Frog, GameState } from "./types";
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+// Blend two consecutive simulation states for drawing between steps.
+// Only positions are blended; everything else comes from `current`.
+export const interpolateState = (previous: GameState, current: GameState, alpha: number): GameState => {
+  // Nothing to blend across a world switch - the snake teleports
+  if (previous === current || alpha <= 0 || previous.inSpecialWorld !== current.inSpecialWorld) {
+    return current;
+  }
+
+  const previousPipes = new Map(previous.pipes.map(pipe => [pipe.id, pipe]));
+  const previousObstacles = new Map(previous.obstacles.map(obstacle => [obstacle.id, obstacle]));
+  const previousEnemies = new Map(previous.enemies.map(enemy => [enemy.id, enemy]));
+  // Frogs hop about, and tree frogs ride along with their pipes
+  const previousFrogs = new Map([...previous.mainWorldFrogs, ...previous.worldCoins].map(frog => [frog.id, frog]));
+  const lerpFrog = (frog: Frog) => {
+    const from = previousFrogs.get(frog.id);
+    return from ? { ...frog, x: lerp(from.x, frog.x, alpha), y: lerp(from.y, frog.y, alpha) } : frog;
+  };
+  // On the first arena frame the boss has nowhere to blend from
+  const lerpBoss = (boss: Boss): Boss => {
+    if (!previous.boss) return boss;
+    return {
+      ...boss,
+      x: lerp(previous.boss.x, boss.x, alpha),
+      beakX: lerp(previous.boss.beakX, boss.beakX, alpha),
+      beakY: lerp(previous.boss.beakY, boss.beakY, alpha)
+    };
+  };
+  const previousPlatforms = new Map((previous.portalWorld?.platforms ?? []).map(platform => [platform.id, platform]));
+
+  return {
+    ...current,
+    birdX: lerp(previous.birdX, current.birdX, alpha),
+    birdY: lerp(previous.birdY, current.birdY, alpha),
+    bodySegments: current.bodySegments.map((segment, index) => {
+      const from = previous.bodySegments[index];
+      if (!from) return segment;
+      return { ...segment, x: lerp(from.x, segment.x, alpha), y: lerp(from.y, segment.y, alpha) };
+    }),
+    pipes: current.pipes.map(pipe => {
+      const from = previousPipes.get(pipe.id);
+      if (!from) return pipe;
+      return { ...pipe, x: lerp(from.x, pipe.x, alpha), topHeight: lerp(from.topHeight, pipe.topHeight, alpha) };
+    }),
+    obstacles: current.obstacles.map(obstacle => {
+      const from = previousObstacles.get(obstacle.id);
+      return from ? { ...obstacle, x: lerp(from.x, obstacle.x, alpha) } : obstacle;
+    }),
+    mainWorldFrogs: current.mainWorldFrogs.map(lerpFrog),
+    worldCoins: current.worldCoins.map(lerpFrog),
+    enemies: current.enemies.map(enemy => {
+      const from = previousEnemies.get(enemy.id);
+      return from ? { ...enemy, x: lerp(from.x, enemy.x, alpha), y: lerp(from.y, enemy.y, alpha) } : enemy;
+    }),
+    boss: current.boss && lerpBoss(current.boss),
+    portalWorld: current.portalWorld && {
+      ...current.portalWorld,
+      platforms: current.portalWorld.platforms.map(platform => {
+        const from = previousPlatforms.get(platform.id);
+        return from ? { ...platform, x: lerp(from.x, platform.x, alpha), y: lerp(from.y, platform.y, alpha) } : platform;
+      })
+    }
+  };
+};
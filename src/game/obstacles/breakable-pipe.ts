@@ -0,0 +1,22 @@
+import { MAX_BODY_SEGMENTS, PIPE_WIDTH } from "../constants";
+import type { BreakablePipe } from "../types";
+import { hitsPipeShape, type ObstacleDefinition } from "./definition";
+
+// A cracked pipe: solid to most snakes, but one grown to full length
+// smashes straight through it
+export const breakablePipe: ObstacleDefinition<BreakablePipe> = {
+  kind: 'breakablePipe',
+  pipeShaped: true,
+  spawn: (random, id, slot) => ({
+    kind: 'breakablePipe',
+    id,
+    x: slot.left,
+    topHeight: random() * 200 + 50,
+    gap: slot.gap,
+    broken: false,
+    passed: false
+  }),
+  width: () => PIPE_WIDTH,
+  hits: (pipe, box) => !pipe.broken && hitsPipeShape(pipe.x, PIPE_WIDTH, pipe.topHeight, pipe.topHeight + pipe.gap, box),
+  smash: (pipe, state) => (state.bodySegments.length >= MAX_BODY_SEGMENTS ? { ...pipe, broken: true } : null)
+};
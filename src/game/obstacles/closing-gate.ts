@@ -0,0 +1,41 @@
+import { PIPE_WIDTH } from "../constants";
+import type { ClosingGate } from "../types";
+import { hitsPipeShape, type ObstacleDefinition } from "./definition";
+
+// Seconds for the gap to shut and open again
+export const GATE_CYCLE = 3;
+// Gates open wider than a plain pipe to make up for shutting
+const GATE_GAP_SCALE = 1.15;
+
+// How far open the gate is, 0-1: fully open for half of each cycle, then it
+// eases shut and back open
+export const getGateOpening = (gate: ClosingGate) =>
+  Math.min(1, 1 + Math.cos((2 * Math.PI * gate.phase) / GATE_CYCLE));
+
+// The open part of the gap; both halves close in on its middle
+export const getGateGap = (gate: ClosingGate) => {
+  const middle = gate.topHeight + gate.gap / 2;
+  const halfOpen = (gate.gap * getGateOpening(gate)) / 2;
+  return { top: middle - halfOpen, bottom: middle + halfOpen };
+};
+
+// A pipe whose gap shuts and reopens; wait for it or find another way round
+export const closingGate: ObstacleDefinition<ClosingGate> = {
+  kind: 'closingGate',
+  pipeShaped: true,
+  spawn: (random, id, slot) => ({
+    kind: 'closingGate',
+    id,
+    x: slot.left,
+    topHeight: random() * 200 + 50,
+    gap: slot.gap * GATE_GAP_SCALE,
+    phase: random() * GATE_CYCLE,
+    passed: false
+  }),
+  width: () => PIPE_WIDTH,
+  advance: (gate, dt) => ({ ...gate, phase: (gate.phase + dt) % GATE_CYCLE }),
+  hits: (gate, box) => {
+    const gap = getGateGap(gate);
+    return hitsPipeShape(gate.x, PIPE_WIDTH, gap.top, gap.bottom, box);
+  }
+};
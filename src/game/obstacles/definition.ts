@@ -0,0 +1,63 @@
+import type { Random } from "../rng";
+import type { Box, GameState, Obstacle } from "../types";
+
+// Where a new obstacle may go: the span from `left` to `right`, and the pipe
+// gap at the time, for pipe-shaped obstacles to size themselves by
+export interface ObstacleSlot {
+  left: number;
+  right: number;
+  gap: number;
+}
+
+// How one kind of obstacle is placed, moves and hurts. The world scrolls
+// every obstacle alike, so a kind only animates it in place; it's plain data
+// in GameState, so replays re-simulate it like the rest.
+export interface ObstacleDefinition<T extends Obstacle = Obstacle> {
+  kind: T['kind'];
+  // Takes a pipe's place in the line of pipes instead of floating between two
+  pipeShaped: boolean;
+  spawn(random: Random, id: string, slot: ObstacleSlot): T;
+  // Horizontal extent from `x`, for scoring and scrolling off the left edge
+  width(obstacle: T): number;
+  // Animate the obstacle in place; scrolling is done for every kind alike
+  advance?(obstacle: T, dt: number): T;
+  hits(obstacle: T, box: Box): boolean;
+  // The obstacle after the snake smashes it, or null when it can't
+  smash?(obstacle: T, state: GameState): T | null;
+}
+
+// A pipe-like column with a gap: everything outside the gap is solid
+export const hitsPipeShape = (x: number, width: number, gapTop: number, gapBottom: number, box: Box) =>
+  box.right > x && box.left < x + width && (box.top < gapTop || box.bottom > gapBottom);
+
+export const hitsCircle = (centerX: number, centerY: number, radius: number, box: Box) => {
+  const nearestX = Math.max(box.left, Math.min(centerX, box.right));
+  const nearestY = Math.max(box.top, Math.min(centerY, box.bottom));
+  return Math.hypot(centerX - nearestX, centerY - nearestY) < radius;
+};
+
+// Segment against a box grown by `thickness / 2` on every side (Liang-Barsky clipping)
+export const hitsSegment = (x1: number, y1: number, x2: number, y2: number, thickness: number, box: Box) => {
+  const pad = thickness / 2;
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const edges: [number, number][] = [
+    [-dx, x1 - (box.left - pad)],
+    [dx, box.right + pad - x1],
+    [-dy, y1 - (box.top - pad)],
+    [dy, box.bottom + pad - y1]
+  ];
+  let enter = 0;
+  let exit = 1;
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) enter = Math.max(enter, t);
+    else exit = Math.min(exit, t);
+    if (enter > exit) return false;
+  }
+  return true;
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { MAX_BODY_SEGMENTS, OBSTACLE_SMASH_POINTS } from "../constants";
+import { createRandom } from "../rng";
+import { startRun, tick } from "../test-fixtures";
+import type { BodySegment, BreakablePipe, ClosingGate, LaserSweep, RotatingBar, SpikedMine } from "../types";
+import { GATE_CYCLE, getGateOpening } from "./closing-gate";
+import { advanceObstacle, obstacleHits, spawnObstacle } from "./index";
+import { LASER_CYCLE, LASER_ON, LASER_WARNING, isLaserFiring, isLaserWarming } from "./laser";
+import { MINE_RADIUS } from "./mine";
+
+// A box `size` across with its top left corner at (x, y)
+const box = (x: number, y: number, size = 10) => ({ left: x, right: x + size, top: y, bottom: y + size });
+
+const bar: RotatingBar = { kind: 'rotatingBar', id: 'bar', x: 100, y: 200, length: 100, angle: 0, spin: 1, passed: false };
+const gate: ClosingGate = { kind: 'closingGate', id: 'gate', x: 100, topHeight: 150, gap: 200, phase: 0, passed: false };
+const mine: SpikedMine = { kind: 'mine', id: 'mine', x: 100, y: 200, baseY: 200, phase: 0, passed: false };
+const laser: LaserSweep = { kind: 'laser', id: 'laser', x: 100, y: 200, velocity: 70, phase: 0, passed: false };
+const cracked: BreakablePipe = { kind: 'breakablePipe', id: 'cracked', x: 190, topHeight: 300, gap: 200, broken: false, passed: false };
+
+describe('obstacle shapes', () => {
+  it('make a rotating bar a thick line turning about its middle', () => {
+    expect(obstacleHits(bar, box(140, 195))).toBe(true);
+    expect(obstacleHits(bar, box(140, 215))).toBe(false);
+    expect(obstacleHits(bar, box(210, 195))).toBe(false);
+
+    const upright = { ...bar, angle: Math.PI / 2 };
+    expect(obstacleHits(upright, box(145, 240))).toBe(true);
+    expect(obstacleHits(upright, box(110, 195))).toBe(false);
+  });
+
+  it('make a closing gate a pipe whose gap shuts', () => {
+    expect(obstacleHits(gate, box(120, 240))).toBe(false);
+    expect(obstacleHits(gate, box(120, 140))).toBe(true);
+    expect(obstacleHits({ ...gate, phase: GATE_CYCLE / 2 }, box(120, 240))).toBe(true);
+  });
+
+  it('make a mine a circle that forgives its spike tips', () => {
+    const centreX = mine.x + MINE_RADIUS;
+    expect(obstacleHits(mine, box(centreX - 5, mine.y - 5))).toBe(true);
+    expect(obstacleHits(mine, box(centreX - 5, mine.y + MINE_RADIUS - 1))).toBe(false);
+  });
+
+  it('make a laser a thin beam between its emitters, only while firing', () => {
+    expect(obstacleHits(laser, box(150, 195))).toBe(true);
+    expect(obstacleHits(laser, box(150, 210))).toBe(false);
+    expect(obstacleHits(laser, box(240, 195))).toBe(false);
+    expect(obstacleHits({ ...laser, phase: LASER_ON }, box(150, 195))).toBe(false);
+  });
+
+  it('make a breakable pipe a pipe until it is broken', () => {
+    expect(obstacleHits(cracked, box(200, 250))).toBe(true);
+    expect(obstacleHits(cracked, box(200, 350))).toBe(false);
+    expect(obstacleHits({ ...cracked, broken: true }, box(200, 250))).toBe(false);
+  });
+});
+
+describe('obstacle cycles', () => {
+  it('hold a closing gate open for half its cycle, then shut it and open it again', () => {
+    const openingAt = (phase: number) => getGateOpening({ ...gate, phase });
+    expect(openingAt(0)).toBe(1);
+    expect(openingAt(GATE_CYCLE / 4)).toBeCloseTo(1);
+    expect(openingAt(GATE_CYCLE * 3 / 8)).toBeLessThan(1);
+    expect(openingAt(GATE_CYCLE / 2)).toBe(0);
+    expect(openingAt(GATE_CYCLE * 3 / 4)).toBeCloseTo(1);
+    expect(advanceObstacle({ ...gate, phase: GATE_CYCLE - 0.1 }, 0.3)).toMatchObject({ phase: expect.closeTo(0.2) });
+  });
+
+  it('fire a laser at the start of each cycle, warning before it fires again', () => {
+    const at = (phase: number) => ({ ...laser, phase });
+    expect(isLaserFiring(at(0))).toBe(true);
+    expect(isLaserFiring(at(LASER_ON - 0.01))).toBe(true);
+    expect(isLaserFiring(at(LASER_ON))).toBe(false);
+    expect(isLaserWarming(at(LASER_ON))).toBe(false);
+    expect(isLaserWarming(at(LASER_CYCLE - LASER_WARNING))).toBe(true);
+
+    const wrapped = advanceObstacle(at(LASER_CYCLE - 0.1), 0.3) as LaserSweep;
+    expect(wrapped.phase).toBeCloseTo(0.2);
+    expect(isLaserFiring(wrapped)).toBe(true);
+  });
+
+  it('never spawn a laser already firing or warning', () => {
+    const random = createRandom({ rngState: 1 });
+    for (let count = 0; count < 50; count++) {
+      const spawned = spawnObstacle('laser', random, 'laser', { left: 0, right: 200, gap: 200 }) as LaserSweep;
+      expect(isLaserFiring(spawned) || isLaserWarming(spawned)).toBe(false);
+    }
+  });
+});
+
+describe('breakable pipes', () => {
+  const bodyOf = (length: number): BodySegment[] =>
+    Array.from({ length }, (_, index) => ({ x: 175 - index * 25, y: 250, id: `segment-${index}` }));
+
+  it('give way to a fully grown snake, for points', () => {
+    const body = bodyOf(MAX_BODY_SEGMENTS);
+    const state = tick(startRun({ obstacles: [cracked], bodySegments: body, bodyLength: body.length }));
+    expect(state.gameOver).toBe(false);
+    expect(state.events).toContainEqual({ type: 'obstacleSmashed', obstacleId: 'cracked' });
+    expect(state.obstacles[0]).toMatchObject({ broken: true });
+    expect(state.coins).toBe(OBSTACLE_SMASH_POINTS);
+  });
+
+  it('stop a snake that is still growing', () => {
+    const body = bodyOf(MAX_BODY_SEGMENTS - 1);
+    const state = tick(startRun({ obstacles: [cracked], bodySegments: body, bodyLength: body.length }));
+    expect(state.gameOver).toBe(true);
+    expect(state.events).toContainEqual({ type: 'gameOver', reason: 'obstacle' });
+    expect(state.events).not.toContainEqual({ type: 'obstacleSmashed', obstacleId: 'cracked' });
+  });
+});
@@ -0,0 +1,45 @@
+import { createRegistry } from "../registry";
+import type { Random } from "../rng";
+import type { Box, Obstacle, ObstacleKind } from "../types";
+import { breakablePipe } from "./breakable-pipe";
+import { closingGate } from "./closing-gate";
+import type { ObstacleDefinition, ObstacleSlot } from "./definition";
+import { laser } from "./laser";
+import { mine } from "./mine";
+import { rotatingBar } from "./rotating-bar";
+
+export { hitsPipeShape, type ObstacleDefinition, type ObstacleSlot } from "./definition";
+
+// A new kind of obstacle needs a member of the Obstacle union, a module like
+// ./mine.ts, an entry here, and a view in src/components/obstacles and a
+// painter in src/lib/draw-game.ts to be seen. A stage's spawn roll walks this
+// list, so a new kind goes at the end or old seeds would place different ones.
+const OBSTACLES = createRegistry<ObstacleKind, ObstacleDefinition>('obstacle', [
+  rotatingBar,
+  closingGate,
+  mine,
+  laser,
+  breakablePipe
+]);
+
+export const getObstacleDefinition = OBSTACLES.get;
+
+// One roll against a stage's chances of each kind turning up in a pipe slot;
+// null leaves the slot to a plain pipe alone
+export const rollObstacle = (random: Random, chances: Partial<Record<ObstacleKind, number>>): ObstacleKind | null => {
+  if (Object.keys(chances).length === 0) return null;
+  let roll = random();
+  return OBSTACLES.all.find(definition => (roll -= chances[definition.kind] ?? 0) < 0)?.kind ?? null;
+};
+
+export const spawnObstacle = (kind: ObstacleKind, random: Random, id: string, slot: ObstacleSlot) =>
+  getObstacleDefinition(kind).spawn(random, id, slot);
+
+export const advanceObstacle = (obstacle: Obstacle, dt: number) => {
+  const { advance } = getObstacleDefinition(obstacle.kind);
+  return advance ? advance(obstacle, dt) : obstacle;
+};
+
+export const obstacleHits = (obstacle: Obstacle, box: Box) => getObstacleDefinition(obstacle.kind).hits(obstacle, box);
+
+export const getObstacleRight = (obstacle: Obstacle) => obstacle.x + getObstacleDefinition(obstacle.kind).width(obstacle);
@@ -0,0 +1,51 @@
+import { WORLD_HEIGHT } from "../constants";
+import type { LaserSweep } from "../types";
+import type { ObstacleDefinition } from "./definition";
+
+// Distance between the two emitters
+export const LASER_WIDTH = 120;
+// The beam fires for the first LASER_ON seconds of every cycle and is off
+// for the rest, flickering as a warning for the last LASER_WARNING seconds
+// before it fires again
+export const LASER_CYCLE = 3;
+export const LASER_ON = 1.8;
+export const LASER_WARNING = 0.6;
+const LASER_TOP = 40;
+const LASER_BOTTOM = WORLD_HEIGHT - 90;
+const LASER_SPEED = 70;
+// Half the beam's thickness, for collisions
+const LASER_REACH = 3;
+
+export const isLaserFiring = (laser: LaserSweep) => laser.phase < LASER_ON;
+
+export const isLaserWarming = (laser: LaserSweep) => laser.phase >= LASER_CYCLE - LASER_WARNING;
+
+// A horizontal beam sweeping up and down between two emitters
+export const laser: ObstacleDefinition<LaserSweep> = {
+  kind: 'laser',
+  pipeShaped: false,
+  spawn: (random, id, slot) => ({
+    kind: 'laser',
+    id,
+    x: (slot.left + slot.right - LASER_WIDTH) / 2,
+    y: random() * (LASER_BOTTOM - LASER_TOP) + LASER_TOP,
+    velocity: random() < 0.5 ? -LASER_SPEED : LASER_SPEED,
+    // Start switched off, so the beam never appears already firing
+    phase: LASER_ON + random() * (LASER_CYCLE - LASER_ON - LASER_WARNING),
+    passed: false
+  }),
+  width: () => LASER_WIDTH,
+  advance: (sweep, dt) => {
+    let y = sweep.y + sweep.velocity * dt;
+    let velocity = sweep.velocity;
+    if (y < LASER_TOP || y > LASER_BOTTOM) {
+      y = Math.max(LASER_TOP, Math.min(LASER_BOTTOM, y));
+      velocity = -velocity;
+    }
+    return { ...sweep, y, velocity, phase: (sweep.phase + dt) % LASER_CYCLE };
+  },
+  hits: (sweep, box) =>
+    isLaserFiring(sweep) &&
+    box.right > sweep.x && box.left < sweep.x + LASER_WIDTH &&
+    box.top < sweep.y + LASER_REACH && box.bottom > sweep.y - LASER_REACH
+};
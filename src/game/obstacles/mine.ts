@@ -0,0 +1,35 @@
+import { WORLD_HEIGHT } from "../constants";
+import type { SpikedMine } from "../types";
+import { hitsCircle, type ObstacleDefinition } from "./definition";
+
+export const MINE_RADIUS = 14;
+// Only the core counts, so brushing a spike tip is forgiven
+const MINE_HIT_RADIUS = MINE_RADIUS * 0.85;
+const MINE_BOB_HEIGHT = 40;
+// Seconds per bob up and down
+const MINE_BOB_PERIOD = 2.5;
+
+// A floating spiked mine bobbing up and down between two pipes
+export const mine: ObstacleDefinition<SpikedMine> = {
+  kind: 'mine',
+  pipeShaped: false,
+  spawn: (random, id, slot) => {
+    const baseY = random() * (WORLD_HEIGHT - 300) + 120;
+    return {
+      kind: 'mine',
+      id,
+      x: (slot.left + slot.right) / 2 - MINE_RADIUS,
+      y: baseY,
+      baseY,
+      phase: random() * MINE_BOB_PERIOD,
+      passed: false
+    };
+  },
+  width: () => MINE_RADIUS * 2,
+  advance: (spikedMine, dt) => {
+    const phase = (spikedMine.phase + dt) % MINE_BOB_PERIOD;
+    const y = spikedMine.baseY + Math.sin((2 * Math.PI * phase) / MINE_BOB_PERIOD) * MINE_BOB_HEIGHT;
+    return { ...spikedMine, phase, y };
+  },
+  hits: (spikedMine, box) => hitsCircle(spikedMine.x + MINE_RADIUS, spikedMine.y, MINE_HIT_RADIUS, box)
+};
@@ -0,0 +1,44 @@
+import { WORLD_HEIGHT } from "../constants";
+import type { RotatingBar } from "../types";
+import { hitsSegment, type ObstacleDefinition } from "./definition";
+
+export const BAR_THICKNESS = 10;
+const BAR_MIN_LENGTH = 80;
+const BAR_MAX_LENGTH = 120;
+// Radians per second
+const BAR_MIN_SPIN = 1.2;
+const BAR_MAX_SPIN = 2.2;
+
+// Both ends of the bar, turning around its middle
+export const getBarEnds = (bar: RotatingBar) => {
+  const centerX = bar.x + bar.length / 2;
+  const dx = Math.cos(bar.angle) * bar.length / 2;
+  const dy = Math.sin(bar.angle) * bar.length / 2;
+  return { x1: centerX - dx, y1: bar.y - dy, x2: centerX + dx, y2: bar.y + dy };
+};
+
+// A bar spinning in the open space between two pipes, either way round
+export const rotatingBar: ObstacleDefinition<RotatingBar> = {
+  kind: 'rotatingBar',
+  pipeShaped: false,
+  spawn: (random, id, slot) => {
+    const length = BAR_MIN_LENGTH + random() * (BAR_MAX_LENGTH - BAR_MIN_LENGTH);
+    const spin = (BAR_MIN_SPIN + random() * (BAR_MAX_SPIN - BAR_MIN_SPIN)) * (random() < 0.5 ? -1 : 1);
+    return {
+      kind: 'rotatingBar',
+      id,
+      x: (slot.left + slot.right - length) / 2,
+      y: random() * (WORLD_HEIGHT - 260) + 100,
+      length,
+      angle: random() * Math.PI,
+      spin,
+      passed: false
+    };
+  },
+  width: bar => bar.length,
+  advance: (bar, dt) => ({ ...bar, angle: bar.angle + bar.spin * dt }),
+  hits: (bar, box) => {
+    const { x1, y1, x2, y2 } = getBarEnds(bar);
+    return hitsSegment(x1, y1, x2, y2, BAR_THICKNESS, box);
+  }
+};
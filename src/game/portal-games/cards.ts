@@ -0,0 +1,30 @@
+import { shuffle } from "../rng";
+import type { PortalGame } from "../types";
+import { pickForKey, pickMoves, type PortalGameDefinition } from "./definition";
+
+export interface CardsGame extends PortalGame {
+  type: 'cards';
+  // Face-down card values
+  cards: number[];
+  // Indices picked so far
+  picked: number[];
+}
+
+const CARD_VALUES = [1, 2, 3, 4, 5];
+export const CARD_PICKS = 2;
+
+// Pick two of five face-down cards and score their total
+export const cardsGame: PortalGameDefinition<CardsGame, number> = {
+  kind: 'cards',
+  weight: 1,
+  // The index of the card to turn over
+  actions: pickMoves(CARD_VALUES.length),
+  start: random => ({ type: 'cards', cards: shuffle(CARD_VALUES, random), picked: [], result: null }),
+  play: (game, index) => {
+    if (game.picked.includes(index)) return game;
+    const picked = [...game.picked, index];
+    const result = picked.length < CARD_PICKS ? null : picked.reduce((sum, index) => sum + game.cards[index], 0);
+    return { ...game, picked, result };
+  },
+  moveForKey: (game, key) => pickForKey(key, game.cards.length)
+};
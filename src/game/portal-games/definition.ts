@@ -0,0 +1,33 @@
+import type { Random } from "../rng";
+import type { PortalGame, PortalMove } from "../types";
+
+// Everything the simulation needs to run one kind of portal mini-game: how
+// it's laid out, the moves it takes and how they decide its result. The game
+// itself is plain data in GameState, so replays re-simulate it like the rest.
+export interface PortalGameDefinition<T extends PortalGame = PortalGame, M extends PortalMove = PortalMove> {
+  kind: T['type'];
+  // Relative chance of this game being chosen when a portal is entered
+  weight: number;
+  // Every move the game accepts. Replays record a move by its place in this
+  // list, which has room for 14, so append new moves at the end.
+  actions: readonly M[];
+  // Lay out the game, including any hidden values
+  start(random: Random): T;
+  // Animate the game between decisions, e.g. a turning wheel
+  advance?(game: T, dt: number): T;
+  // Apply a decision, setting `result` once the game is decided. Moves that
+  // don't fit the game's stage return it unchanged.
+  play(game: T, move: M, random: Random): T;
+  // Keyboard shortcut for an undecided game; Enter is the main move
+  moveForKey(game: T, key: string): M | null;
+}
+
+// The first `count` indices, as the moves of a game played by picking one
+// of several things
+export const pickMoves = (count: number) => Array.from({ length: count }, (_, index) => index);
+
+// Number keys 1-9 as picks
+export const pickForKey = (key: string, count: number): number | null => {
+  const number = Number.parseInt(key, 10);
+  return number >= 1 && number <= count ? number - 1 : null;
+};
@@ -0,0 +1,46 @@
+import type { Random } from "../rng";
+import type { PortalGame } from "../types";
+import type { PortalGameDefinition } from "./definition";
+
+export interface DiceGame extends PortalGame {
+  type: 'dice';
+  dice: [number, number];
+  pot: number;
+  rolls: number;
+  busted: boolean;
+}
+
+// Rolling this on either die loses the whole pot
+export const DICE_BUST_FACE = 1;
+
+export type DiceMove = 'roll' | 'bank';
+
+const rollDice = (random: Random): [number, number] => [
+  Math.floor(random() * 6) + 1,
+  Math.floor(random() * 6) + 1
+];
+
+// Push your luck: every roll adds to the pot until the player banks it or
+// rolls a one. The opening roll is free; only re-rolls can bust.
+export const diceGame: PortalGameDefinition<DiceGame, DiceMove> = {
+  kind: 'dice',
+  weight: 1,
+  actions: ['roll', 'bank'],
+  start: random => {
+    const dice = rollDice(random);
+    return { type: 'dice', dice, pot: dice[0] + dice[1], rolls: 1, busted: false, result: null };
+  },
+  play: (game, move, random) => {
+    if (move === 'bank') return { ...game, result: game.pot };
+
+    const dice = rollDice(random);
+    if (dice.includes(DICE_BUST_FACE)) {
+      return { ...game, dice, pot: 0, rolls: game.rolls + 1, busted: true, result: 0 };
+    }
+    return { ...game, dice, pot: game.pot + dice[0] + dice[1], rolls: game.rolls + 1 };
+  },
+  moveForKey: (_game, key) => {
+    if (key === 'Enter' || key === '2') return 'bank';
+    return key === '1' ? 'roll' : null;
+  }
+};
@@ -0,0 +1,58 @@
+import { PORTAL_CONTINUE } from "../constants";
+import { createRegistry } from "../registry";
+import type { Random } from "../rng";
+import type { PortalAction, PortalGame, PortalGameType, PortalMove } from "../types";
+import { cardsGame } from "./cards";
+import type { PortalGameDefinition } from "./definition";
+import { diceGame } from "./dice";
+import { spinnerGame } from "./spinner";
+import { treasureGame } from "./treasure";
+
+export type { PortalGameDefinition } from "./definition";
+
+// To add a game, write a module like ./dice.ts with its state, moves and
+// rules, append it here and draw it in src/components/portal-games, which
+// won't type-check until it does. Which game a portal opens is rolled along
+// this list, so reordering it would change the outcome of recorded replays.
+const GAMES = [diceGame, cardsGame, spinnerGame, treasureGame] as const;
+
+export type PortalGameKind = (typeof GAMES)[number]['kind'];
+
+const PORTAL_GAMES = createRegistry<PortalGameType, PortalGameDefinition>('portal game', GAMES);
+
+export const getPortalGameDefinition = PORTAL_GAMES.get;
+
+// Choose a game by weight and lay it out
+export const startPortalGame = (random: Random): PortalGame => {
+  const games = PORTAL_GAMES.all;
+  const totalWeight = games.reduce((sum, game) => sum + game.weight, 0);
+  let roll = random() * totalWeight;
+  const chosen = games.find(game => (roll -= game.weight) < 0) ?? games[games.length - 1];
+  return chosen.start(random);
+};
+
+export const advancePortalGame = (game: PortalGame, dt: number): PortalGame => {
+  const { advance } = getPortalGameDefinition(game.type);
+  return advance && game.result === null ? advance(game, dt) : game;
+};
+
+// Apply a decision; a decided game ignores further moves, and actions that
+// aren't one of its moves are ignored too
+export const playPortalGame = (game: PortalGame, action: PortalAction, random: Random): PortalGame => {
+  const definition = getPortalGameDefinition(game.type);
+  const move = definition.actions[action];
+  return game.result === null && move !== undefined ? definition.play(game, move, random) : game;
+};
+
+// The action making `move` in `game`, or null when the game has no such move
+export const getPortalAction = (game: PortalGame, move: PortalMove): PortalAction | null => {
+  const action = getPortalGameDefinition(game.type).actions.indexOf(move);
+  return action >= 0 ? action : null;
+};
+
+// Keyboard shortcuts for the game on screen; Enter continues once it's decided
+export const portalActionForKey = (game: PortalGame, key: string): PortalAction | null => {
+  if (game.result !== null) return key === 'Enter' ? PORTAL_CONTINUE : null;
+  const move = getPortalGameDefinition(game.type).moveForKey(game, key);
+  return move === null ? null : getPortalAction(game, move);
+};
@@ -0,0 +1,33 @@
+import { shuffle } from "../rng";
+import type { PortalGame } from "../types";
+import type { PortalGameDefinition } from "./definition";
+
+export interface SpinnerGame extends PortalGame {
+  type: 'spinner';
+  // Values around the wheel
+  segments: number[];
+  // How many segments the wheel has turned
+  position: number;
+}
+
+// Segments the wheel turns through per second
+export const SPINNER_SPEED = 4;
+
+// Segment of the wheel currently under the pointer
+export const getSpinnerIndex = (game: SpinnerGame) => Math.floor(game.position) % game.segments.length;
+
+// Stop the wheel on as big a number as you can
+export const spinnerGame: PortalGameDefinition<SpinnerGame, 'stop'> = {
+  kind: 'spinner',
+  weight: 1,
+  actions: ['stop'],
+  start: random => ({
+    type: 'spinner',
+    segments: shuffle([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], random),
+    position: 0,
+    result: null
+  }),
+  advance: (game, dt) => ({ ...game, position: (game.position + SPINNER_SPEED * dt) % game.segments.length }),
+  play: game => ({ ...game, result: game.segments[getSpinnerIndex(game)] }),
+  moveForKey: (_game, key) => (key === 'Enter' ? 'stop' : null)
+};
@@ -0,0 +1,27 @@
+import type { PortalGame } from "../types";
+import { pickForKey, pickMoves, type PortalGameDefinition } from "./definition";
+
+export interface TreasureGame extends PortalGame {
+  type: 'treasure';
+  // Coins hidden in each chest
+  chests: number[];
+  opened: number | null;
+}
+
+export const CHEST_COUNT = 3;
+
+// Choose one of three chests
+export const treasureGame: PortalGameDefinition<TreasureGame, number> = {
+  kind: 'treasure',
+  weight: 1,
+  // The index of the chest to open
+  actions: pickMoves(CHEST_COUNT),
+  start: random => ({
+    type: 'treasure',
+    chests: Array.from({ length: CHEST_COUNT }, () => Math.floor(random() * 15) + 5),
+    opened: null,
+    result: null
+  }),
+  play: (game, index) => ({ ...game, opened: index, result: game.chests[index] }),
+  moveForKey: (game, key) => pickForKey(key, game.chests.length)
+};
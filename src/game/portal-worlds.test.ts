@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { BIRD_SIZE, GROUND_HEIGHT, WORLD_HEIGHT, WORLD_WIDTH } from "./constants";
+import { generatePortalWorld, moveThroughWorld } from "./portal-worlds";
+import { createRandom } from "./rng";
+import { NORMAL_RULES } from "./rules";
+import { createIdSource } from "./world";
+
+const PLAY_HEIGHT = WORLD_HEIGHT - GROUND_HEIGHT;
+
+const generateMaze = (seed: number) => {
+  const layout = generatePortalWorld(createRandom({ rngState: seed }), createIdSource({ nextEntityId: 0 }), NORMAL_RULES, 6);
+  expect(layout.world.layout).toBe('maze');
+  return layout.world;
+};
+
+describe('portal world mazes', () => {
+  it.each([12, 13, 14])('keep the snake from slipping under the bottom row (seed %i)', seed => {
+    const world = generateMaze(seed);
+    // The first wall across the bottom row to the right of its first cell
+    const wall = world.walls
+      .filter(candidate => candidate.x > 0 && candidate.height > candidate.width && candidate.y + candidate.height >= PLAY_HEIGHT - 10)
+      .reduce((nearest, candidate) => candidate.x < nearest.x ? candidate : nearest);
+
+    // Hug the ground heading right from the bottom left corner
+    let head = { x: 10, y: PLAY_HEIGHT - 60 };
+    for (let count = 0; count < 200; count++) {
+      head = moveThroughWorld(world, head.x, head.y, Math.min(head.x + 5, WORLD_WIDTH - BIRD_SIZE), Math.min(head.y + 5, WORLD_HEIGHT - BIRD_SIZE));
+    }
+    expect(head.y + BIRD_SIZE).toBeLessThanOrEqual(PLAY_HEIGHT);
+    expect(head.x + BIRD_SIZE).toBeLessThanOrEqual(wall.x);
+  });
+});
@@ -0,0 +1,276 @@
+import { BIRD_SIZE, GROUND_HEIGHT, WORLD_HEIGHT, WORLD_WIDTH } from "./constants";
+import type { Random } from "./rng";
+import type { Box, Frog, GameRules, MovingPlatform, PortalKey, PortalLayout, PortalWall, PortalWorld } from "./types";
+import { generatePortalExit, generateWorldCoins, type IdSource } from "./world";
+
+// Mazes are laid out on a grid of cells, each roomy enough for the head
+const COLUMNS = 5;
+const ROWS = 5;
+const PLAY_HEIGHT = WORLD_HEIGHT - GROUND_HEIGHT;
+const CELL_WIDTH = WORLD_WIDTH / COLUMNS;
+const CELL_HEIGHT = PLAY_HEIGHT / ROWS;
+export const WALL_THICKNESS = 8;
+// Frogs and keys keep this far inside their cell's walls
+const CELL_MARGIN = 12;
+const FROG_SIZE = 40;
+export const KEY_SIZE = 24;
+const EXIT_SIZE = 48;
+const MAX_KEYS = 3;
+const PLATFORM_LENGTH = 100;
+const PLATFORM_THICKNESS = 14;
+const MAX_PLATFORMS = 4;
+// Radius of the light around the head in dark worlds
+export const LIGHT_RADIUS = 90;
+// Seconds added to the portal timer for each key, and for finding the way
+// through a maze
+const KEY_TIME_BONUS = 2;
+const MAZE_TIME_BONUS = 4;
+
+// Everything a new portal world starts with
+export interface PortalWorldLayout {
+  world: PortalWorld;
+  frogs: Frog[];
+  exit: { x: number; y: number };
+  // Where the head is put on the way in; null leaves it where it was
+  start: { x: number; y: number } | null;
+  timeBonus: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const overlaps = (box: Box, wall: PortalWall) =>
+  box.right > wall.x && box.left < wall.x + wall.width && box.bottom > wall.y && box.top < wall.y + wall.height;
+
+const headBox = (x: number, y: number): Box => ({ left: x, right: x + BIRD_SIZE, top: y, bottom: y + BIRD_SIZE });
+
+const cellColumn = (cell: number) => cell % COLUMNS;
+const cellRow = (cell: number) => Math.floor(cell / COLUMNS);
+
+const getNeighbours = (cell: number) => {
+  const column = cellColumn(cell);
+  const row = cellRow(cell);
+  const neighbours: number[] = [];
+  if (column > 0) neighbours.push(cell - 1);
+  if (column < COLUMNS - 1) neighbours.push(cell + 1);
+  if (row > 0) neighbours.push(cell - COLUMNS);
+  if (row < ROWS - 1) neighbours.push(cell + COLUMNS);
+  return neighbours;
+};
+
+const passageKey = (a: number, b: number) => `${Math.min(a, b)}-${Math.max(a, b)}`;
+
+// The passages of a maze: a random depth-first walk makes one path between
+// any two cells, then walls are knocked through at random, more of them on
+// easier levels, to open up loops
+const carveMaze = (random: Random, wallChance: number) => {
+  const passages = new Set<string>();
+  const visited = new Set<number>([0]);
+  const stack = [0];
+  while (stack.length > 0) {
+    const cell = stack[stack.length - 1];
+    const unvisited = getNeighbours(cell).filter(neighbour => !visited.has(neighbour));
+    if (unvisited.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const next = unvisited[Math.floor(random() * unvisited.length)];
+    passages.add(passageKey(cell, next));
+    visited.add(next);
+    stack.push(next);
+  }
+
+  for (let cell = 0; cell < COLUMNS * ROWS; cell++) {
+    for (const neighbour of getNeighbours(cell).filter(other => other > cell)) {
+      if (!passages.has(passageKey(cell, neighbour)) && random() >= wallChance) {
+        passages.add(passageKey(cell, neighbour));
+      }
+    }
+  }
+  return passages;
+};
+
+// A wall for every pair of neighbouring cells without a passage between
+// them, long enough to close the corners, and one along the ground. The
+// head can drop below the play area, so without it the snake could slip
+// under the maze; the other edges are the world's own.
+const buildWalls = (passages: Set<string>): PortalWall[] => {
+  const walls: PortalWall[] = [{ x: 0, y: PLAY_HEIGHT - WALL_THICKNESS / 2, width: WORLD_WIDTH, height: WALL_THICKNESS }];
+  for (let cell = 0; cell < COLUMNS * ROWS; cell++) {
+    const x = cellColumn(cell) * CELL_WIDTH;
+    const y = cellRow(cell) * CELL_HEIGHT;
+    const right = cell + 1;
+    const below = cell + COLUMNS;
+    if (cellColumn(cell) < COLUMNS - 1 && !passages.has(passageKey(cell, right))) {
+      walls.push({ x: x + CELL_WIDTH - WALL_THICKNESS / 2, y: y - WALL_THICKNESS / 2, width: WALL_THICKNESS, height: CELL_HEIGHT + WALL_THICKNESS });
+    }
+    if (cellRow(cell) < ROWS - 1 && !passages.has(passageKey(cell, below))) {
+      walls.push({ x: x - WALL_THICKNESS / 2, y: y + CELL_HEIGHT - WALL_THICKNESS / 2, width: CELL_WIDTH + WALL_THICKNESS, height: WALL_THICKNESS });
+    }
+  }
+  return walls;
+};
+
+// Steps from `start` to every cell through the passages
+const getDistances = (passages: Set<string>, start: number) => {
+  const distances = new Map([[start, 0]]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const cell = queue.shift()!;
+    for (const neighbour of getNeighbours(cell)) {
+      if (distances.has(neighbour) || !passages.has(passageKey(cell, neighbour))) continue;
+      distances.set(neighbour, distances.get(cell)! + 1);
+      queue.push(neighbour);
+    }
+  }
+  return distances;
+};
+
+// Top left corner for something `size` across, centred in `cell`
+const centreIn = (cell: number, size: number) => ({
+  x: (cellColumn(cell) + 0.5) * CELL_WIDTH - size / 2,
+  y: (cellRow(cell) + 0.5) * CELL_HEIGHT - size / 2
+});
+
+// Top left corner for something `size` across, anywhere inside `cell`
+const placeIn = (random: Random, cell: number, size: number) => ({
+  x: cellColumn(cell) * CELL_WIDTH + CELL_MARGIN + random() * Math.max(0, CELL_WIDTH - 2 * CELL_MARGIN - size),
+  y: cellRow(cell) * CELL_HEIGHT + CELL_MARGIN + random() * Math.max(0, CELL_HEIGHT - 2 * CELL_MARGIN - size)
+});
+
+const generatePlatforms = (random: Random, nextId: IdSource, level: number): MovingPlatform[] => {
+  const count = Math.min(MAX_PLATFORMS, 1 + Math.floor(level / 2));
+  const speed = Math.min(140, 50 + level * 10);
+  return Array.from({ length: count }, (_, index) => {
+    const axis = random() < 0.5 ? 'x' : 'y';
+    const direction = random() < 0.5 ? -1 : 1;
+    // Spread out across the world, one lane each
+    const lane = (index + 0.5) / count;
+    if (axis === 'x') {
+      const max = WORLD_WIDTH - PLATFORM_LENGTH;
+      return {
+        id: nextId('platform'),
+        axis,
+        x: random() * max,
+        y: lane * PLAY_HEIGHT - PLATFORM_THICKNESS / 2,
+        width: PLATFORM_LENGTH,
+        height: PLATFORM_THICKNESS,
+        min: 0,
+        max,
+        velocity: speed * direction
+      };
+    }
+    const max = PLAY_HEIGHT - PLATFORM_LENGTH;
+    return {
+      id: nextId('platform'),
+      axis,
+      x: lane * WORLD_WIDTH - PLATFORM_THICKNESS / 2,
+      y: random() * max,
+      width: PLATFORM_THICKNESS,
+      height: PLATFORM_LENGTH,
+      min: 0,
+      max,
+      velocity: speed * direction
+    };
+  });
+};
+
+// The first portal of a run is always an open glade. After that mazes and
+// platforms turn up more and more often.
+const pickLayout = (random: Random, level: number): PortalLayout => {
+  if (level === 0) return 'glade';
+  const roll = random() * (2 + level);
+  if (roll < 2) return 'glade';
+  return roll < 2 + level / 2 ? 'maze' : 'platforms';
+};
+
+// Lay out the portal world entered after `level` other portals. Later ones
+// have denser mazes, more and faster platforms, more keys and more often
+// go dark.
+export const generatePortalWorld = (random: Random, nextId: IdSource, rules: GameRules, level: number): PortalWorldLayout => {
+  const layout = pickLayout(random, level);
+  const keyCount = Math.min(MAX_KEYS, Math.floor(level / 2));
+  const dark = level >= 3 && random() < Math.min(0.8, (level - 2) * 0.2);
+  let frogs = generateWorldCoins(random, nextId, rules);
+  const world: PortalWorld = { layout, level, walls: [], platforms: [], keys: [], dark };
+  const timeBonus = keyCount * KEY_TIME_BONUS + (layout === 'maze' ? MAZE_TIME_BONUS : 0);
+
+  if (layout !== 'maze') {
+    if (layout === 'platforms') world.platforms = generatePlatforms(random, nextId, level);
+    world.keys = Array.from({ length: keyCount }, (): PortalKey => ({
+      id: nextId('key'),
+      x: random() * (WORLD_WIDTH - 100) + 50,
+      y: random() * (PLAY_HEIGHT - 100) + 50,
+      collected: false
+    }));
+    return { world, frogs, exit: generatePortalExit(random), start: null, timeBonus };
+  }
+
+  const passages = carveMaze(random, Math.min(1, 0.5 + level * 0.1));
+  world.walls = buildWalls(passages);
+
+  // In at the left, out at whichever cell is furthest away
+  const startCell = Math.floor(random() * ROWS) * COLUMNS;
+  const distances = getDistances(passages, startCell);
+  const exitCell = [...distances.entries()].reduce((furthest, entry) => entry[1] > furthest[1] ? entry : furthest)[0];
+
+  const otherCells = Array.from({ length: COLUMNS * ROWS }, (_, cell) => cell).filter(cell => cell !== startCell && cell !== exitCell);
+  world.keys = Array.from({ length: keyCount }, (): PortalKey => {
+    const cell = otherCells.splice(Math.floor(random() * otherCells.length), 1)[0];
+    return { id: nextId('key'), ...centreIn(cell, KEY_SIZE), collected: false };
+  });
+  frogs = frogs.map(frog => {
+    const cell = Math.floor(random() * COLUMNS * ROWS);
+    return { ...frog, ...placeIn(random, cell, FROG_SIZE) };
+  });
+
+  return {
+    world,
+    frogs,
+    exit: centreIn(exitCell, EXIT_SIZE),
+    start: centreIn(startCell, BIRD_SIZE),
+    timeBonus
+  };
+};
+
+// Where the head ends up heading from (fromX, fromY) to (toX, toY): it
+// slides along walls and platforms instead of passing through. Anything it
+// is already stuck in lets it out.
+export const moveThroughWorld = (world: PortalWorld, fromX: number, fromY: number, toX: number, toY: number) => {
+  const from = headBox(fromX, fromY);
+  const solids = [...world.walls, ...world.platforms].filter(wall => !overlaps(from, wall));
+  const isBlocked = (x: number, y: number) => solids.some(wall => overlaps(headBox(x, y), wall));
+
+  if (!isBlocked(toX, toY)) return { x: toX, y: toY };
+  if (!isBlocked(toX, fromY)) return { x: toX, y: fromY };
+  if (!isBlocked(fromX, toY)) return { x: fromX, y: toY };
+  return { x: fromX, y: fromY };
+};
+
+// Slide the platforms along their tracks, shoving the head (at x, y) ahead
+// of any that run into it
+export const advancePlatforms = (world: PortalWorld, x: number, y: number, dt: number) => {
+  let headX = x;
+  let headY = y;
+  const platforms = world.platforms.map(platform => {
+    const position = (platform.axis === 'x' ? platform.x : platform.y) + platform.velocity * dt;
+    const bounced = position < platform.min || position > platform.max;
+    const velocity = bounced ? -platform.velocity : platform.velocity;
+    const clamped = clamp(position, platform.min, platform.max);
+    const moved = platform.axis === 'x' ? { ...platform, x: clamped, velocity } : { ...platform, y: clamped, velocity };
+
+    const head = headBox(headX, headY);
+    if (overlaps(head, moved) && !overlaps(head, platform)) {
+      if (platform.axis === 'x') headX = platform.velocity > 0 ? moved.x + moved.width : moved.x - BIRD_SIZE;
+      else headY = platform.velocity > 0 ? moved.y + moved.height : moved.y - BIRD_SIZE;
+    }
+    return moved;
+  });
+
+  return {
+    world: { ...world, platforms },
+    x: clamp(headX, 0, WORLD_WIDTH - BIRD_SIZE),
+    y: clamp(headY, 0, WORLD_HEIGHT - BIRD_SIZE)
+  };
+};
+
+export const isExitOpen = (world: PortalWorld | null) => !world || world.keys.every(key => key.collected);
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { BASE_TICK, MAGNET_PULL, MAX_POWER_UP_STACK, POWER_UP_DURATIONS } from "./constants";
+import { activatePowerUp, tickPowerUps } from "./power-ups";
+import { frog, pipe, startRun, tick } from "./test-fixtures";
+import type { Enemy, GameEvent, GameState, Obstacle } from "./types";
+
+// Something that hurts the head at (200, 250) on the next tick
+const blockingPipe = pipe(190, { topHeight: 300 });
+const mine: Obstacle = { kind: 'mine', id: 'mine', x: 200, y: 265, baseY: 265, phase: 0, passed: false };
+const divingHawk: Enemy = { kind: 'hawk', id: 'hawk', x: 215, y: 265, vx: 0, vy: 0, timer: 0, targetX: 215, targetY: 265, mode: 'diving' };
+
+describe('power-ups', () => {
+  it('stack durations up to the limit when picked up again', () => {
+    const once = activatePowerUp({ magnet: 1 }, 'shield');
+    expect(once).toEqual({ magnet: 1, shield: POWER_UP_DURATIONS.shield });
+    expect(activatePowerUp(once, 'shield').shield).toBe(POWER_UP_DURATIONS.shield * 2);
+    const capped = activatePowerUp(activatePowerUp(activatePowerUp(once, 'shield'), 'shield'), 'shield');
+    expect(capped.shield).toBe(POWER_UP_DURATIONS.shield * MAX_POWER_UP_STACK);
+  });
+
+  it('add to the running time when collected during a run', () => {
+    const state = tick(startRun({
+      activePowerUps: { slowTime: 3 },
+      powerUps: [{ type: 'slowTime', x: 200, y: 250, id: 'power-up', timeLeft: 5 }]
+    }));
+    expect(state.activePowerUps.slowTime).toBeCloseTo(3 - BASE_TICK + POWER_UP_DURATIONS.slowTime);
+    expect(state.powerUps).toEqual([]);
+    expect(state.events).toContainEqual({ type: 'powerUpCollected', powerUpId: 'power-up', powerUp: 'slowTime' });
+  });
+
+  it('run out and report it', () => {
+    expect(tickPowerUps({ shrink: BASE_TICK / 2, magnet: 1 }, BASE_TICK)).toEqual({
+      active: { magnet: 1 - BASE_TICK },
+      expired: ['shrink']
+    });
+  });
+
+  it.each<[string, Partial<GameState>, GameEvent]>([
+    ['a pipe', { pipes: [blockingPipe] }, { type: 'gameOver', reason: 'pipe' }],
+    ['an obstacle', { obstacles: [mine] }, { type: 'gameOver', reason: 'obstacle' }],
+    ['an enemy', { enemies: [divingHawk] }, { type: 'enemyHit', enemyId: 'hawk', kind: 'hawk' }]
+  ])('shield the snake from exactly one hit by %s', (_, hazard, unshielded) => {
+    const saved = tick(startRun({ coins: 10, bodyLength: 5, activePowerUps: { shield: 5 }, ...hazard }));
+    expect(saved.gameOver).toBe(false);
+    expect(saved.events).toContainEqual({ type: 'shieldBroken' });
+    expect(saved.activePowerUps.shield).toBeUndefined();
+    expect(saved.coins).toBe(10);
+    expect(saved.bodyLength).toBe(5);
+    expect(saved.isInvincible).toBe(true);
+
+    const hitAgain = tick({ ...saved, ...hazard, isInvincible: false, invincibilityTimer: 0 });
+    expect(hitAgain.events).toContainEqual(unshielded);
+    expect(hitAgain.events).not.toContainEqual({ type: 'shieldBroken' });
+  });
+
+  it('still absorb only one hit when stacked', () => {
+    const saved = tick(startRun({ pipes: [blockingPipe], activePowerUps: { shield: POWER_UP_DURATIONS.shield * 2 } }));
+    expect(saved.activePowerUps.shield).toBeUndefined();
+    expect(tick({ ...saved, isInvincible: false, invincibilityTimer: 0 }).gameOver).toBe(true);
+  });
+
+  it('slow the pipes to half speed with slow time', () => {
+    const start = startRun();
+    const normal = start.pipes[0].x - tick(start).pipes[0].x;
+    const slowed = start.pipes[0].x - tick(startRun({ activePowerUps: { slowTime: 5 } })).pipes[0].x;
+    expect(slowed).toBeCloseTo(normal / 2);
+  });
+
+  it('pull in only good frogs with the magnet', () => {
+    const frogs = [frog(300, 250, { id: 'good' }), frog(200, 350, { id: 'bad', variety: 'bad' })];
+    const pulled = tick(startRun({ mainWorldFrogs: frogs, activePowerUps: { magnet: 5 } })).mainWorldFrogs;
+    expect(pulled[0].x).toBeCloseTo(300 - MAGNET_PULL);
+    expect(pulled[1]).toMatchObject({ x: 200, y: 350 });
+
+    const unpulled = tick(startRun({ mainWorldFrogs: frogs })).mainWorldFrogs;
+    expect(unpulled[0]).toMatchObject({ x: 300, y: 250 });
+  });
+
+  it('double the coins from pipes and frogs, but not the cost of bad frogs', () => {
+    const doubled = { doublePoints: 5 };
+    expect(tick(startRun({ pipes: [pipe(130)], activePowerUps: doubled })).coins).toBe(2);
+    expect(tick(startRun({ mainWorldFrogs: [frog(200, 250)], activePowerUps: doubled })).coins).toBe(4);
+    expect(tick(startRun({ coins: 20, mainWorldFrogs: [frog(200, 250, { variety: 'bad' })], activePowerUps: doubled })).coins).toBe(10);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  MAX_POWER_UP_STACK,
+  POWER_UP_DURATIONS,
+  POWER_UP_LIFETIME,
+  WORLD_HEIGHT,
+  WORLD_WIDTH
+} from "./constants";
+import type { Random } from "./rng";
+import type { ActivePowerUps, GameState, PowerUp, PowerUpType } from "./types";
+
+export const POWER_UP_TYPES: PowerUpType[] = ['shrink', 'magnet', 'slowTime', 'shield', 'doublePoints'];
+
+export const POWER_UP_INFO: Record<PowerUpType, { icon: string; label: string; description: string }> = {
+  shrink: { icon: '🤏', label: 'Shrink', description: 'Smaller hitbox' },
+  magnet: { icon: '🧲', label: 'Magnet', description: 'Pulls in nearby good frogs' },
+  slowTime: { icon: '⏳', label: 'Slow time', description: 'Pipes move at half speed' },
+  shield: { icon: '🛡️', label: 'Shield', description: 'Absorbs one hit' },
+  doublePoints: { icon: '⭐', label: 'Double points', description: 'Every point counts twice' }
+};
+
+const pickPowerUpType = (random: Random, weights: Record<PowerUpType, number>) => {
+  const totalWeight = POWER_UP_TYPES.reduce((sum, type) => sum + weights[type], 0);
+  let roll = random() * totalWeight;
+  return POWER_UP_TYPES.find(type => (roll -= weights[type]) < 0) ?? POWER_UP_TYPES[POWER_UP_TYPES.length - 1];
+};
+
+// Place a random power-up, like a frog, somewhere on the playfield. The
+// stage's weights decide which type it is.
+export const generatePowerUp = (random: Random, id: string, weights: Record<PowerUpType, number>): PowerUp => ({
+  type: pickPowerUpType(random, weights),
+  x: random() * (WORLD_WIDTH - 60) + 30,
+  y: random() * (WORLD_HEIGHT - 100) + 50,
+  id,
+  timeLeft: POWER_UP_LIFETIME
+});
+
+export const isPowerUpActive = (state: GameState, type: PowerUpType) => (state.activePowerUps[type] ?? 0) > 0;
+
+// Different power-ups run side by side. Picking up one that is already
+// running adds its duration instead, up to MAX_POWER_UP_STACK durations; a
+// stacked shield still absorbs only one hit.
+export const activatePowerUp = (active: ActivePowerUps, type: PowerUpType): ActivePowerUps => ({
+  ...active,
+  [type]: Math.min(POWER_UP_DURATIONS[type] * MAX_POWER_UP_STACK, (active[type] ?? 0) + POWER_UP_DURATIONS[type])
+});
+
+// Count every running power-up down, dropping the ones that run out
+export const tickPowerUps = (active: ActivePowerUps, dt: number) => {
+  const remaining: ActivePowerUps = {};
+  const expired: PowerUpType[] = [];
+  for (const type of POWER_UP_TYPES) {
+    const timeLeft = active[type];
+    if (timeLeft === undefined) continue;
+    if (timeLeft > dt) {
+      remaining[type] = timeLeft - dt;
+    } else {
+      expired.push(type);
+    }
+  }
+  return { active: remaining, expired };
+};
@@ -0,0 +1,27 @@
+// A family of definitions (portal games, obstacles, enemies, bosses) looked
+// up by the kind of state they drive. `all` keeps the order they were listed
+// in, which the family's spawn rolls go by.
+export interface Registry<Kind extends string, Def extends { kind: Kind }> {
+  all: readonly Def[];
+  // Throws for a kind nobody registered
+  get: (kind: Kind) => Def;
+}
+
+// Definitions declare their callbacks as methods, so one written for a single
+// kind's state is accepted where the family's definition is expected
+export const createRegistry = <Kind extends string, Def extends { kind: Kind }>(
+  family: string,
+  definitions: readonly Def[]
+): Registry<Kind, Def> => {
+  const byKind = new Map<Kind, Def>(definitions.map(definition => [definition.kind, definition]));
+  return {
+    all: definitions,
+    get: kind => {
+      const definition = byKind.get(kind);
+      if (!definition) {
+        throw new Error(`Unknown ${family}: ${kind}`);
+      }
+      return definition;
+    }
+  };
+};
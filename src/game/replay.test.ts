@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { BASE_TICK, PIPE_WIDTH, PORTAL_CONTINUE } from "./constants";
+import {
+  compressInputs,
+  createReplay,
+  createReplayPlayer,
+  createReplayStartState,
+  decodeInputFrame,
+  encodeInputFrame,
+  expandInputs,
+  parseReplay,
+  serializeReplay
+} from "./replay";
+import { step } from "./step";
+import type { GameState, InputFrame } from "./types";
+import { verifyReplay } from "./verify";
+
+// Steer through the middle of each pipe gap, head for the exit in a portal
+// world and play whatever portal game comes up, recording the input masks
+// the way the live game does
+const playRun = (seed: number) => {
+  let state: GameState = createReplayStartState({ seed, difficulty: 'normal' });
+  const masks: number[] = [];
+
+  for (let tick = 0; !state.gameOver && tick < 20000; tick++) {
+    let input: InputFrame;
+    if (state.showPortalGame && state.portalGame) {
+      input = { ...decodeInputFrame(0), portalAction: state.portalGame.result !== null ? PORTAL_CONTINUE : tick % 5 };
+    } else {
+      const pipe = state.pipes.find(candidate => candidate.x + PIPE_WIDTH > state.birdX);
+      const target = state.inSpecialWorld && state.portalExit
+        ? state.portalExit
+        : { x: state.birdX, y: pipe ? pipe.topHeight + pipe.gap / 2 - 15 : 250 };
+      input = decodeInputFrame(
+        (state.birdY > target.y + 3 ? 1 : state.birdY < target.y - 3 ? 2 : 0) |
+        (state.birdX > target.x + 3 ? 4 : state.birdX < target.x - 3 ? 8 : 0)
+      );
+    }
+    masks.push(encodeInputFrame(input));
+    state = step(state, input, BASE_TICK);
+  }
+
+  return { state, masks };
+};
+
+describe('input frames', () => {
+  it('decode to the input they were encoded from', () => {
+    const inputs: InputFrame[] = [
+      { up: true, down: false, left: false, right: true },
+      { up: false, down: true, left: true, right: false },
+      { up: false, down: false, left: false, right: false, portalAction: 0 },
+      { up: false, down: false, left: false, right: false, portalAction: 4 },
+      { up: false, down: false, left: false, right: false, portalAction: PORTAL_CONTINUE }
+    ];
+    for (const input of inputs) {
+      expect(decodeInputFrame(encodeInputFrame(input))).toEqual(input);
+    }
+  });
+
+  it('run-length encode without losing ticks', () => {
+    const masks = [0, 0, 0, 1, 1, 0, 9, 2, 2, 2];
+    expect(compressInputs(masks)).toEqual([0, 3, 1, 2, 0, 1, 9, 1, 2, 3]);
+    expect(expandInputs(compressInputs(masks))).toEqual(masks);
+  });
+});
+
+describe('replays', () => {
+  const { state, masks } = playRun(3);
+  const replay = createReplay(state, masks, state.coins);
+
+  it('survive saving and loading', () => {
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it('play back to the recorded run', () => {
+    const player = createReplayPlayer(parseReplay(serializeReplay(replay)));
+    const end = player.stateAt(player.tickCount);
+    expect(end.gameOver).toBe(true);
+    expect(end.coins).toBe(state.coins);
+    expect(player.stateAt(100)).toEqual(player.stateAt(100));
+  });
+
+  it('verify as the run they recorded, portal game moves included', () => {
+    expect(masks.some(mask => mask >> 12 !== 0)).toBe(true);
+    const result = verifyReplay(parseReplay(serializeReplay(replay)));
+    expect(result.valid).toBe(true);
+    if (result.valid) expect(result.state.coins).toBe(state.coins);
+  });
+
+  it('fail verification when the score was changed', () => {
+    expect(verifyReplay({ ...replay, score: replay.score + 1 })).toEqual({
+      valid: false,
+      reason: `Claimed score ${replay.score + 1} does not match simulated score ${replay.score}`
+    });
+  });
+
+  it('fail verification when the inputs were cut short', () => {
+    expect(verifyReplay({ ...replay, inputs: compressInputs(masks.slice(0, -1)) }).valid).toBe(false);
+  });
+
+  it('are rejected when recorded by another version', () => {
+    const text = JSON.stringify({ ...replay, version: replay.version + 1 });
+    expect(() => parseReplay(text)).toThrow(`Unsupported replay version: ${replay.version + 1}`);
+  });
+});
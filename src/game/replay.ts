@@ -0,0 +1,201 @@
+import { BASE_TICK, CLASSIC_SNAKE_RULES, PORTAL_CONTINUE } from "./constants";
+import { DIFFICULTIES, isGameRules } from "./rules";
+import { createInitialState } from "./state";
+import { step } from "./step";
+import { ANALOG_LEVELS } from "./input";
+import type { Difficulty, GameRules, GameState, InputFrame, PortalAction, SnakeRules } from "./types";
+
+// Bumped whenever a rules change means older runs no longer re-simulate to
+// the same result: 2 added portal game decisions, 3 added power-ups, 4 added
+// stages, 5 added obstacles, 6 added enemies, 7 added frog varieties, 8 added
+// portal world layouts, 9 added bosses, 10 stopped frogs at portal world walls,
+// 11 recorded portal game moves by their place in each game's list, 12 closed
+// the bottom of mazes
+export const REPLAY_VERSION = 12;
+
+// Everything needed to re-simulate a run: the seed and rules plus one
+// input per tick. Inputs are run-length encoded as flat
+// [mask, count, mask, count, ...] pairs.
+export interface Replay {
+  version: number;
+  seed: number;
+  // Missing from replays recorded before difficulties existed, which were 'normal'
+  difficulty?: Difficulty;
+  // Only custom runs carry their rules; presets are looked up by name
+  rules?: GameRules;
+  // Missing when the run used the classic, head-only collisions
+  snakeRules?: SnakeRules;
+  inputs: number[];
+  score: number;
+}
+
+// Ticks between cached states when seeking through a replay
+const CHECKPOINT_INTERVAL = 300;
+
+// Bits 0-3 hold the directions. Bits 4-7 and 8-11 hold how many analog
+// levels short of full speed the x and y axes are, so digital input (and
+// every replay recorded before analog input existed) keeps them at zero.
+// Bits 12-15 hold the portal game decision made on that tick, if any.
+export const MAX_INPUT_MASK = 0xffff;
+
+const encodeStrength = (strength = 1) => ANALOG_LEVELS - Math.round(strength * ANALOG_LEVELS);
+
+// 0 is no decision and 1 is PORTAL_CONTINUE; a game's moves take the codes
+// from 2 upwards, in the order its definition lists them
+const CONTINUE_CODE = 1;
+const MOVE_CODE = 2;
+
+const encodePortalAction = (action?: PortalAction) => {
+  if (action === undefined) return 0;
+  return action === PORTAL_CONTINUE ? CONTINUE_CODE : MOVE_CODE + action;
+};
+
+const decodePortalAction = (code: number): PortalAction | undefined => {
+  if (code === 0) return undefined;
+  return code === CONTINUE_CODE ? PORTAL_CONTINUE : code - MOVE_CODE;
+};
+
+export const encodeInputFrame = (input: InputFrame) =>
+  (input.up ? 1 : 0) | (input.down ? 2 : 0) | (input.left ? 4 : 0) | (input.right ? 8 : 0) |
+  (encodeStrength(input.xStrength) << 4) | (encodeStrength(input.yStrength) << 8) |
+  (encodePortalAction(input.portalAction) << 12);
+
+export const decodeInputFrame = (mask: number): InputFrame => {
+  const input: InputFrame = {
+    up: (mask & 1) !== 0,
+    down: (mask & 2) !== 0,
+    left: (mask & 4) !== 0,
+    right: (mask & 8) !== 0
+  };
+  const xReduction = (mask >> 4) & 0xf;
+  const yReduction = (mask >> 8) & 0xf;
+  if (xReduction > 0) input.xStrength = (ANALOG_LEVELS - xReduction) / ANALOG_LEVELS;
+  if (yReduction > 0) input.yStrength = (ANALOG_LEVELS - yReduction) / ANALOG_LEVELS;
+  const portalAction = decodePortalAction((mask >> 12) & 0xf);
+  if (portalAction !== undefined) input.portalAction = portalAction;
+  return input;
+};
+
+export const compressInputs = (masks: number[]) => {
+  const runs: number[] = [];
+  for (const mask of masks) {
+    if (runs.length > 0 && runs[runs.length - 2] === mask) {
+      runs[runs.length - 1] += 1;
+    } else {
+      runs.push(mask, 1);
+    }
+  }
+  return runs;
+};
+
+export const expandInputs = (runs: number[]) => {
+  const masks: number[] = [];
+  for (let i = 0; i < runs.length; i += 2) {
+    for (let j = 0; j < runs[i + 1]; j++) {
+      masks.push(runs[i]);
+    }
+  }
+  return masks;
+};
+
+// Record a run that started from `run`'s seed and rules
+export const createReplay = (
+  run: Pick<GameState, 'seed' | 'difficulty' | 'rules' | 'snakeRules'>,
+  masks: number[],
+  score: number
+): Replay => ({
+  version: REPLAY_VERSION,
+  seed: run.seed,
+  difficulty: run.difficulty,
+  rules: run.difficulty === 'custom' ? run.rules : undefined,
+  snakeRules: run.snakeRules,
+  inputs: compressInputs(masks),
+  score
+});
+
+// State at tick 0: what the live game looks like after the first key press
+export const createReplayStartState = (
+  replay: Pick<Replay, 'seed' | 'difficulty' | 'rules' | 'snakeRules'>
+): GameState => ({
+  ...createInitialState(replay.seed, replay.difficulty ?? 'normal', replay.snakeRules ?? CLASSIC_SNAKE_RULES, replay.rules),
+  gameStarted: true
+});
+
+const isSnakeRules = (value: unknown): value is SnakeRules =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as SnakeRules).bodyCollision === 'boolean' &&
+  typeof (value as SnakeRules).selfCollision === 'boolean';
+
+export const serializeReplay = (replay: Replay) => btoa(JSON.stringify(replay));
+
+// Accepts both the base64 file format and plain JSON
+export const parseReplay = (text: string): Replay => {
+  const trimmed = text.trim();
+  let data: Partial<Replay>;
+
+  try {
+    data = JSON.parse(trimmed.startsWith('{') ? trimmed : atob(trimmed));
+  } catch {
+    throw new Error('Replay file is not valid JSON or base64');
+  }
+
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (!Number.isInteger(data.seed) || !Array.isArray(data.inputs) || data.inputs.length % 2 !== 0 ||
+      !data.inputs.every(value => Number.isInteger(value) && value >= 0)) {
+    throw new Error('Replay file is malformed');
+  }
+  if (data.difficulty !== undefined && !(DIFFICULTIES as readonly string[]).includes(data.difficulty)) {
+    throw new Error(`Unknown difficulty: ${data.difficulty}`);
+  }
+  if (data.difficulty === 'custom' && !isGameRules(data.rules)) {
+    throw new Error('Replay custom rules are missing or out of range');
+  }
+  if (data.snakeRules !== undefined && !isSnakeRules(data.snakeRules)) {
+    throw new Error('Replay snake rules are malformed');
+  }
+
+  return {
+    version: data.version,
+    seed: data.seed >>> 0,
+    difficulty: data.difficulty ?? 'normal',
+    rules: data.difficulty === 'custom' ? data.rules : undefined,
+    snakeRules: data.snakeRules ?? CLASSIC_SNAKE_RULES,
+    inputs: data.inputs,
+    score: data.score ?? 0
+  };
+};
+
+export interface ReplayPlayer {
+  replay: Replay;
+  tickCount: number;
+  inputAt: (tick: number) => InputFrame;
+  // State after `tick` inputs have been applied
+  stateAt: (tick: number) => GameState;
+}
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const masks = expandInputs(replay.inputs);
+  const checkpoints: GameState[] = [createReplayStartState(replay)];
+
+  const inputAt = (tick: number) => decodeInputFrame(masks[tick] ?? 0);
+
+  const stateAt = (tick: number) => {
+    const target = Math.max(0, Math.min(masks.length, tick));
+    let index = Math.min(Math.floor(target / CHECKPOINT_INTERVAL), checkpoints.length - 1);
+    let state = checkpoints[index];
+
+    for (let current = index * CHECKPOINT_INTERVAL; current < target; current++) {
+      state = step(state, inputAt(current), BASE_TICK);
+      if ((current + 1) % CHECKPOINT_INTERVAL === 0 && checkpoints.length === index + 1) {
+        checkpoints.push(state);
+        index += 1;
+      }
+    }
+
+    return state;
+  };
+
+  return { replay, tickCount: masks.length, inputAt, stateAt };
+};
@@ -0,0 +1,30 @@
+export type Random = () => number;
+
+// Pick a fresh seed for a run; the only non-deterministic call in the game
+export const createSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// mulberry32: returns a value in [0, 1) and the advanced generator state
+export const nextRandom = (rngState: number): [number, number] => {
+  const state = (rngState + 0x6d2b79f5) | 0;
+  let t = state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 0x100000000, state];
+};
+
+// Random source that draws from, and advances, the generator state on `holder`
+export const createRandom = (holder: { rngState: number }): Random => () => {
+  const [value, rngState] = nextRandom(holder.rngState);
+  holder.rngState = rngState;
+  return value;
+};
+
+// Fisher-Yates shuffle into a new array
+export const shuffle = <T>(items: T[], random: Random) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
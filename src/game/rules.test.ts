@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { DIFFICULTIES, NORMAL_RULES, RULE_FIELDS, RULE_KEYS, RULE_PRESETS, getGameRules, getRulesId, isGameRules } from "./rules";
+
+describe('rules ids', () => {
+  it('name each preset after its difficulty', () => {
+    for (const difficulty of DIFFICULTIES.filter(difficulty => difficulty !== 'custom')) {
+      expect(getRulesId(difficulty, RULE_PRESETS[difficulty])).toBe(difficulty);
+    }
+  });
+
+  it('name custom rules by a hash that stays the same from release to release', () => {
+    // Stored scores are grouped by this id, so it must never drift
+    expect(getRulesId('custom', NORMAL_RULES)).toBe('custom-fa3cb8b6');
+    expect(getRulesId('custom', { ...NORMAL_RULES })).toBe(getRulesId('custom', NORMAL_RULES));
+  });
+
+  it.each(RULE_KEYS)('give custom rules a new id when %s changes', key => {
+    const changed = { ...NORMAL_RULES, [key]: NORMAL_RULES[key] + RULE_FIELDS[key].step };
+    expect(getRulesId('custom', changed)).not.toBe(getRulesId('custom', NORMAL_RULES));
+  });
+});
+
+describe('isGameRules', () => {
+  it('accepts every preset', () => {
+    for (const rules of Object.values(RULE_PRESETS)) {
+      expect(isGameRules(rules)).toBe(true);
+    }
+  });
+
+  it.each([
+    ['nothing', null],
+    ['a number', 7],
+    ['a missing rule', { ...NORMAL_RULES, pipeSpeed: undefined }],
+    ['a rule that is not a number', { ...NORMAL_RULES, pipeSpeed: '2' }],
+    ['a rule that is not a number at all', { ...NORMAL_RULES, pipeSpeed: NaN }],
+    ['a rule below its limit', { ...NORMAL_RULES, pipeSpeed: RULE_FIELDS.pipeSpeed.min - 0.1 }],
+    ['a rule above its limit', { ...NORMAL_RULES, portalTimeLimit: RULE_FIELDS.portalTimeLimit.max + 1 }]
+  ])('rejects %s', (_, value) => {
+    expect(isGameRules(value)).toBe(false);
+  });
+
+  it('only uses custom rules for the custom difficulty', () => {
+    const custom = { ...NORMAL_RULES, pipeSpeed: 5 };
+    expect(getGameRules('custom', custom)).toBe(custom);
+    expect(getGameRules('hard', custom)).toBe(RULE_PRESETS.hard);
+  });
+});
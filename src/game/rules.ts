@@ -0,0 +1,113 @@
+import type { Difficulty, GameRules, SnakeRules } from "./types";
+
+export const DIFFICULTIES = ['easy', 'normal', 'hard', 'insane', 'custom'] as const satisfies readonly Difficulty[];
+
+export type RulesPreset = Exclude<Difficulty, 'custom'>;
+
+export const NORMAL_RULES: GameRules = {
+  initialPipeGap: 250,
+  minPipeGap: 120,
+  pipeGapStep: 15,
+  pipeSpeed: 2,
+  specialPipeChance: 0.2,
+  minPortalDistance: 300, // 5 pipes worth of distance
+  portalTimeLimit: 10,
+  mainBadFrogChance: 0.15,
+  portalBadFrogChance: 0.2,
+  advancedLevelCoins: 100
+};
+
+// Easy and hard are normal scaled: gaps by 1.2 and 0.85, pipe speed by 0.75
+// and 1.3, portal time by 1.5 and 0.75
+export const RULE_PRESETS: Record<RulesPreset, GameRules> = {
+  easy: {
+    ...NORMAL_RULES,
+    initialPipeGap: 300,
+    minPipeGap: 144,
+    pipeGapStep: 18,
+    pipeSpeed: 1.5,
+    portalTimeLimit: 15
+  },
+  normal: NORMAL_RULES,
+  hard: {
+    ...NORMAL_RULES,
+    initialPipeGap: 212.5,
+    minPipeGap: 102,
+    pipeGapStep: 12.75,
+    pipeSpeed: 2.6,
+    portalTimeLimit: 7.5
+  },
+  insane: {
+    initialPipeGap: 190,
+    minPipeGap: 90,
+    pipeGapStep: 15,
+    pipeSpeed: 3.2,
+    specialPipeChance: 0.25,
+    minPortalDistance: 300,
+    portalTimeLimit: 6,
+    mainBadFrogChance: 0.25,
+    portalBadFrogChance: 0.3,
+    advancedLevelCoins: 50
+  }
+};
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  normal: 'Normal',
+  hard: 'Hard',
+  insane: 'Insane',
+  custom: 'Custom'
+};
+
+// What custom rules may be set to, and how the settings page shows them
+export const RULE_FIELDS: Record<keyof GameRules, { label: string; min: number; max: number; step: number }> = {
+  initialPipeGap: { label: 'Starting pipe gap', min: 80, max: 400, step: 5 },
+  minPipeGap: { label: 'Narrowest pipe gap', min: 60, max: 400, step: 5 },
+  pipeGapStep: { label: 'Gap narrowing per 10 coins', min: 0, max: 50, step: 1 },
+  pipeSpeed: { label: 'Pipe speed', min: 0.5, max: 6, step: 0.1 },
+  specialPipeChance: { label: 'Portal chance', min: 0, max: 1, step: 0.05 },
+  minPortalDistance: { label: 'Distance between portals', min: 0, max: 2000, step: 50 },
+  portalTimeLimit: { label: 'Portal time limit (s)', min: 3, max: 60, step: 1 },
+  mainBadFrogChance: { label: 'Bad frogs in the main world', min: 0, max: 1, step: 0.05 },
+  portalBadFrogChance: { label: 'Bad frogs in portal worlds', min: 0, max: 1, step: 0.05 },
+  advancedLevelCoins: { label: 'Coins for the advanced level', min: 0, max: 1000, step: 10 }
+};
+
+export const RULE_KEYS = Object.keys(RULE_FIELDS) as (keyof GameRules)[];
+
+// A complete rules object with every value inside its limits
+export const isGameRules = (value: unknown): value is GameRules =>
+  typeof value === 'object' && value !== null && RULE_KEYS.every(key => {
+    const field = (value as GameRules)[key];
+    return typeof field === 'number' && field >= RULE_FIELDS[key].min && field <= RULE_FIELDS[key].max;
+  });
+
+// The rules a run plays by: the preset's, or the player's own for custom
+export const getGameRules = (difficulty: Difficulty, customRules: GameRules = NORMAL_RULES): GameRules =>
+  difficulty === 'custom' ? customRules : RULE_PRESETS[difficulty];
+
+// FNV-1a over every rule value, in RULE_KEYS order
+const hashRules = (rules: GameRules) => {
+  let hash = 0x811c9dc5;
+  for (const char of RULE_KEYS.map(key => rules[key]).join(',')) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Names the rules a run was played on, so scores only compare like for like:
+// a preset goes by its name, custom rules by a hash of their values so two
+// custom runs only share a board when every rule matches
+export const getRulesId = (difficulty: Difficulty, rules: GameRules) =>
+  difficulty === 'custom' ? `custom-${hashRules(rules)}` : difficulty;
+
+export type SnakeRulesId = 'classic' | 'trueSnake' | 'selfCollision';
+
+export const getSnakeRulesId = ({ bodyCollision, selfCollision }: SnakeRules): SnakeRulesId =>
+  !bodyCollision ? 'classic' : selfCollision ? 'selfCollision' : 'trueSnake';
+
+export const SNAKE_RULES_LABELS: Record<SnakeRulesId, string> = {
+  classic: 'Classic snake',
+  trueSnake: 'True snake',
+  selfCollision: 'True snake, self-collision'
+};
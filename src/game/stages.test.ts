@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { PIPE_SPACING, WORLD_WIDTH } from "./constants";
+import { RULE_PRESETS } from "./rules";
+import { STAGES, getStageIndex } from "./stages";
+import { pipe, startRun, tick } from "./test-fixtures";
+
+// A run at `stage` whose line of pipes is due a new slot on the next tick
+const dueNewSlot = (stage: number, seed: number) =>
+  startRun({ stage, rngState: seed, pipes: [pipe(WORLD_WIDTH - PIPE_SPACING - 100)] });
+
+describe('stages', () => {
+  it.each(STAGES.slice(1).map((stage, index) => [stage.name, index + 1]))('start %s at its threshold', (_, index) => {
+    const { advancedLevelCoins } = RULE_PRESETS.normal;
+    const coins = Math.ceil(STAGES[index].threshold * advancedLevelCoins);
+    expect(getStageIndex(coins, RULE_PRESETS.normal)).toBe(index);
+    expect(getStageIndex(coins - 1, RULE_PRESETS.normal)).toBe(index - 1);
+  });
+
+  it('scale their thresholds with the rule set', () => {
+    expect(getStageIndex(50, RULE_PRESETS.normal)).toBe(2);
+    expect(getStageIndex(50, RULE_PRESETS.insane)).toBe(4);
+  });
+
+  it('report each stage reached once, and keep it when coins are lost', () => {
+    const reached = tick(startRun({ coins: 20 }));
+    expect(reached.stage).toBe(1);
+    expect(reached.events).toContainEqual({ type: 'stageReached', stage: 1 });
+    expect(reached.stageBannerTimer).toBeGreaterThan(0);
+
+    const after = tick(reached);
+    expect(after.events.filter(event => event.type === 'stageReached')).toEqual([]);
+    const poorer = tick({ ...after, coins: 0 });
+    expect(poorer.stage).toBe(1);
+    expect(poorer.events.filter(event => event.type === 'stageReached')).toEqual([]);
+  });
+
+  it('report every stage passed in one go when jumping ahead', () => {
+    const state = tick(startRun({ coins: 100 }));
+    expect(state.stage).toBe(4);
+    expect(state.events.filter(event => event.type === 'stageReached')).toEqual([{ type: 'stageReached', stage: 4 }]);
+  });
+
+  it('move the pipes at their own speed', () => {
+    const moved = (stage: number) => {
+      const state = startRun({ stage });
+      return state.pipes[0].x - tick(state).pipes[0].x;
+    };
+    const last = STAGES.length - 1;
+    expect(moved(last) / moved(0)).toBeCloseTo(STAGES[last].pipes.speed / STAGES[0].pipes.speed);
+  });
+
+  it('only make new pipes drift from the stage that turns drift on', () => {
+    const drifting = STAGES.findIndex(stage => stage.pipes.drift > 0);
+    const newPipe = (stage: number) => tick(dueNewSlot(stage, 1)).pipes.at(-1);
+    expect(newPipe(drifting - 1).yVelocity).toBe(0);
+    expect(newPipe(drifting).yVelocity).not.toBe(0);
+  });
+
+  it.each(STAGES.map((stage, index) => [stage.name, index]))('only place the obstacles %s lists', (_, index) => {
+    const kinds = new Set(Array.from({ length: 60 }, (__, seed) => tick(dueNewSlot(index, seed)).obstacles.map(obstacle => obstacle.kind)).flat());
+    const listed = Object.keys(STAGES[index].spawns.obstacles);
+    expect([...kinds].every(kind => listed.includes(kind))).toBe(true);
+    expect(kinds.size > 0).toBe(listed.length > 0);
+  });
+});
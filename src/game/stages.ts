@@ -0,0 +1,132 @@
+import type { EnemyKind, GameRules, ObstacleKind, PowerUpType, StageTheme } from "./types";
+
+export interface Stage {
+  name: string;
+  // Shown under the stage name in the banner and the help text
+  description: string;
+  // Entered at this share of the rule set's advancedLevelCoins, so the
+  // advanced level lines up with a stage whatever the rules
+  threshold: number;
+  theme: StageTheme;
+  pipes: {
+    // Top speed of the pipes' up and down drift, in pixels per tick; 0 holds them still
+    drift: number;
+    // Multiply the rule set's pipe speed and gaps
+    speed: number;
+    gap: number;
+  };
+  spawns: {
+    // Multiply the chances of a frog or power-up appearing, and of a
+    // main world frog being a bad one
+    frogs: number;
+    badFrogs: number;
+    powerUps: number;
+    // Relative odds of each power-up type turning up
+    powerUpWeights: Record<PowerUpType, number>;
+    // Chance of each obstacle kind turning up with a new pipe; pipe-shaped
+    // ones take the pipe's place. The chances add up to at most 1.
+    obstacles: Partial<Record<ObstacleKind, number>>;
+    // Chance per tick of each enemy kind turning up while none of it is
+    // about; bat swarms hunt in the portal worlds reached from this stage
+    enemies: Partial<Record<EnemyKind, number>>;
+  };
+}
+
+const EVEN_POWER_UPS: Record<PowerUpType, number> = { shrink: 1, magnet: 1, slowTime: 1, shield: 1, doublePoints: 1 };
+
+// Every stage of the main world, in the order they are reached. Later
+// stages escalate one step at a time instead of all at once.
+export const STAGES: Stage[] = [
+  {
+    name: 'Meadow',
+    description: 'Steady pipes and plenty of frogs.',
+    threshold: 0,
+    theme: 'meadow',
+    pipes: { drift: 0, speed: 1, gap: 1 },
+    spawns: { frogs: 1, badFrogs: 1, powerUps: 1, powerUpWeights: EVEN_POWER_UPS, obstacles: {}, enemies: {} }
+  },
+  {
+    name: 'Sunset Canyon',
+    description: 'The pipes pick up speed and more frogs turn bad.',
+    threshold: 0.2,
+    theme: 'sunset',
+    pipes: { drift: 0, speed: 1.05, gap: 1 },
+    spawns: {
+      frogs: 1,
+      badFrogs: 1.3,
+      powerUps: 1,
+      powerUpWeights: EVEN_POWER_UPS,
+      obstacles: { mine: 0.1, breakablePipe: 0.1 },
+      enemies: {}
+    }
+  },
+  {
+    name: 'Jungle',
+    description: 'Pipes start to sway, frogs breed fast and mongooses prowl.',
+    threshold: 0.4,
+    theme: 'jungle',
+    pipes: { drift: 0.4, speed: 1.05, gap: 1 },
+    spawns: {
+      frogs: 1.5,
+      badFrogs: 1.3,
+      powerUps: 1,
+      powerUpWeights: { ...EVEN_POWER_UPS, magnet: 2, doublePoints: 2 },
+      obstacles: { rotatingBar: 0.15, mine: 0.1, breakablePipe: 0.1 },
+      enemies: { mongoose: 0.002, batSwarm: 0.004 }
+    }
+  },
+  {
+    name: 'Twilight',
+    description: 'Hawks circle the swaying pipes; more power-ups help.',
+    threshold: 0.7,
+    theme: 'twilight',
+    pipes: { drift: 0.7, speed: 1.1, gap: 1 },
+    spawns: {
+      frogs: 1.2,
+      badFrogs: 1.5,
+      powerUps: 1.5,
+      powerUpWeights: { ...EVEN_POWER_UPS, shield: 2, slowTime: 2 },
+      obstacles: { rotatingBar: 0.1, closingGate: 0.15, mine: 0.1, laser: 0.1 },
+      enemies: { hawk: 0.002, mongoose: 0.002, batSwarm: 0.006 }
+    }
+  },
+  {
+    name: 'Inferno',
+    description: 'Advanced level: moving pipes activated!',
+    threshold: 1,
+    theme: 'inferno',
+    pipes: { drift: 1, speed: 1.1, gap: 1 },
+    spawns: {
+      frogs: 1.2,
+      badFrogs: 1.5,
+      powerUps: 1.5,
+      powerUpWeights: { ...EVEN_POWER_UPS, shield: 2, slowTime: 2 },
+      obstacles: { rotatingBar: 0.1, closingGate: 0.15, mine: 0.1, laser: 0.15, breakablePipe: 0.1 },
+      enemies: { hawk: 0.003, mongoose: 0.003, batSwarm: 0.008 }
+    }
+  },
+  {
+    name: 'Storm',
+    description: 'Wild pipes, narrower gaps and shields to spare.',
+    threshold: 1.5,
+    theme: 'storm',
+    pipes: { drift: 1.5, speed: 1.2, gap: 0.9 },
+    spawns: {
+      frogs: 1,
+      badFrogs: 2,
+      powerUps: 2,
+      powerUpWeights: { ...EVEN_POWER_UPS, shield: 3, slowTime: 2, doublePoints: 0 },
+      obstacles: { rotatingBar: 0.15, closingGate: 0.2, mine: 0.15, laser: 0.2, breakablePipe: 0.1 },
+      enemies: { hawk: 0.004, mongoose: 0.003, batSwarm: 0.01 }
+    }
+  }
+];
+
+// Index of the furthest stage `coins` reaches under `rules`
+export const getStageIndex = (coins: number, rules: GameRules) => {
+  let index = 0;
+  STAGES.forEach((stage, i) => {
+    if (coins >= stage.threshold * rules.advancedLevelCoins) index = i;
+  });
+  return index;
+};
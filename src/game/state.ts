@@ -0,0 +1,67 @@
+import { CLASSIC_SNAKE_RULES, WORLD_HEIGHT, WORLD_WIDTH } from "./constants";
+import { createRandom, createSeed } from "./rng";
+import { getGameRules } from "./rules";
+import { createIdSource, generateMainWorldFrogs } from "./world";
+import type { Difficulty, GameRules, GameState, SnakeRules } from "./types";
+
+// Fresh state for a new run, waiting for the first key press. Every random
+// choice in the run follows from `seed`; `customRules` only count when the
+// difficulty is 'custom'.
+export const createInitialState = (
+  seed = createSeed(),
+  difficulty: Difficulty = 'normal',
+  snakeRules: SnakeRules = CLASSIC_SNAKE_RULES,
+  customRules?: GameRules
+): GameState => {
+  const rules = getGameRules(difficulty, customRules);
+  const state: GameState = {
+    birdX: WORLD_WIDTH / 2,
+    birdY: WORLD_HEIGHT / 2,
+    birdDirection: { x: 0, y: 0 },
+    bodySegments: [],
+    pipes: [],
+    obstacles: [],
+    enemies: [],
+    coins: 0,
+    gameStarted: false,
+    gameOver: false,
+    gamePaused: false,
+    inSpecialWorld: false,
+    worldCoins: [],
+    mainWorldFrogs: [],
+    stage: 0,
+    stageBannerTimer: 0,
+    portalTimer: rules.portalTimeLimit,
+    portalExit: null,
+    portalWorld: null,
+    boss: null,
+    enteredPortal: null,
+    frogsEaten: 0,
+    bodyLength: 0,
+    isEating: false,
+    isBadFrogReaction: false,
+    reactionTimer: 0,
+    usedPortalIds: new Set(),
+    portalGame: null,
+    showPortalGame: false,
+    isInvincible: false,
+    invincibilityTimer: 0,
+    reversedControlsTimer: 0,
+    powerUps: [],
+    activePowerUps: {},
+    lastPortalX: -1000,
+    difficulty,
+    rules,
+    snakeRules,
+    isAdvancedLevel: false,
+    reachedAdvancedLevel: false,
+    elapsedTime: 0,
+    seed,
+    rngState: seed,
+    nextEntityId: 0,
+    events: []
+  };
+
+  state.mainWorldFrogs = generateMainWorldFrogs(createRandom(state), createIdSource(state), rules);
+  return state;
+};
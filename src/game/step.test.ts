@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { BASE_TICK } from "./constants";
+import { EMPTY_INPUT } from "./input";
+import { createInitialState } from "./state";
+import { step } from "./step";
+import { frog, pipe, startRun, tick } from "./test-fixtures";
+import type { GameState } from "./types";
+
+// Weave up and down from a fresh run, a third of a second each way
+const weave = (seed: number, ticks: number) => {
+  let state: GameState = { ...createInitialState(seed), gameStarted: true };
+  for (let count = 0; count < ticks && !state.gameOver; count++) {
+    const up = count % 40 < 20;
+    state = step(state, { ...EMPTY_INPUT, up, down: !up }, BASE_TICK);
+  }
+  return state;
+};
+
+describe('step', () => {
+  it('scores a pipe once, when the snake is past it', () => {
+    const passed = tick(startRun({ pipes: [pipe(130), pipe(380)] }));
+    expect(passed.coins).toBe(1);
+    expect(passed.events).toContainEqual({ type: 'pipePassed', pipeId: 'pipe-130', isSpecial: false });
+    expect(tick(passed).coins).toBe(1);
+  });
+
+  it('ends the run when the head hits a pipe', () => {
+    const state = tick(startRun({ pipes: [pipe(190, { topHeight: 300 })] }));
+    expect(state.gameOver).toBe(true);
+    expect(state.events).toContainEqual({ type: 'gameOver', reason: 'pipe' });
+  });
+
+  it('lets an invincible snake through pipes until its invincibility runs out', () => {
+    const state = tick(startRun({ pipes: [pipe(190, { topHeight: 300 })], isInvincible: true, invincibilityTimer: 1 }));
+    expect(state.gameOver).toBe(false);
+
+    const ended = tick(startRun({ isInvincible: true, invincibilityTimer: BASE_TICK / 2 }));
+    expect(ended.isInvincible).toBe(false);
+    expect(ended.events).toContainEqual({ type: 'invincibilityEnded' });
+  });
+
+  it('pays for good frogs and takes coins for bad ones, never below zero', () => {
+    const fed = tick(startRun({ mainWorldFrogs: [frog(200, 250)] }));
+    expect(fed.coins).toBe(2);
+    expect(fed.frogsEaten).toBe(1);
+    expect(fed.mainWorldFrogs[0].collected).toBe(true);
+
+    const poisoned = tick(startRun({ coins: 4, mainWorldFrogs: [frog(200, 250, { variety: 'bad' })] }));
+    expect(poisoned.coins).toBe(0);
+    expect(poisoned.frogsEaten).toBe(0);
+  });
+
+  it('ends the run when the portal world timer runs out', () => {
+    const state = tick(startRun({ inSpecialWorld: true, portalTimer: BASE_TICK / 2, portalExit: { x: 0, y: 0 } }));
+    expect(state.gameOver).toBe(true);
+    expect(state.events).toContainEqual({ type: 'gameOver', reason: 'portalTimeout' });
+  });
+
+  it('reaches the same state from the same seed and inputs', () => {
+    expect(weave(7, 600)).toEqual(weave(7, 600));
+  });
+
+  it('lays out a different course for a different seed', () => {
+    const pipeHeights = (state: GameState) => state.pipes.map(pipe => pipe.topHeight);
+    expect(pipeHeights(weave(1, 300))).not.toEqual(pipeHeights(weave(2, 300)));
+  });
+
+  it('leaves the state it was given untouched', () => {
+    const state = startRun({ pipes: [pipe(130), pipe(380)], mainWorldFrogs: [frog(200, 250)] });
+    const before = structuredClone(state);
+    tick(state);
+    expect(state).toEqual(before);
+  });
+
+  it('holds still while paused or before the first key press', () => {
+    const paused = startRun({ gamePaused: true });
+    expect(tick(paused)).toBe(paused);
+    const waiting = startRun({ gameStarted: false });
+    expect(tick(waiting)).toBe(waiting);
+  });
+});
+
+describe('true snake rules', () => {
+  // A straight tail trailing left from the head, along y = 250
+  const tail = [175, 150, 125, 100].map((x, index) => ({ x, y: 250, id: `segment-${index}` }));
+  // A tail curling round so its third segment is under the head
+  const curl = [{ x: 200, y: 275 }, { x: 175, y: 275 }, { x: 190, y: 258 }].map((segment, index) => ({ ...segment, id: `segment-${index}` }));
+
+  it('end the run when the body hits a pipe the head cleared, with body collision on', () => {
+    const behind = { pipes: [pipe(110, { topHeight: 260 })], bodySegments: tail, bodyLength: tail.length };
+    expect(tick(startRun(behind)).gameOver).toBe(false);
+
+    const state = tick(startRun({ ...behind, snakeRules: { bodyCollision: true, selfCollision: false } }));
+    expect(state.gameOver).toBe(true);
+    expect(state.events).toContainEqual({ type: 'gameOver', reason: 'pipe' });
+  });
+
+  it('end the run when the head bites the body, with self collision on', () => {
+    const curled = { bodySegments: curl, bodyLength: curl.length };
+    expect(tick(startRun(curled)).gameOver).toBe(false);
+
+    const selfCollision = { bodyCollision: false, selfCollision: true };
+    const state = tick(startRun({ ...curled, snakeRules: selfCollision }));
+    expect(state.gameOver).toBe(true);
+    expect(state.events).toContainEqual({ type: 'gameOver', reason: 'selfCollision' });
+
+    expect(tick(startRun({ bodySegments: tail, bodyLength: tail.length, snakeRules: selfCollision })).gameOver).toBe(false);
+    expect(tick(startRun({ ...curled, snakeRules: selfCollision, isInvincible: true, invincibilityTimer: 1 })).gameOver).toBe(false);
+  });
+});
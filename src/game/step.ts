@@ -0,0 +1,661 @@
+import {
+  BAD_FROG_REACTION,
+  BASE_TICK,
+  BIRD_SIZE,
+  BOSS_PORTAL_INTERVAL,
+  BOSS_TIME_MULTIPLIER,
+  DOUBLE_POINTS_MULTIPLIER,
+  ENEMY_BITE_COINS,
+  ENEMY_BITE_SEGMENTS,
+  FROG_SPAWN_CHANCE,
+  GOOD_FROG_REACTION,
+  INVINCIBILITY_DURATION,
+  MAGNET_PULL,
+  MAGNET_RADIUS,
+  MAX_BODY_SEGMENTS,
+  OBSTACLE_SMASH_POINTS,
+  MOVE_SPEED,
+  PIPE_SPACING,
+  PIPE_WIDTH,
+  PORTAL_CONTINUE,
+  POWER_UP_SPAWN_CHANCE,
+  SEGMENT_SIZE,
+  SELF_COLLISION_SKIP,
+  SHRINK_SCALE,
+  SLOW_TIME_FACTOR,
+  STAGE_BANNER_DURATION,
+  WORLD_HEIGHT,
+  WORLD_WIDTH
+} from "./constants";
+import { advanceBoss, biteBoss, bossHits, getBossDefinition, isBossExposed, isBossWarning, spawnBoss } from "./bosses";
+import { FROG_VARIETIES, POISON_DURATION, isBadFrog, moveFrogs, splitFrog } from "./frogs";
+import { advanceEnemy, enemyHits, isEnemyIn, isEnemyWarning, rollEnemies, spawnEnemy } from "./enemies";
+import {
+  advanceObstacle,
+  getObstacleDefinition,
+  getObstacleRight,
+  hitsPipeShape,
+  obstacleHits,
+  rollObstacle,
+  spawnObstacle
+} from "./obstacles";
+import { advancePortalGame, playPortalGame, startPortalGame } from "./portal-games";
+import { KEY_SIZE, advancePlatforms, generatePortalWorld, isExitOpen, moveThroughWorld } from "./portal-worlds";
+import { activatePowerUp, generatePowerUp, isPowerUpActive, tickPowerUps } from "./power-ups";
+import { createRandom, type Random } from "./rng";
+import { STAGES, getStageIndex } from "./stages";
+import {
+  createIdSource,
+  generateFrog,
+  generatePortalExit,
+  getCurrentPipeGap,
+  updateBodySegments,
+  type IdSource
+} from "./world";
+import type { BodySegment, Box, Enemy, Frog, GameEvent, GameOverReason, GameState, InputFrame, Pipe } from "./types";
+
+// Random and id sources bound to the state being built by the current step
+interface StepContext {
+  random: Random;
+  nextId: IdSource;
+}
+
+// Furthest the head can go while staying fully on the playfield
+const MAX_BIRD_X = WORLD_WIDTH - BIRD_SIZE;
+const MAX_BIRD_Y = WORLD_HEIGHT - BIRD_SIZE;
+// Where the snake lands in a boss arena, across from the boss
+const BOSS_ARENA_START = { x: 40, y: 150 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const distanceTo = (state: GameState, x: number, y: number) =>
+  Math.sqrt(Math.pow(state.birdX - x, 2) + Math.pow(state.birdY - y, 2));
+
+// Calculate snake direction based on pressed keys, scaled by how far an
+// analog stick is pushed. Poisoned snakes go the opposite way.
+const getDirection = (input: InputFrame, reversed: boolean) => {
+  const speedX = MOVE_SPEED * (input.xStrength ?? 1) * (reversed ? -1 : 1);
+  const speedY = MOVE_SPEED * (input.yStrength ?? 1) * (reversed ? -1 : 1);
+  let x = 0;
+  let y = 0;
+
+  if (input.up) y = -speedY;
+  if (input.down) y = speedY;
+  if (input.left) x = -speedX;
+  if (input.right) x = speedX;
+
+  return { x, y };
+};
+
+const endGame = (next: GameState, reason: GameOverReason) => {
+  if (next.gameOver) return;
+  next.gameOver = true;
+  next.events.push({ type: 'gameOver', reason });
+};
+
+// Points scored, doubled while double points is running. Penalties aren't.
+const awardPoints = (next: GameState, points: number) => {
+  next.coins += isPowerUpActive(next, 'doublePoints') ? points * DOUBLE_POINTS_MULTIPLIER : points;
+};
+
+// With the magnet running, good frogs within reach drift towards the head
+const attractFrogs = (next: GameState, frogs: Frog[], scale: number) => {
+  if (!isPowerUpActive(next, 'magnet')) return frogs;
+  return frogs.map(frog => {
+    const distance = distanceTo(next, frog.x, frog.y);
+    if (frog.collected || isBadFrog(frog) || distance >= MAGNET_RADIUS || distance === 0) return frog;
+    const pull = Math.min(distance, MAGNET_PULL * scale) / distance;
+    return { ...frog, x: frog.x + (next.birdX - frog.x) * pull, y: frog.y + (next.birdY - frog.y) * pull };
+  });
+};
+
+// Eat any frog under the snake's head, scoring and applying its variety's
+// effect. Splitting frogs leave two more behind.
+const collectFrogs = (next: GameState, frogs: Frog[], nextId: IdSource) => {
+  return frogs.flatMap(frog => {
+    if (frog.collected || distanceTo(next, frog.x, frog.y) >= 25) return [frog];
+    const { points, effect } = FROG_VARIETIES[frog.variety];
+
+    if (points < 0) {
+      // Bad frog - lose points and react
+      next.coins = Math.max(0, next.coins + points);
+      next.isBadFrogReaction = true;
+      next.reactionTimer = BAD_FROG_REACTION;
+    } else {
+      // Good frog - gain points and grow
+      awardPoints(next, points);
+      next.frogsEaten += 1;
+      next.bodyLength = Math.min(MAX_BODY_SEGMENTS, next.bodyLength + 1);
+      next.isBadFrogReaction = effect === 'reverseControls';
+      next.reactionTimer = effect === 'reverseControls' ? BAD_FROG_REACTION : GOOD_FROG_REACTION;
+    }
+    if (effect === 'reverseControls') {
+      next.reversedControlsTimer = POISON_DURATION;
+    }
+    next.isEating = true;
+    next.events.push({ type: 'frogEaten', frogId: frog.id, variety: frog.variety, inSpecialWorld: next.inSpecialWorld });
+
+    const eaten = { ...frog, collected: true };
+    if (effect !== 'split') return [eaten];
+    const prefix = next.inSpecialWorld ? 'frog' : 'main-frog';
+    return [eaten, ...splitFrog(frog, [nextId(prefix), nextId(prefix)])];
+  });
+};
+
+const segmentBox = (segment: BodySegment): Box => ({
+  left: segment.x,
+  right: segment.x + SEGMENT_SIZE,
+  top: segment.y,
+  bottom: segment.y + SEGMENT_SIZE
+});
+
+// Touching the pipe anywhere outside its gap
+const hitsPipe = (pipe: Pipe, box: Box) => hitsPipeShape(pipe.x, PIPE_WIDTH, pipe.topHeight, pipe.topHeight + pipe.gap, box);
+
+// Head against the body behind it, as circles so glancing corners don't count
+const bitesOwnBody = (state: GameState) => {
+  const headX = state.birdX + BIRD_SIZE / 2;
+  const headY = state.birdY + BIRD_SIZE / 2;
+  const reach = (BIRD_SIZE + SEGMENT_SIZE) / 2 * 0.8;
+  return state.bodySegments.slice(SELF_COLLISION_SKIP).some(segment =>
+    Math.hypot(segment.x + SEGMENT_SIZE / 2 - headX, segment.y + SEGMENT_SIZE / 2 - headY) < reach
+  );
+};
+
+const getPipeSpeed = (state: GameState) =>
+  state.rules.pipeSpeed * STAGES[state.stage].pipes.speed * (isPowerUpActive(state, 'slowTime') ? SLOW_TIME_FACTOR : 1);
+
+const randomDrift = (random: Random, drift: number) => (random() - 0.5) * 2 * drift;
+
+const movePipe = (pipe: Pipe, drift: number, speed: number, scale: number, random: Random): Pipe => {
+  const updatedPipe = { ...pipe, x: pipe.x - speed * scale };
+
+  // Later stages: pipes move up and down
+  if (drift > 0) {
+    if (!pipe.yVelocity) {
+      updatedPipe.yVelocity = randomDrift(random, drift);
+    }
+
+    const newTopHeight = pipe.topHeight + (updatedPipe.yVelocity || 0) * scale;
+    if (newTopHeight < 50 || newTopHeight > 250) {
+      updatedPipe.yVelocity = -(updatedPipe.yVelocity || 0);
+    } else {
+      updatedPipe.topHeight = newTopHeight;
+    }
+  }
+
+  return updatedPipe;
+};
+
+const spawnPipe = (next: GameState, gap: number, { random, nextId }: StepContext) => {
+  const { drift } = STAGES[next.stage].pipes;
+  const canBeSpecial = (WORLD_WIDTH - next.lastPortalX) >= next.rules.minPortalDistance;
+  const isSpecial = canBeSpecial && random() < next.rules.specialPipeChance;
+
+  next.pipes.push({
+    x: WORLD_WIDTH,
+    topHeight: random() * 200 + 50,
+    passed: false,
+    isSpecial,
+    gap,
+    id: nextId('pipe'),
+    yVelocity: drift > 0 ? randomDrift(random, drift) : 0
+  });
+
+  if (isSpecial) {
+    next.lastPortalX = WORLD_WIDTH;
+  }
+};
+
+// Fill the next slot in the line of pipes: a pipe, maybe with an obstacle in
+// the space after it, or a pipe-shaped obstacle in its place
+const spawnSlot = (next: GameState, context: StepContext) => {
+  const { random, nextId } = context;
+  const stage = STAGES[next.stage];
+  const gap = getCurrentPipeGap(next.coins, next.rules) * stage.pipes.gap;
+  const kind = rollObstacle(random, stage.spawns.obstacles);
+
+  if (kind && getObstacleDefinition(kind).pipeShaped) {
+    const slot = { left: WORLD_WIDTH, right: WORLD_WIDTH + PIPE_WIDTH, gap };
+    next.obstacles.push(spawnObstacle(kind, random, nextId('obstacle'), slot));
+    return;
+  }
+
+  spawnPipe(next, gap, context);
+  if (kind) {
+    const slot = { left: WORLD_WIDTH + PIPE_WIDTH, right: WORLD_WIDTH + PIPE_SPACING, gap };
+    next.obstacles.push(spawnObstacle(kind, random, nextId('obstacle'), slot));
+  }
+};
+
+// Left edge of the newest pipe or pipe-shaped obstacle
+const getLastSlotX = (state: GameState) => Math.max(
+  ...state.pipes.map(pipe => pipe.x),
+  ...state.obstacles.filter(obstacle => getObstacleDefinition(obstacle.kind).pipeShaped).map(obstacle => obstacle.x)
+);
+
+// A running shield breaks instead of the snake, leaving a moment to get clear
+const breakShield = (next: GameState) => {
+  if (!isPowerUpActive(next, 'shield')) return false;
+  delete next.activePowerUps.shield;
+  next.isInvincible = true;
+  next.invincibilityTimer = INVINCIBILITY_DURATION;
+  next.events.push({ type: 'shieldBroken' });
+  return true;
+};
+
+// Running into a pipe or obstacle
+const crash = (next: GameState, reason: GameOverReason) => {
+  if (!breakShield(next)) endGame(next, reason);
+};
+
+// An enemy or boss attack. A shield takes it like a crash; otherwise it
+// bites off part of the tail and some coins, reported as `hit`, then leaves a
+// moment to get clear. A snake with no tail left to lose is caught.
+const biteSnake = (next: GameState, hit: GameEvent) => {
+  if (breakShield(next)) return;
+  if (next.bodyLength === 0) {
+    endGame(next, 'enemy');
+    return;
+  }
+
+  next.bodyLength = Math.max(0, next.bodyLength - ENEMY_BITE_SEGMENTS);
+  next.bodySegments = next.bodySegments.slice(0, next.bodyLength);
+  next.coins = Math.max(0, next.coins - ENEMY_BITE_COINS);
+  next.isEating = false;
+  next.isBadFrogReaction = true;
+  next.reactionTimer = BAD_FROG_REACTION;
+  next.isInvincible = true;
+  next.invincibilityTimer = INVINCIBILITY_DURATION;
+  next.events.push(hit);
+};
+
+// Move the enemies hunting in `world` and let their attacks land on the
+// head, then roll for new ones. The other world's enemies wait as they are.
+const stepEnemies = (next: GameState, world: 'main' | 'portal', dt: number, { random, nextId }: StepContext) => {
+  const target = { x: next.birdX + BIRD_SIZE / 2, y: next.birdY + BIRD_SIZE / 2 };
+  const head: Box = { left: next.birdX, right: next.birdX + BIRD_SIZE, top: next.birdY, bottom: next.birdY + BIRD_SIZE };
+  const enemies: Enemy[] = [];
+
+  for (const enemy of next.enemies) {
+    if (!isEnemyIn(enemy, world)) {
+      enemies.push(enemy);
+      continue;
+    }
+    const moved = advanceEnemy(enemy, target, dt);
+    if (!moved) continue;
+    if (isEnemyWarning(moved) && !isEnemyWarning(enemy)) {
+      next.events.push({ type: 'enemyWarning', enemyId: moved.id, kind: moved.kind });
+    }
+    if (!next.isInvincible && !next.gameOver && enemyHits(moved, head)) {
+      biteSnake(next, { type: 'enemyHit', enemyId: moved.id, kind: moved.kind });
+    }
+    enemies.push(moved);
+  }
+
+  const chances = STAGES[next.stage].spawns.enemies;
+  for (const kind of rollEnemies(random, chances, world, enemies, dt / BASE_TICK)) {
+    enemies.push(spawnEnemy(kind, random, nextId('enemy'), target));
+  }
+  next.enemies = enemies;
+};
+
+// No frogs and no exit until the boss is beaten, but a good deal longer to
+// beat it in. The snake starts at the far side from it.
+const enterBossArena = (next: GameState, random: Random) => {
+  next.boss = spawnBoss(random);
+  next.worldCoins = [];
+  next.portalTimer = next.rules.portalTimeLimit * BOSS_TIME_MULTIPLIER;
+  next.portalExit = null;
+  next.birdX = BOSS_ARENA_START.x;
+  next.birdY = BOSS_ARENA_START.y;
+};
+
+const enterPortal = (next: GameState, pipe: Pipe, { random, nextId }: StepContext) => {
+  const portalGame = startPortalGame(random);
+
+  next.inSpecialWorld = true;
+  awardPoints(next, 5);
+  next.usedPortalIds.add(pipe.id);
+  if (next.usedPortalIds.size % BOSS_PORTAL_INTERVAL === 0) {
+    enterBossArena(next, random);
+  } else {
+    // Each portal used this run makes the next world harder
+    const layout = generatePortalWorld(random, nextId, next.rules, next.usedPortalIds.size - 1);
+    next.worldCoins = layout.frogs;
+    next.portalWorld = layout.world;
+    if (layout.start) {
+      next.birdX = layout.start.x;
+      next.birdY = layout.start.y;
+    }
+    next.portalTimer = next.rules.portalTimeLimit + layout.timeBonus;
+    next.portalExit = layout.exit;
+  }
+  next.enteredPortal = { x: pipe.x, topHeight: pipe.topHeight, gap: pipe.gap, id: pipe.id || '' };
+  next.portalGame = portalGame;
+  next.showPortalGame = true;
+  next.isInvincible = false;
+  next.invincibilityTimer = 0;
+  next.events.push({ type: 'portalEntered', pipeId: pipe.id || '', game: portalGame.type });
+};
+
+// While the portal game is on screen only the game itself moves; its result
+// is paid out once the player has decided
+const stepPortalGame = (state: GameState, input: InputFrame, dt: number): GameState => {
+  const next: GameState = { ...state, elapsedTime: state.elapsedTime + dt, events: [] };
+  const { portalAction } = input;
+  let game = advancePortalGame(state.portalGame, dt);
+
+  if (portalAction !== undefined && game.result !== null) {
+    if (portalAction === PORTAL_CONTINUE) next.showPortalGame = false;
+  } else if (portalAction !== undefined) {
+    game = playPortalGame(game, portalAction, createRandom(next));
+    if (game.result !== null) {
+      awardPoints(next, game.result);
+      next.events.push({ type: 'portalGameFinished', game: game.type, result: game.result });
+    }
+  }
+
+  next.portalGame = game;
+  return next;
+};
+
+const exitPortal = (next: GameState) => {
+  let returnX = WORLD_WIDTH / 2;
+  let returnY = WORLD_HEIGHT / 2;
+
+  if (next.enteredPortal) {
+    returnX = clamp(next.enteredPortal.x + PIPE_WIDTH / 2 - BIRD_SIZE / 2, 0, MAX_BIRD_X);
+    returnY = clamp(next.enteredPortal.topHeight + next.enteredPortal.gap / 2 - BIRD_SIZE / 2, 0, MAX_BIRD_Y);
+  }
+
+  // Make snake invincible for 2 seconds after exiting portal
+  next.birdX = returnX;
+  next.birdY = returnY;
+  next.inSpecialWorld = false;
+  next.worldCoins = [];
+  next.enemies = next.enemies.filter(enemy => isEnemyIn(enemy, 'main'));
+  next.portalTimer = next.rules.portalTimeLimit;
+  next.portalExit = null;
+  next.portalWorld = null;
+  next.boss = null;
+  next.enteredPortal = null;
+  next.isInvincible = true;
+  next.invincibilityTimer = INVINCIBILITY_DURATION;
+  next.events.push({ type: 'portalExited' });
+};
+
+// Pick up power-ups under the head, and let the rest wait out their time
+const collectPowerUps = (next: GameState, dt: number) => {
+  next.powerUps = next.powerUps.filter(powerUp => {
+    if (distanceTo(next, powerUp.x, powerUp.y) < 25) {
+      next.activePowerUps = activatePowerUp(next.activePowerUps, powerUp.type);
+      next.events.push({ type: 'powerUpCollected', powerUpId: powerUp.id, powerUp: powerUp.type });
+      return false;
+    }
+    return powerUp.timeLeft > dt;
+  }).map(powerUp => ({ ...powerUp, timeLeft: powerUp.timeLeft - dt }));
+};
+
+const stepMainWorld = (next: GameState, dt: number, context: StepContext) => {
+  const { random, nextId } = context;
+  const scale = dt / BASE_TICK;
+  const stage = STAGES[next.stage];
+
+  // Normal world - move pipes as the current stage has them
+  next.pipes = next.pipes
+    .map(pipe => movePipe(pipe, stage.pipes.drift, getPipeSpeed(next), scale, random))
+    .filter(pipe => pipe.x > -PIPE_WIDTH);
+  next.obstacles = next.obstacles
+    .map(obstacle => advanceObstacle({ ...obstacle, x: obstacle.x - getPipeSpeed(next) * scale }, dt))
+    .filter(obstacle => getObstacleRight(obstacle) > 0);
+  next.lastPortalX -= getPipeSpeed(next) * scale;
+
+  // Add new pipes with proper portal spacing
+  if (getLastSlotX(next) < WORLD_WIDTH - PIPE_SPACING) {
+    spawnSlot(next, context);
+  }
+
+  const frogs = moveFrogs(next.mainWorldFrogs, next.birdX, next.birdY, next.pipes, dt, random);
+  next.mainWorldFrogs = collectFrogs(next, attractFrogs(next, frogs, scale), nextId);
+
+  // Add new frogs periodically in main world; tree frogs take a pipe with
+  // some way still to go
+  if (next.mainWorldFrogs.filter(f => !f.collected).length < 2 &&
+      random() < FROG_SPAWN_CHANCE * stage.spawns.frogs * scale) {
+    const badChance = Math.min(1, next.rules.mainBadFrogChance * stage.spawns.badFrogs);
+    const pipes = next.pipes.filter(pipe => pipe.x > WORLD_WIDTH / 2);
+    next.mainWorldFrogs.push(generateFrog(random, nextId('main-frog'), badChance, pipes));
+  }
+
+  collectPowerUps(next, dt);
+  if (next.powerUps.length === 0 && random() < POWER_UP_SPAWN_CHANCE * stage.spawns.powerUps * scale) {
+    next.powerUps.push(generatePowerUp(random, nextId('power-up'), stage.spawns.powerUpWeights));
+  }
+
+  // Shrink trims the hitbox evenly on every side
+  const inset = isPowerUpActive(next, 'shrink') ? BIRD_SIZE * (1 - SHRINK_SCALE) / 2 : 0;
+  const head: Box = {
+    left: next.birdX + inset,
+    right: next.birdX + BIRD_SIZE - inset,
+    top: next.birdY + inset,
+    bottom: next.birdY + BIRD_SIZE - inset
+  };
+  // Under the true snake rules the whole body has to fit through the gaps
+  const hitboxes = next.snakeRules.bodyCollision ? [head, ...next.bodySegments.map(segmentBox)] : [head];
+
+  // Score pipes the snake has fully passed
+  next.pipes = next.pipes.map(pipe => {
+    if (pipe.passed || head.left <= pipe.x + PIPE_WIDTH) return pipe;
+    awardPoints(next, pipe.isSpecial ? 3 : 1);
+    next.events.push({ type: 'pipePassed', pipeId: pipe.id || '', isSpecial: !!pipe.isSpecial });
+    return { ...pipe, passed: true };
+  });
+  next.obstacles = next.obstacles.map(obstacle => {
+    if (obstacle.passed || head.left <= getObstacleRight(obstacle)) return obstacle;
+    if (getObstacleDefinition(obstacle.kind).pipeShaped) {
+      awardPoints(next, 1);
+      next.events.push({ type: 'pipePassed', pipeId: obstacle.id, isSpecial: false });
+    }
+    return { ...obstacle, passed: true };
+  });
+
+  // Check pipe collisions and portal entry
+  for (const pipe of next.pipes) {
+    if (next.usedPortalIds.has(pipe.id || '')) continue;
+
+    const headOverlapsPipe = head.right > pipe.x && head.left < pipe.x + PIPE_WIDTH;
+    if (headOverlapsPipe && pipe.isSpecial && pipe.id) {
+      const portalTop = pipe.topHeight + pipe.gap * 0.3;
+      const portalBottom = pipe.topHeight + pipe.gap * 0.7;
+
+      if (head.top >= portalTop && head.bottom <= portalBottom) {
+        enterPortal(next, pipe, context);
+        return next;
+      }
+    }
+
+    if (next.isInvincible || !hitboxes.some(box => hitsPipe(pipe, box))) continue;
+    crash(next, 'pipe');
+  }
+
+  next.obstacles = next.obstacles.map(obstacle => {
+    if (next.isInvincible || !hitboxes.some(box => obstacleHits(obstacle, box))) return obstacle;
+
+    const smashed = getObstacleDefinition(obstacle.kind).smash?.(obstacle, next);
+    if (smashed) {
+      awardPoints(next, OBSTACLE_SMASH_POINTS);
+      next.events.push({ type: 'obstacleSmashed', obstacleId: obstacle.id });
+      return smashed;
+    }
+    crash(next, 'obstacle');
+    return obstacle;
+  });
+
+  stepEnemies(next, 'main', dt, context);
+  return next;
+};
+
+// Pick up any keys under the head; the exit stays locked until all are found
+const collectKeys = (next: GameState) => {
+  const headX = next.birdX + BIRD_SIZE / 2;
+  const headY = next.birdY + BIRD_SIZE / 2;
+  let keysLeft = next.portalWorld.keys.filter(key => !key.collected).length;
+  const keys = next.portalWorld.keys.map(key => {
+    if (key.collected || Math.hypot(key.x + KEY_SIZE / 2 - headX, key.y + KEY_SIZE / 2 - headY) >= 25) return key;
+    keysLeft -= 1;
+    next.events.push({ type: 'keyCollected', keyId: key.id, keysLeft });
+    return { ...key, collected: true };
+  });
+  next.portalWorld = { ...next.portalWorld, keys };
+};
+
+// Dodge the boss's attacks and bite its weak points. Beating it pays out and
+// opens the way out.
+const stepBoss = (next: GameState, dt: number, { random }: StepContext) => {
+  const target = { x: next.birdX + BIRD_SIZE / 2, y: next.birdY + BIRD_SIZE / 2 };
+  const head: Box = { left: next.birdX, right: next.birdX + BIRD_SIZE, top: next.birdY, bottom: next.birdY + BIRD_SIZE };
+  const boss = advanceBoss(next.boss, target, dt);
+  if (isBossWarning(boss) && !isBossWarning(next.boss)) {
+    next.events.push({ type: 'bossWarning', kind: boss.kind });
+  }
+  next.boss = boss;
+
+  if (!next.isInvincible && bossHits(boss, head)) {
+    biteSnake(next, { type: 'bossHit', kind: boss.kind });
+    return;
+  }
+  if (!isBossExposed(boss, head)) return;
+
+  const bitten = biteBoss(boss);
+  next.events.push({ type: 'bossBitten', kind: boss.kind, health: bitten.health, phase: bitten.phase });
+  if (bitten.health > 0) {
+    next.boss = bitten;
+    return;
+  }
+
+  const { reward } = getBossDefinition(boss.kind);
+  awardPoints(next, reward);
+  next.boss = null;
+  next.portalExit = generatePortalExit(random);
+  next.events.push({ type: 'bossDefeated', kind: boss.kind, reward });
+};
+
+const stepSpecialWorld = (next: GameState, dt: number, context: StepContext) => {
+  if (!next.portalExit && !next.boss) {
+    next.portalExit = generatePortalExit(context.random);
+  }
+
+  next.portalTimer -= dt;
+  if (next.portalTimer <= 0) {
+    next.portalTimer = 0;
+    endGame(next, 'portalTimeout');
+    return next;
+  }
+
+  if (next.boss) {
+    stepBoss(next, dt, context);
+    return next;
+  }
+
+  if (next.portalWorld) {
+    const moved = advancePlatforms(next.portalWorld, next.birdX, next.birdY, dt);
+    next.portalWorld = moved.world;
+    next.birdX = moved.x;
+    next.birdY = moved.y;
+    collectKeys(next);
+  }
+
+  const walls = next.portalWorld ? [...next.portalWorld.walls, ...next.portalWorld.platforms] : [];
+  const frogs = moveFrogs(next.worldCoins, next.birdX, next.birdY, [], dt, context.random, walls);
+  next.worldCoins = collectFrogs(next, attractFrogs(next, frogs, dt / BASE_TICK), context.nextId);
+  stepEnemies(next, 'portal', dt, context);
+
+  if (isExitOpen(next.portalWorld) && distanceTo(next, next.portalExit.x, next.portalExit.y) < 30) {
+    exitPortal(next);
+  }
+
+  return next;
+};
+
+// Advance the simulation by dt seconds. Never mutates the state passed in;
+// anything that happened during the step is reported in `events`.
+export const step = (state: GameState, input: InputFrame, dt: number): GameState => {
+  if (!state.gameStarted || state.gameOver || state.gamePaused) {
+    return state.events.length > 0 ? { ...state, events: [] } : state;
+  }
+  if (state.showPortalGame && state.portalGame) {
+    return stepPortalGame(state, input, dt);
+  }
+
+  const scale = dt / BASE_TICK;
+  const direction = getDirection(input, state.reversedControlsTimer > 0);
+  const movedX = clamp(state.birdX + direction.x * scale, 0, MAX_BIRD_X);
+  const movedY = clamp(state.birdY + direction.y * scale, 0, MAX_BIRD_Y);
+  // Walls and platforms in a portal world stop the head
+  const { x: birdX, y: birdY } = state.inSpecialWorld && state.portalWorld
+    ? moveThroughWorld(state.portalWorld, state.birdX, state.birdY, movedX, movedY)
+    : { x: movedX, y: movedY };
+
+  const next: GameState = {
+    ...state,
+    birdX,
+    birdY,
+    birdDirection: direction,
+    bodySegments: updateBodySegments(birdX, birdY, state.bodySegments, state.bodyLength),
+    // Stages are never lost, even when bad frogs cost coins
+    stage: Math.max(state.stage, getStageIndex(state.coins, state.rules)),
+    isAdvancedLevel: state.coins >= state.rules.advancedLevelCoins,
+    usedPortalIds: new Set(state.usedPortalIds),
+    elapsedTime: state.elapsedTime + dt,
+    events: []
+  };
+
+  if (next.isAdvancedLevel && !state.isAdvancedLevel) {
+    next.reachedAdvancedLevel = true;
+    next.events.push({ type: 'advancedLevelReached' });
+  }
+
+  // Wind down eating / bad frog animations
+  if (next.reactionTimer > 0) {
+    next.reactionTimer = Math.max(0, next.reactionTimer - dt);
+    if (next.reactionTimer === 0) {
+      next.isEating = false;
+      next.isBadFrogReaction = false;
+    }
+  }
+
+  if (next.reversedControlsTimer > 0) {
+    next.reversedControlsTimer = Math.max(0, next.reversedControlsTimer - dt);
+  }
+
+  if (next.stageBannerTimer > 0) {
+    next.stageBannerTimer = Math.max(0, next.stageBannerTimer - dt);
+  }
+  if (next.stage > state.stage) {
+    next.stageBannerTimer = STAGE_BANNER_DURATION;
+    next.events.push({ type: 'stageReached', stage: next.stage });
+  }
+
+  // Handle invincibility timer
+  if (next.isInvincible) {
+    next.invincibilityTimer -= dt;
+    if (next.invincibilityTimer <= 0) {
+      next.isInvincible = false;
+      next.invincibilityTimer = 0;
+      next.events.push({ type: 'invincibilityEnded' });
+    }
+  }
+
+  const powerUps = tickPowerUps(next.activePowerUps, dt);
+  next.activePowerUps = powerUps.active;
+  powerUps.expired.forEach(powerUp => next.events.push({ type: 'powerUpExpired', powerUp }));
+
+  if (next.snakeRules.selfCollision && !next.isInvincible && bitesOwnBody(next)) {
+    endGame(next, 'selfCollision');
+    return next;
+  }
+
+  const context: StepContext = { random: createRandom(next), nextId: createIdSource(next) };
+  return next.inSpecialWorld ? stepSpecialWorld(next, dt, context) : stepMainWorld(next, dt, context);
+};
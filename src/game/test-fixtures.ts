@@ -0,0 +1,41 @@
+import { BASE_TICK } from "./constants";
+import { EMPTY_INPUT } from "./input";
+import { createInitialState } from "./state";
+import { step } from "./step";
+import type { Frog, GameState, InputFrame, Pipe } from "./types";
+
+// Building blocks for the simulation's tests
+
+export const pipe = (x: number, overrides: Partial<Pipe> = {}): Pipe => ({
+  x,
+  topHeight: 150,
+  gap: 200,
+  passed: false,
+  id: `pipe-${x}`,
+  ...overrides
+});
+
+export const frog = (x: number, y: number, overrides: Partial<Frog> = {}): Frog => ({
+  x,
+  y,
+  collected: false,
+  id: 'frog',
+  variety: 'common',
+  vx: 0,
+  vy: 0,
+  hopTimer: 1,
+  ...overrides
+});
+
+// A run under way with the head at (200, 250), no frogs about and a single
+// pipe well ahead of it, unless the test sets things up otherwise
+export const startRun = (overrides: Partial<GameState> = {}): GameState => ({
+  ...createInitialState(1),
+  gameStarted: true,
+  mainWorldFrogs: [],
+  pipes: [pipe(380)],
+  ...overrides
+});
+
+export const tick = (state: GameState, input: InputFrame = EMPTY_INPUT) => step(state, input, BASE_TICK);
+
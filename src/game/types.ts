@@ -0,0 +1,390 @@
+export interface BodySegment {
+  x: number;
+  y: number;
+  id: string;
+}
+
+export interface Pipe {
+  x: number;
+  topHeight: number;
+  passed: boolean;
+  isSpecial?: boolean;
+  gap: number;
+  id?: string;
+  yVelocity?: number;
+}
+
+// Axis-aligned hitbox in world units
+export interface Box {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// Obstacles besides the plain pipes, each with its own spawn rules, shape
+// and look (see obstacles/). `x` is the left edge; they scroll with the pipes.
+export type ObstacleKind = 'rotatingBar' | 'closingGate' | 'mine' | 'laser' | 'breakablePipe';
+
+interface ObstacleBase {
+  id: string;
+  x: number;
+  // The head is past it; pipe-shaped obstacles score then, like pipes
+  passed: boolean;
+}
+
+// A bar spinning around its middle, `angle` in radians
+export interface RotatingBar extends ObstacleBase {
+  kind: 'rotatingBar';
+  y: number;
+  length: number;
+  angle: number;
+  // Radians per second; negative turns anticlockwise
+  spin: number;
+}
+
+// A pipe whose gap shuts and opens again on a cycle
+export interface ClosingGate extends ObstacleBase {
+  kind: 'closingGate';
+  topHeight: number;
+  // Gap when fully open
+  gap: number;
+  // Seconds into the open/shut cycle
+  phase: number;
+}
+
+// A spiked ball bobbing around `baseY`
+export interface SpikedMine extends ObstacleBase {
+  kind: 'mine';
+  y: number;
+  baseY: number;
+  phase: number;
+}
+
+// Two emitters with a beam between them that sweeps up and down, switching
+// off for part of each cycle
+export interface LaserSweep extends ObstacleBase {
+  kind: 'laser';
+  y: number;
+  // Pixels per second, reversing at the edges of the sweep
+  velocity: number;
+  phase: number;
+}
+
+// A cracked pipe that a fully grown snake smashes through
+export interface BreakablePipe extends ObstacleBase {
+  kind: 'breakablePipe';
+  topHeight: number;
+  gap: number;
+  broken: boolean;
+}
+
+export type Obstacle = RotatingBar | ClosingGate | SpikedMine | LaserSweep | BreakablePipe;
+
+// Creatures that hunt the snake (see enemies/). Each warns before it
+// attacks and only hurts while attacking. `x`, `y` is the centre.
+export type EnemyKind = 'hawk' | 'mongoose' | 'batSwarm';
+
+interface EnemyBase {
+  id: string;
+  x: number;
+  y: number;
+  // Pixels per second
+  vx: number;
+  vy: number;
+  // Seconds spent in the current mode
+  timer: number;
+  // Where the attack is aimed, fixed when the warning starts
+  targetX: number;
+  targetY: number;
+}
+
+// Circles overhead, then dives in a straight line at where the head was
+export interface Hawk extends EnemyBase {
+  kind: 'hawk';
+  mode: 'circling' | 'warning' | 'diving';
+}
+
+// Runs along the ground, crouches, then leaps up at a low-flying snake
+export interface Mongoose extends EnemyBase {
+  kind: 'mongoose';
+  mode: 'patrol' | 'crouch' | 'lunge' | 'leaving';
+  lunges: number;
+}
+
+export interface Bat {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+// Bats fluttering around a shared centre that follows the snake, bunching
+// up before they swoop together
+export interface BatSwarm extends EnemyBase {
+  kind: 'batSwarm';
+  mode: 'flutter' | 'gather' | 'swoop';
+  bats: Bat[];
+}
+
+export type Enemy = Hawk | Mongoose | BatSwarm;
+
+export type BossKind = 'heron';
+
+interface BossBase {
+  health: number;
+  // Rises each time a share of its health is gone; later phases attack
+  // faster and more often
+  phase: number;
+  // Seconds spent in the current mode
+  timer: number;
+  // Where the attack is aimed, fixed when the warning starts
+  targetX: number;
+  targetY: number;
+}
+
+// A giant heron wading along the foot of the arena. It takes aim, stabs its
+// beak at where the head was, and after the last stab of each flurry is
+// left with the beak stuck and its head open to bites.
+export interface Heron extends BossBase {
+  kind: 'heron';
+  mode: 'stalking' | 'aiming' | 'striking' | 'stuck' | 'recoiling';
+  // Middle of its body along the ground
+  x: number;
+  // Tip of the beak
+  beakX: number;
+  beakY: number;
+  // Stabs left in the current flurry
+  strikesLeft: number;
+}
+
+export type Boss = Heron;
+
+// Kinds of frog, each with its own points, movement and effect (see frogs.ts)
+export type FrogVariety = 'common' | 'bad' | 'golden' | 'poisonDart' | 'tree' | 'splitting';
+
+export interface Frog {
+  x: number;
+  y: number;
+  collected: boolean;
+  id: string;
+  variety: FrogVariety;
+  // Pixels per second while mid-hop; both zero while it sits
+  vx: number;
+  vy: number;
+  // Seconds left of the current hop, or until the next one while it sits
+  hopTimer: number;
+  // Tree frogs: the pipe they cling to and scroll with
+  pipeId?: string;
+}
+
+export type PowerUpType = 'shrink' | 'magnet' | 'slowTime' | 'shield' | 'doublePoints';
+
+// A power-up waiting to be picked up in the main world
+export interface PowerUp {
+  x: number;
+  y: number;
+  id: string;
+  type: PowerUpType;
+  // Seconds until it disappears uncollected
+  timeLeft: number;
+}
+
+// Seconds left on each running power-up
+export type ActivePowerUps = Partial<Record<PowerUpType, number>>;
+
+// Look of a stage; each renderer maps it to its own colours
+export type StageTheme = 'meadow' | 'sunset' | 'jungle' | 'twilight' | 'inferno' | 'storm';
+
+// A rule set: one of the presets, or the custom rules from the settings
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'insane' | 'custom';
+
+// Every tunable number of a run, fixed when it starts (see rules.ts)
+export interface GameRules {
+  // Pipe gap at the start, the narrowest it gets, and how much it narrows
+  // every 10 coins
+  initialPipeGap: number;
+  minPipeGap: number;
+  pipeGapStep: number;
+  // Pixels per tick
+  pipeSpeed: number;
+  // Chance of each new pipe being a portal, and the least distance between portals
+  specialPipeChance: number;
+  minPortalDistance: number;
+  // Seconds to find the exit of a portal world
+  portalTimeLimit: number;
+  // Share of bad frogs in the main world and in portal worlds
+  mainBadFrogChance: number;
+  portalBadFrogChance: number;
+  // Coins at which pipes start moving up and down
+  advancedLevelCoins: number;
+}
+
+// Optional "true snake" rules, chosen before a run
+export interface SnakeRules {
+  // Body segments hitting pipes end the run, not just the head
+  bodyCollision: boolean;
+  // The head running into its own body ends the run
+  selfCollision: boolean;
+}
+
+// Id of a portal mini-game in the registry (see portal-games/index.ts)
+export type PortalGameType = string;
+
+// A portal mini-game. The world holds still while it is on screen, and
+// `result` stays null until the player has made their decision. Each game
+// module extends this with the state it needs.
+export interface PortalGame {
+  type: PortalGameType;
+  result: number | null;
+}
+
+// One of the moves a portal mini-game lists in its definition's `actions`,
+// e.g. 'roll', or the index of a card to pick
+export type PortalMove = string | number;
+
+// A decision in the current portal mini-game: the position of a move in its
+// game's `actions`, or PORTAL_CONTINUE to close the result and carry on into
+// the portal world
+export type PortalAction = number;
+
+// A solid block in a portal world; `x`, `y` is the top left corner
+export interface PortalWall {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A block sliding back and forth, shoving the snake out of its way
+export interface MovingPlatform extends PortalWall {
+  id: string;
+  axis: 'x' | 'y';
+  // Range of its `x` or `y` along the axis
+  min: number;
+  max: number;
+  // Pixels per second; the sign flips at either end
+  velocity: number;
+}
+
+export interface PortalKey {
+  id: string;
+  x: number;
+  y: number;
+  collected: boolean;
+}
+
+// The layout of the portal world the snake is in, generated on the way in
+// (see portal-worlds.ts)
+export type PortalLayout = 'glade' | 'maze' | 'platforms';
+
+export interface PortalWorld {
+  layout: PortalLayout;
+  // Portals used before this one in the run; layouts get harder with it
+  level: number;
+  walls: PortalWall[];
+  platforms: MovingPlatform[];
+  // The exit stays locked until every key is collected
+  keys: PortalKey[];
+  // Only the area around the snake is lit
+  dark: boolean;
+}
+
+export interface GameState {
+  birdX: number;
+  birdY: number;
+  birdDirection: { x: number; y: number };
+  bodySegments: BodySegment[];
+  pipes: Pipe[];
+  obstacles: Obstacle[];
+  enemies: Enemy[];
+  coins: number;
+  gameStarted: boolean;
+  gameOver: boolean;
+  gamePaused: boolean;
+  inSpecialWorld: boolean;
+  worldCoins: Frog[];
+  mainWorldFrogs: Frog[];
+  // Index into STAGES of the stage reached so far (see stages.ts)
+  stage: number;
+  // Seconds left on the banner announcing the stage
+  stageBannerTimer: number;
+  portalTimer: number;
+  portalExit: { x: number; y: number } | null;
+  portalWorld: PortalWorld | null;
+  // Waiting in the arena instead of a portal world, every few portals
+  boss: Boss | null;
+  enteredPortal: { x: number; topHeight: number; gap: number; id: string } | null;
+  frogsEaten: number;
+  // Segments the body grows to: one per good frog, up to MAX_BODY_SEGMENTS,
+  // less whatever enemies have bitten off
+  bodyLength: number;
+  isEating: boolean;
+  isBadFrogReaction: boolean;
+  // Seconds left on the eating / bad frog animation
+  reactionTimer: number;
+  usedPortalIds: Set<string>;
+  portalGame: PortalGame | null;
+  // The portal game is on screen; the world waits until it is closed
+  showPortalGame: boolean;
+  isInvincible: boolean;
+  invincibilityTimer: number;
+  // Seconds left with up/down and left/right swapped, after a poison dart frog
+  reversedControlsTimer: number;
+  powerUps: PowerUp[];
+  activePowerUps: ActivePowerUps;
+  lastPortalX: number;
+  // Chosen when the run starts. Scores are compared within a rule set.
+  difficulty: Difficulty;
+  rules: GameRules;
+  snakeRules: SnakeRules;
+  isAdvancedLevel: boolean;
+  reachedAdvancedLevel: boolean;
+  // Seconds of play simulated so far
+  elapsedTime: number;
+  // Seed the run started from, and the generator state after the last draw
+  seed: number;
+  rngState: number;
+  nextEntityId: number;
+  // Events raised by the most recent step
+  events: GameEvent[];
+}
+
+// Directional input for a single simulation step
+export interface InputFrame {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  // How far an analog stick is pushed along each axis (0..1, in steps of
+  // 1 / ANALOG_LEVELS); digital input moves at full speed
+  xStrength?: number;
+  yStrength?: number;
+  portalAction?: PortalAction;
+}
+
+export type GameOverReason = 'pipe' | 'obstacle' | 'enemy' | 'portalTimeout' | 'selfCollision';
+
+export type GameEvent =
+  | { type: 'frogEaten'; frogId: string; variety: FrogVariety; inSpecialWorld: boolean }
+  | { type: 'pipePassed'; pipeId: string; isSpecial: boolean }
+  | { type: 'portalEntered'; pipeId: string; game: PortalGameType }
+  | { type: 'portalGameFinished'; game: PortalGameType; result: number }
+  | { type: 'portalExited' }
+  | { type: 'keyCollected'; keyId: string; keysLeft: number }
+  | { type: 'invincibilityEnded' }
+  | { type: 'powerUpCollected'; powerUpId: string; powerUp: PowerUpType }
+  | { type: 'powerUpExpired'; powerUp: PowerUpType }
+  // The shield took a hit in the snake's place
+  | { type: 'shieldBroken' }
+  | { type: 'obstacleSmashed'; obstacleId: string }
+  // An enemy is about to attack, and one that got the snake
+  | { type: 'enemyWarning'; enemyId: string; kind: EnemyKind }
+  | { type: 'enemyHit'; enemyId: string; kind: EnemyKind }
+  | { type: 'bossWarning'; kind: BossKind }
+  | { type: 'bossHit'; kind: BossKind }
+  | { type: 'bossBitten'; kind: BossKind; health: number; phase: number }
+  | { type: 'bossDefeated'; kind: BossKind; reward: number }
+  | { type: 'advancedLevelReached' }
+  | { type: 'stageReached'; stage: number }
+  | { type: 'gameOver'; reason: GameOverReason };
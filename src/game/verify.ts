@@ -0,0 +1,45 @@
+import { BASE_TICK } from "./constants";
+import { MAX_INPUT_MASK, createReplayStartState, decodeInputFrame, expandInputs, type Replay } from "./replay";
+import { step } from "./step";
+import type { GameState } from "./types";
+
+// Longest run we are willing to re-simulate: one hour of play
+export const MAX_REPLAY_TICKS = Math.ceil(60 * 60 / BASE_TICK);
+
+export type VerificationResult =
+  | { valid: true; state: GameState }
+  | { valid: false; reason: string };
+
+// Re-simulate a replay from its seed and check it really ends with the
+// score it claims. The returned state is the trustworthy record of the run.
+export const verifyReplay = (replay: Replay): VerificationResult => {
+  let tickCount = 0;
+  for (let i = 0; i < replay.inputs.length; i += 2) {
+    if (replay.inputs[i] > MAX_INPUT_MASK) {
+      return { valid: false, reason: `Unknown input mask ${replay.inputs[i]}` };
+    }
+    tickCount += replay.inputs[i + 1];
+  }
+  if (tickCount > MAX_REPLAY_TICKS) {
+    return { valid: false, reason: `Replay is ${tickCount} ticks long; the limit is ${MAX_REPLAY_TICKS}` };
+  }
+
+  const masks = expandInputs(replay.inputs);
+  let state = createReplayStartState(replay);
+
+  for (let tick = 0; tick < masks.length; tick++) {
+    if (state.gameOver) {
+      return { valid: false, reason: `Run ended at tick ${tick} but the replay has ${masks.length} ticks` };
+    }
+    state = step(state, decodeInputFrame(masks[tick]), BASE_TICK);
+  }
+
+  if (!state.gameOver) {
+    return { valid: false, reason: 'Replay stops before the run is over' };
+  }
+  if (state.coins !== replay.score) {
+    return { valid: false, reason: `Claimed score ${replay.score} does not match simulated score ${state.coins}` };
+  }
+
+  return { valid: true, state };
+};
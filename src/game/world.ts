@@ -0,0 +1,86 @@
+import { SEGMENT_FOLLOW_DISTANCE, WORLD_HEIGHT, WORLD_WIDTH } from "./constants";
+import { FROG_VARIETIES, clingTo, getRestTime, pickFrogVariety } from "./frogs";
+import type { Random } from "./rng";
+import type { BodySegment, Frog, GameRules, Pipe } from "./types";
+
+export type IdSource = (prefix: string) => string;
+
+// Sequential entity ids drawn from, and advancing, the counter on `holder`
+export const createIdSource = (holder: { nextEntityId: number }): IdSource => prefix =>
+  `${prefix}-${holder.nextEntityId++}`;
+
+// Generate a single frog at a random spot on the playfield, or clinging to
+// one of `pipes` if it turns out to be a tree frog
+export const generateFrog = (random: Random, id: string, badChance: number, pipes: Pipe[] = []): Frog => {
+  const variety = random() < badChance ? 'bad' : pickFrogVariety(random, pipes.length > 0);
+  const frog: Frog = {
+    x: random() * (WORLD_WIDTH - 60) + 30,
+    y: random() * (WORLD_HEIGHT - 100) + 50,
+    collected: false,
+    id,
+    variety,
+    vx: 0,
+    vy: 0,
+    hopTimer: getRestTime(random)
+  };
+  return FROG_VARIETIES[variety].clings ? clingTo(frog, pipes[Math.floor(random() * pipes.length)]) : frog;
+};
+
+// Generate random frogs for main world
+export const generateMainWorldFrogs = (random: Random, nextId: IdSource, rules: GameRules) => {
+  const frogs: Frog[] = [];
+  for (let i = 0; i < 3; i++) {
+    frogs.push(generateFrog(random, nextId('main-frog'), rules.mainBadFrogChance));
+  }
+  return frogs;
+};
+
+// Generate random frogs for special world (including bad frogs)
+export const generateWorldCoins = (random: Random, nextId: IdSource, rules: GameRules) => {
+  const frogs: Frog[] = [];
+  for (let i = 0; i < 12; i++) {
+    frogs.push(generateFrog(random, nextId('frog'), rules.portalBadFrogChance));
+  }
+  return frogs;
+};
+
+// Generate portal exit, away from the edges and well clear of the ground
+export const generatePortalExit = (random: Random) => {
+  return {
+    x: random() * (WORLD_WIDTH - 100) + 50,
+    y: random() * (WORLD_HEIGHT - 200) + 50
+  };
+};
+
+// Calculate dynamic pipe gap based on coins
+export const getCurrentPipeGap = (coins: number, rules: GameRules) => {
+  const reduction = Math.floor(coins / 10) * rules.pipeGapStep;
+  return Math.max(rules.minPipeGap, rules.initialPipeGap - reduction);
+};
+
+// Move body segments so each one trails the one ahead of it
+export const updateBodySegments = (headX: number, headY: number, currentSegments: BodySegment[], length: number) => {
+  const newSegments: BodySegment[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const leader = i === 0 ? { x: headX, y: headY } : newSegments[i - 1];
+    const follower = currentSegments[i] || { x: leader.x - SEGMENT_FOLLOW_DISTANCE, y: leader.y };
+
+    const dx = leader.x - follower.x;
+    const dy = leader.y - follower.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (distance > SEGMENT_FOLLOW_DISTANCE) {
+      const ratio = SEGMENT_FOLLOW_DISTANCE / distance;
+      newSegments.push({
+        x: leader.x - dx * ratio,
+        y: leader.y - dy * ratio,
+        id: `segment-${i}`
+      });
+    } else {
+      newSegments.push({ x: follower.x, y: follower.y, id: `segment-${i}` });
+    }
+  }
+
+  return newSegments;
+};
@@ -0,0 +1,85 @@
+import * as React from "react"
+
+import { FROG_VARIETIES } from "@/game/frogs"
+import type { FrogVariety, GameState } from "@/game/types"
+import { audioEngine, type SoundEffect } from "@/lib/audio"
+import { getSettings, subscribeSettings } from "@/lib/settings"
+
+// The portal timer beeps once per second for its last few seconds
+const TIMER_BEEP_SECONDS = 3
+
+// Bad frogs, and ones with a nasty effect, taste sour
+function isNastyFrog(variety: FrogVariety) {
+  return FROG_VARIETIES[variety].points < 0 || FROG_VARIETIES[variety].effect === "reverseControls"
+}
+
+// Sounds for the events of one simulation step
+function soundsForStep(previous: GameState, next: GameState): SoundEffect[] {
+  const sounds: SoundEffect[] = []
+  for (const event of next.events) {
+    if (event.type === "frogEaten") sounds.push(isNastyFrog(event.variety) ? "sour" : "chomp")
+    else if (event.type === "pipePassed") sounds.push("pipeTick")
+    else if (event.type === "portalEntered" || event.type === "portalExited") sounds.push("whoosh")
+    else if (event.type === "portalGameFinished") sounds.push(event.result > 0 ? "chomp" : "sour")
+    else if (event.type === "powerUpCollected" || event.type === "stageReached" || event.type === "keyCollected") sounds.push("powerUp")
+    else if (event.type === "shieldBroken" || event.type === "obstacleSmashed") sounds.push("whoosh")
+    else if (event.type === "enemyWarning" || event.type === "bossWarning") sounds.push("timerBeep")
+    else if (event.type === "enemyHit" || event.type === "bossHit") sounds.push("sour")
+    else if (event.type === "bossBitten") sounds.push("chomp")
+    else if (event.type === "bossDefeated") sounds.push("powerUp")
+    else if (event.type === "gameOver") sounds.push("gameOver")
+  }
+
+  const secondsLeft = Math.ceil(next.portalTimer)
+  if (
+    previous.inSpecialWorld &&
+    next.inSpecialWorld &&
+    secondsLeft < Math.ceil(previous.portalTimer) &&
+    secondsLeft <= TIMER_BEEP_SECONDS &&
+    secondsLeft > 0
+  ) {
+    sounds.push("timerBeep")
+  }
+  return sounds
+}
+
+interface GameAudioOptions {
+  // Background loop plays while this is set
+  music: boolean
+  // Faster tempo, e.g. on the advanced level
+  fast: boolean
+}
+
+// Keeps the audio engine in line with the volume settings and the run, and
+// returns a callback that plays the sounds for each simulation step
+export function useGameAudio({ music, fast }: GameAudioOptions) {
+  React.useEffect(() => {
+    const applyVolumes = () => {
+      const { volume, sfxVolume, musicVolume, muted } = getSettings()
+      audioEngine.setVolumes({ master: volume, sfx: sfxVolume, music: musicVolume, muted })
+    }
+    applyVolumes()
+    return subscribeSettings(applyVolumes)
+  }, [])
+
+  // Browsers keep audio suspended until the page gets a gesture
+  React.useEffect(() => {
+    const unlock = () => audioEngine.resume()
+    window.addEventListener("keydown", unlock)
+    window.addEventListener("pointerdown", unlock)
+    return () => {
+      window.removeEventListener("keydown", unlock)
+      window.removeEventListener("pointerdown", unlock)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (!music) return
+    audioEngine.startMusic(fast)
+    return () => audioEngine.stopMusic()
+  }, [music, fast])
+
+  return React.useCallback((previous: GameState, next: GameState) => {
+    soundsForStep(previous, next).forEach((sound) => audioEngine.play(sound))
+  }, [])
+}
@@ -0,0 +1,42 @@
+import * as React from "react"
+
+// Longest frame we will simulate in one go, so a stalled tab doesn't fast-forward
+const MAX_FRAME_TIME = 0.25
+
+interface GameLoopOptions {
+  running: boolean
+  // Simulation step in seconds
+  fixedStep: number
+  onStep: () => void
+  // Called once per animation frame with how far (0..1) we are into the next step
+  onFrame: (alpha: number) => void
+}
+
+export function useGameLoop({ running, fixedStep, onStep, onFrame }: GameLoopOptions) {
+  const callbacks = React.useRef({ onStep, onFrame })
+  callbacks.current = { onStep, onFrame }
+
+  React.useEffect(() => {
+    if (!running) return
+
+    let frameId = 0
+    let lastTime: number | null = null
+    let accumulator = 0
+
+    const frame = (time: number) => {
+      if (lastTime !== null) {
+        accumulator += Math.min(MAX_FRAME_TIME, (time - lastTime) / 1000)
+        while (accumulator >= fixedStep) {
+          callbacks.current.onStep()
+          accumulator -= fixedStep
+        }
+      }
+      lastTime = time
+      callbacks.current.onFrame(accumulator / fixedStep)
+      frameId = requestAnimationFrame(frame)
+    }
+
+    frameId = requestAnimationFrame(frame)
+    return () => cancelAnimationFrame(frameId)
+  }, [running, fixedStep])
+}
@@ -0,0 +1,74 @@
+import * as React from "react"
+
+import { getActiveGamepad, inputFromGamepad, isButtonPressed, type GamepadButton } from "@/lib/gamepad"
+
+// Buttons reported through onButtonPress
+const WATCHED_BUTTONS: GamepadButton[] = ["a", "start"]
+
+interface GamepadOptions {
+  onConnect?: (gamepad: Gamepad) => void
+  onDisconnect?: (gamepad: Gamepad) => void
+  // Called once per press, not every frame the button is held
+  onButtonPress?: (button: GamepadButton) => void
+  // Called when the pad starts steering after being at rest
+  onMove?: () => void
+}
+
+// Watches for controllers and polls them for button presses every animation
+// frame. Steering is read by the game loop itself through inputFromGamepad.
+export function useGamepad(options: GamepadOptions) {
+  const callbacks = React.useRef(options)
+  callbacks.current = options
+  const [connected, setConnected] = React.useState(() => getActiveGamepad() !== null)
+
+  React.useEffect(() => {
+    const handleConnect = (e: GamepadEvent) => {
+      setConnected(true)
+      callbacks.current.onConnect?.(e.gamepad)
+    }
+    const handleDisconnect = (e: GamepadEvent) => {
+      setConnected(getActiveGamepad() !== null)
+      callbacks.current.onDisconnect?.(e.gamepad)
+    }
+
+    window.addEventListener("gamepadconnected", handleConnect)
+    window.addEventListener("gamepaddisconnected", handleDisconnect)
+    return () => {
+      window.removeEventListener("gamepadconnected", handleConnect)
+      window.removeEventListener("gamepaddisconnected", handleDisconnect)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (!connected) return
+
+    let frameId = 0
+    const held = new Set<GamepadButton>()
+    let wasMoving = false
+
+    const poll = () => {
+      const gamepad = getActiveGamepad()
+      if (gamepad) {
+        for (const button of WATCHED_BUTTONS) {
+          if (!isButtonPressed(gamepad, button)) {
+            held.delete(button)
+          } else if (!held.has(button)) {
+            held.add(button)
+            callbacks.current.onButtonPress?.(button)
+          }
+        }
+
+        const { up, down, left, right } = inputFromGamepad(gamepad)
+        const moving = up || down || left || right
+        if (moving && !wasMoving) callbacks.current.onMove?.()
+        wasMoving = moving
+      }
+      frameId = requestAnimationFrame(poll)
+    }
+
+    frameId = requestAnimationFrame(poll)
+    return () => cancelAnimationFrame(frameId)
+  }, [connected])
+
+  return connected
+}
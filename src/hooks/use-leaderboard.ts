@@ -0,0 +1,20 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { scoreService, type ScoreQuery, type ScoreSubmission } from "@/lib/score-service"
+
+export function useLeaderboard(query: ScoreQuery) {
+  return useQuery({
+    queryKey: ["leaderboard", query],
+    queryFn: () => scoreService.listScores(query),
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useSubmitScore() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (submission: ScoreSubmission) => scoreService.submitScore(submission),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["leaderboard"] }),
+  })
+}
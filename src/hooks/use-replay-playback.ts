@@ -0,0 +1,78 @@
+import * as React from "react"
+
+import { useGameLoop } from "@/hooks/use-game-loop"
+import { BASE_TICK } from "@/game/constants"
+import type { ReplayPlayer } from "@/game/replay"
+import { step } from "@/game/step"
+import type { GameState } from "@/game/types"
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4]
+
+interface PlaybackFrame {
+  tick: number
+  state: GameState
+  previousState: GameState
+  alpha: number
+}
+
+const frameAt = (player: ReplayPlayer, tick: number): PlaybackFrame => {
+  const state = player.stateAt(tick)
+  return { tick, state, previousState: state, alpha: 0 }
+}
+
+export function useReplayPlayback(player: ReplayPlayer | null) {
+  const [frame, setFrame] = React.useState<PlaybackFrame | null>(null)
+  const [playing, setPlaying] = React.useState(false)
+  const [speed, setSpeed] = React.useState(1)
+  const frameRef = React.useRef<PlaybackFrame | null>(null)
+
+  const commit = React.useCallback((next: PlaybackFrame | null) => {
+    frameRef.current = next
+    setFrame(next)
+  }, [])
+
+  // Start from the beginning whenever a new replay is loaded
+  React.useEffect(() => {
+    commit(player ? frameAt(player, 0) : null)
+    setPlaying(!!player)
+  }, [player, commit])
+
+  const seek = React.useCallback((tick: number) => {
+    if (player) commit(frameAt(player, tick))
+  }, [player, commit])
+
+  const atEnd = !!player && !!frame && frame.tick >= player.tickCount
+
+  const togglePlaying = React.useCallback(() => {
+    if (!player) return
+    // Playing again from the end restarts the replay
+    if (frameRef.current && frameRef.current.tick >= player.tickCount) {
+      commit(frameAt(player, 0))
+    }
+    setPlaying(current => !current)
+  }, [player, commit])
+
+  useGameLoop({
+    running: !!player && playing && !atEnd,
+    fixedStep: BASE_TICK / speed,
+    onStep: () => {
+      const current = frameRef.current
+      if (!player || !current || current.tick >= player.tickCount) return
+      frameRef.current = {
+        tick: current.tick + 1,
+        state: step(current.state, player.inputAt(current.tick), BASE_TICK),
+        previousState: current.state,
+        alpha: 0
+      }
+    },
+    onFrame: alpha => {
+      if (frameRef.current) setFrame({ ...frameRef.current, alpha })
+    }
+  })
+
+  React.useEffect(() => {
+    if (atEnd) setPlaying(false)
+  }, [atEnd])
+
+  return { frame, playing, speed, setSpeed, togglePlaying, seek }
+}
@@ -0,0 +1,8 @@
+import * as React from "react"
+
+import { getSettings, subscribeSettings, updateSettings } from "@/lib/settings"
+
+export function useSettings() {
+  const settings = React.useSyncExternalStore(subscribeSettings, getSettings)
+  return [settings, updateSettings] as const
+}
@@ -0,0 +1,243 @@
+// Every sound is synthesized with Web Audio, so there is nothing to download.
+// The graph is: effects / music -> their own gain -> master gain -> speakers.
+
+export type SoundEffect = "chomp" | "sour" | "pipeTick" | "whoosh" | "timerBeep" | "gameOver" | "powerUp"
+
+export interface AudioVolumes {
+  // Each 0-100
+  master: number
+  sfx: number
+  music: number
+  muted: boolean
+}
+
+export interface AudioEngine {
+  // Browsers only start audio after a user gesture; call this from one
+  resume(): void
+  setVolumes(volumes: AudioVolumes): void
+  play(effect: SoundEffect): void
+  // Start or retune the background loop; `fast` is used on the advanced level
+  startMusic(fast: boolean): void
+  stopMusic(): void
+}
+
+interface AudioGraph {
+  context: AudioContext
+  master: GainNode
+  sfx: GainNode
+  music: GainNode
+}
+
+// How far ahead music notes are scheduled, and how often the scheduler runs
+const SCHEDULE_AHEAD = 0.1
+const SCHEDULER_INTERVAL_MS = 25
+
+const NORMAL_TEMPO = 104
+const FAST_TEMPO = 144
+
+// A minor pentatonic, as semitones above the root; anything from it sounds fine together
+const SCALE = [0, 3, 5, 7, 10, 12, 15]
+const ROOT_FREQUENCY = 220
+const BASS_PATTERN = [0, 0, 7, 5]
+
+const semitones = (steps: number, root = ROOT_FREQUENCY) => root * Math.pow(2, steps / 12)
+
+// Perceived loudness grows roughly with the square of the gain
+const toGain = (volume: number) => Math.pow(Math.max(0, Math.min(100, volume)) / 100, 2)
+
+interface ToneOptions {
+  type?: OscillatorType
+  frequency: number
+  // Glide to this frequency over the tone's duration
+  endFrequency?: number
+  duration: number
+  volume?: number
+  detune?: number
+}
+
+function playTone({ context }: AudioGraph, output: AudioNode, start: number, options: ToneOptions) {
+  const { type = "sine", frequency, endFrequency, duration, volume = 0.3, detune = 0 } = options
+  const oscillator = context.createOscillator()
+  const envelope = context.createGain()
+
+  oscillator.type = type
+  oscillator.detune.value = detune
+  oscillator.frequency.setValueAtTime(frequency, start)
+  if (endFrequency) oscillator.frequency.exponentialRampToValueAtTime(endFrequency, start + duration)
+
+  // Short attack, exponential release; ramping to exactly 0 isn't allowed
+  envelope.gain.setValueAtTime(0.0001, start)
+  envelope.gain.exponentialRampToValueAtTime(volume, start + 0.01)
+  envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration)
+
+  oscillator.connect(envelope).connect(output)
+  oscillator.start(start)
+  oscillator.stop(start + duration + 0.05)
+}
+
+function playNoiseSweep({ context }: AudioGraph, output: AudioNode, start: number, duration: number) {
+  const buffer = context.createBuffer(1, Math.ceil(context.sampleRate * duration), context.sampleRate)
+  const samples = buffer.getChannelData(0)
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1
+
+  const source = context.createBufferSource()
+  const filter = context.createBiquadFilter()
+  const envelope = context.createGain()
+  source.buffer = buffer
+  filter.type = "bandpass"
+  filter.Q.value = 3
+  filter.frequency.setValueAtTime(300, start)
+  filter.frequency.exponentialRampToValueAtTime(3000, start + duration * 0.6)
+  filter.frequency.exponentialRampToValueAtTime(600, start + duration)
+  envelope.gain.setValueAtTime(0.0001, start)
+  envelope.gain.exponentialRampToValueAtTime(0.5, start + duration * 0.4)
+  envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration)
+
+  source.connect(filter).connect(envelope).connect(output)
+  source.start(start)
+}
+
+const EFFECTS: Record<SoundEffect, (graph: AudioGraph, start: number) => void> = {
+  // Two quick descending blips: nom nom
+  chomp: (graph, start) => {
+    playTone(graph, graph.sfx, start, { type: "square", frequency: 520, endFrequency: 260, duration: 0.07, volume: 0.15 })
+    playTone(graph, graph.sfx, start + 0.08, { type: "square", frequency: 440, endFrequency: 200, duration: 0.07, volume: 0.15 })
+  },
+  // A slightly detuned pair sagging downwards
+  sour: (graph, start) => {
+    playTone(graph, graph.sfx, start, { type: "sawtooth", frequency: 190, endFrequency: 120, duration: 0.35, volume: 0.12 })
+    playTone(graph, graph.sfx, start, { type: "sawtooth", frequency: 190, endFrequency: 120, duration: 0.35, volume: 0.12, detune: 45 })
+  },
+  pipeTick: (graph, start) => {
+    playTone(graph, graph.sfx, start, { frequency: 1400, duration: 0.04, volume: 0.12 })
+  },
+  whoosh: (graph, start) => {
+    playNoiseSweep(graph, graph.sfx, start, 0.5)
+  },
+  timerBeep: (graph, start) => {
+    playTone(graph, graph.sfx, start, { type: "square", frequency: 880, duration: 0.1, volume: 0.12 })
+  },
+  // Quick rising arpeggio
+  powerUp: (graph, start) => {
+    const notes = [0, 4, 7, 12]
+    notes.forEach((step, index) => {
+      playTone(graph, graph.sfx, start + index * 0.05, {
+        type: "square",
+        frequency: semitones(step, 523),
+        duration: 0.08,
+        volume: 0.12,
+      })
+    })
+  },
+  // Falling arpeggio down to the root, an octave below
+  gameOver: (graph, start) => {
+    const notes = [12, 7, 3, -12]
+    notes.forEach((step, index) => {
+      const last = index === notes.length - 1
+      playTone(graph, graph.sfx, start + index * 0.18, {
+        type: "triangle",
+        frequency: semitones(step, 392),
+        duration: last ? 0.8 : 0.2,
+        volume: 0.25,
+      })
+    })
+  },
+}
+
+export function createAudioEngine(): AudioEngine {
+  let graph: AudioGraph | null = null
+  let volumes: AudioVolumes = { master: 80, sfx: 100, music: 60, muted: false }
+
+  let schedulerId: ReturnType<typeof setInterval> | null = null
+  let tempo = NORMAL_TEMPO
+  let nextNoteTime = 0
+  let beat = 0
+
+  const applyVolumes = () => {
+    if (!graph) return
+    const now = graph.context.currentTime
+    graph.master.gain.setTargetAtTime(volumes.muted ? 0 : toGain(volumes.master), now, 0.02)
+    graph.sfx.gain.setTargetAtTime(toGain(volumes.sfx), now, 0.02)
+    graph.music.gain.setTargetAtTime(toGain(volumes.music) * 0.5, now, 0.02)
+  }
+
+  // Created on first use; null where Web Audio isn't available
+  const getGraph = () => {
+    if (graph || typeof window === "undefined" || !window.AudioContext) return graph
+    const context = new AudioContext()
+    const master = context.createGain()
+    const sfx = context.createGain()
+    const music = context.createGain()
+    sfx.connect(master)
+    music.connect(master)
+    master.connect(context.destination)
+    graph = { context, master, sfx, music }
+    applyVolumes()
+    return graph
+  }
+
+  // Eighth notes: bass on every other one, a sparse random melody on top
+  const scheduleNote = (audio: AudioGraph, time: number) => {
+    const eighth = 30 / tempo
+    if (beat % 2 === 0) {
+      const bassStep = BASS_PATTERN[(beat / 2) % BASS_PATTERN.length]
+      playTone(audio, audio.music, time, {
+        type: "triangle",
+        frequency: semitones(bassStep - 12),
+        duration: eighth * 1.8,
+        volume: 0.3,
+      })
+    }
+    if (Math.random() < (tempo === FAST_TEMPO ? 0.6 : 0.4)) {
+      playTone(audio, audio.music, time, {
+        type: "sine",
+        frequency: semitones(SCALE[Math.floor(Math.random() * SCALE.length)]),
+        duration: eighth * 0.9,
+        volume: 0.15,
+      })
+    }
+    beat += 1
+    nextNoteTime += eighth
+  }
+
+  return {
+    resume() {
+      const audio = getGraph()
+      if (audio?.context.state === "suspended") audio.context.resume()
+    },
+    setVolumes(next) {
+      volumes = next
+      applyVolumes()
+    },
+    play(effect) {
+      const audio = getGraph()
+      if (!audio || volumes.muted || audio.context.state !== "running") return
+      EFFECTS[effect](audio, audio.context.currentTime)
+    },
+    startMusic(fast) {
+      tempo = fast ? FAST_TEMPO : NORMAL_TEMPO
+      const audio = getGraph()
+      if (!audio || schedulerId !== null) return
+
+      nextNoteTime = audio.context.currentTime + 0.05
+      beat = 0
+      schedulerId = setInterval(() => {
+        // A suspended context's clock stands still; catch up instead of queueing a burst
+        if (audio.context.state !== "running") {
+          nextNoteTime = audio.context.currentTime + 0.05
+          return
+        }
+        while (nextNoteTime < audio.context.currentTime + SCHEDULE_AHEAD) {
+          scheduleNote(audio, nextNoteTime)
+        }
+      }, SCHEDULER_INTERVAL_MS)
+    },
+    stopMusic() {
+      if (schedulerId === null) return
+      clearInterval(schedulerId)
+      schedulerId = null
+    },
+  }
+}
+
+export const audioEngine = createAudioEngine()
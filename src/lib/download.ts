@@ -0,0 +1,9 @@
+// Save text as a file through a temporary object URL
+export function downloadTextFile(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,818 @@
+import { BIRD_SIZE, GROUND_HEIGHT, PIPE_WIDTH, SHRINK_SCALE } from "@/game/constants"
+import {
+  HERON_BEAK_LENGTH,
+  HERON_BODY_HEIGHT,
+  HERON_BODY_WIDTH,
+  HERON_BODY_Y,
+  HERON_HEAD_RADIUS,
+  HERON_LEG_LENGTH,
+  getHeronHead,
+  getNeckBase,
+} from "@/game/bosses/heron"
+import { isEnemyIn } from "@/game/enemies"
+import { FROG_VARIETIES } from "@/game/frogs"
+import { BAT_SIZE } from "@/game/enemies/bat-swarm"
+import { HAWK_SIZE } from "@/game/enemies/hawk"
+import { MONGOOSE_HEIGHT, MONGOOSE_WIDTH } from "@/game/enemies/mongoose"
+import { LASER_WIDTH, isLaserFiring, isLaserWarming } from "@/game/obstacles/laser"
+import { getGateGap } from "@/game/obstacles/closing-gate"
+import { MINE_RADIUS } from "@/game/obstacles/mine"
+import { BAR_THICKNESS, getBarEnds } from "@/game/obstacles/rotating-bar"
+import { POWER_UP_INFO, isPowerUpActive } from "@/game/power-ups"
+import { KEY_SIZE, LIGHT_RADIUS, isExitOpen } from "@/game/portal-worlds"
+import { STAGES } from "@/game/stages"
+import type {
+  BatSwarm,
+  Boss,
+  BossKind,
+  BreakablePipe,
+  ClosingGate,
+  Enemy,
+  EnemyKind,
+  Frog,
+  FrogVariety,
+  GameState,
+  Hawk,
+  Heron,
+  LaserSweep,
+  Mongoose,
+  Obstacle,
+  ObstacleKind,
+  PortalWorld,
+  PowerUp,
+  RotatingBar,
+  SpikedMine,
+  StageTheme,
+} from "@/game/types"
+
+// Tailwind palette values used by the DOM renderer, so both look the same
+const colors = {
+  white: "#ffffff",
+  black: "#000000",
+  foreground: "#020817",
+  green200: "#bbf7d0",
+  green300: "#86efac",
+  green400: "#4ade80",
+  green500: "#22c55e",
+  green600: "#16a34a",
+  green700: "#15803d",
+  green800: "#166534",
+  green900: "#14532d",
+  emerald300: "#6ee7b7",
+  emerald400: "#34d399",
+  emerald500: "#10b981",
+  emerald600: "#059669",
+  teal300: "#5eead4",
+  teal400: "#2dd4bf",
+  teal500: "#14b8a6",
+  teal600: "#0d9488",
+  teal700: "#0f766e",
+  teal800: "#115e59",
+  lime300: "#bef264",
+  lime400: "#a3e635",
+  lime500: "#84cc16",
+  lime600: "#65a30d",
+  lime700: "#4d7c0f",
+  lime800: "#3f6212",
+  cyan200: "#a5f3fc",
+  cyan300: "#67e8f9",
+  cyan400: "#22d3ee",
+  cyan600: "#0891b2",
+  blue300: "#93c5fd",
+  blue400: "#60a5fa",
+  blue500: "#3b82f6",
+  blue600: "#2563eb",
+  blue700: "#1d4ed8",
+  blue800: "#1e40af",
+  indigo600: "#4f46e5",
+  purple200: "#e9d5ff",
+  purple300: "#d8b4fe",
+  purple400: "#c084fc",
+  purple500: "#a855f7",
+  purple600: "#9333ea",
+  purple700: "#7e22ce",
+  purple800: "#6b21a8",
+  pink300: "#f9a8d4",
+  pink500: "#ec4899",
+  red300: "#fca5a5",
+  red400: "#f87171",
+  red500: "#ef4444",
+  red600: "#dc2626",
+  red700: "#b91c1c",
+  red800: "#991b1b",
+  orange300: "#fdba74",
+  orange400: "#fb923c",
+  orange500: "#f97316",
+  orange600: "#ea580c",
+  amber200: "#fde68a",
+  amber300: "#fcd34d",
+  amber400: "#fbbf24",
+  amber500: "#f59e0b",
+  yellow400: "#facc15",
+  yellow500: "#eab308",
+  yellow600: "#ca8a04",
+  slate100: "#f1f5f9",
+  slate300: "#cbd5e1",
+  slate500: "#64748b",
+  slate600: "#475569",
+  slate700: "#334155",
+  slate900: "#0f172a",
+  zinc300: "#d4d4d8",
+  zinc400: "#a1a1aa",
+  zinc500: "#71717a",
+  zinc600: "#52525b",
+  zinc700: "#3f3f46",
+  zinc800: "#27272a",
+  zinc900: "#18181b",
+  amber600: "#d97706",
+  amber700: "#b45309",
+  amber800: "#92400e",
+  amber900: "#78350f",
+  amber950: "#451a03",
+}
+
+const STAGE_BACKGROUNDS: Record<StageTheme, string[]> = {
+  meadow: [colors.blue400, colors.blue600],
+  sunset: [colors.orange400, colors.red500],
+  jungle: [colors.green400, colors.emerald600],
+  twilight: [colors.purple400, colors.indigo600],
+  inferno: [colors.red600, colors.orange500, colors.yellow600],
+  storm: [colors.slate500, colors.slate700, colors.slate900],
+}
+
+type Tier = "legendary" | "epic" | "portal" | "normal"
+
+const getTier = (state: GameState): Tier =>
+  state.frogsEaten >= 10 ? "legendary" :
+  state.frogsEaten >= 5 ? "epic" :
+  state.inSpecialWorld ? "portal" : "normal"
+
+const HEAD_STYLES: Record<Tier, { border: string; fill: string[]; spots: string[]; eye: string }> = {
+  legendary: { border: colors.amber300, fill: [colors.amber400, colors.yellow500, colors.orange600], spots: [colors.amber300, colors.orange300], eye: colors.amber200 },
+  epic: { border: colors.purple400, fill: [colors.purple500, colors.pink500, colors.red500], spots: [colors.purple300, colors.pink300], eye: colors.purple200 },
+  portal: { border: colors.cyan400, fill: [colors.emerald400, colors.green500, colors.teal600], spots: [colors.emerald300, colors.teal300], eye: colors.yellow400 },
+  normal: { border: colors.white, fill: [colors.green500, colors.emerald600, colors.green700], spots: [colors.green400, colors.green400], eye: colors.yellow400 },
+}
+
+const SEGMENT_STYLES: Record<Tier, { border: string; fill: string[] }> = {
+  legendary: { border: colors.amber400, fill: [colors.amber500, colors.orange500] },
+  epic: { border: colors.purple400, fill: [colors.purple500, colors.pink500] },
+  portal: { border: colors.emerald400, fill: [colors.emerald500, colors.teal500] },
+  normal: { border: colors.green400, fill: [colors.green500, colors.green600] },
+}
+
+// Tailwind's animate-pulse: opacity 1 -> 0.5 -> 1
+const pulse = (time: number, period = 2) => 0.75 + 0.25 * Math.cos((2 * Math.PI * time) / period)
+
+// Tailwind's animate-bounce: up 25% of the element's height, once per period
+const bounce = (time: number, height: number, period = 1) =>
+  -height * 0.25 * Math.abs(Math.cos((Math.PI * time) / period))
+
+const gradient = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number, stops: string[]) => {
+  const result = ctx.createLinearGradient(x0, y0, x1, y1)
+  stops.forEach((color, index) => result.addColorStop(stops.length === 1 ? 0 : index / (stops.length - 1), color))
+  return result
+}
+
+const ellipse = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) => {
+  ctx.beginPath()
+  ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2)
+}
+
+// Ellipse filled with a top-left to bottom-right gradient, like bg-gradient-to-br
+const fillEllipse = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  fill: string[],
+  border?: string,
+  borderWidth = 1
+) => {
+  ellipse(ctx, x, y, width, height)
+  ctx.fillStyle = fill.length === 1 ? fill[0] : gradient(ctx, x, y, x + width, y + height, fill)
+  ctx.fill()
+  if (border) {
+    ctx.lineWidth = borderWidth
+    ctx.strokeStyle = border
+    ctx.stroke()
+  }
+}
+
+const emoji = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size: number) => {
+  ctx.font = `${size}px sans-serif`
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+  ctx.fillText(text, x, y)
+}
+
+type Shades = Record<300 | 400 | 500 | 600 | 700 | 800, string>
+
+// Bad frogs are red, or blue in the colorblind palette so they don't blend
+// in with the green ones
+const RED_SHADES: Shades = {
+  300: colors.red300,
+  400: colors.red400,
+  500: colors.red500,
+  600: colors.red600,
+  700: colors.red700,
+  800: colors.red800,
+}
+const BLUE_SHADES: Shades = {
+  300: colors.blue300,
+  400: colors.blue400,
+  500: colors.blue500,
+  600: colors.blue600,
+  700: colors.blue700,
+  800: colors.blue800,
+}
+
+const FROG_SHADES: Record<FrogVariety, Shades> = {
+  common: { 300: colors.green300, 400: colors.green400, 500: colors.green500, 600: colors.green600, 700: colors.green700, 800: colors.green800 },
+  bad: RED_SHADES,
+  golden: { 300: colors.amber300, 400: colors.amber400, 500: colors.amber500, 600: colors.amber600, 700: colors.amber700, 800: colors.amber800 },
+  poisonDart: { 300: colors.purple300, 400: colors.purple400, 500: colors.purple500, 600: colors.purple600, 700: colors.purple700, 800: colors.purple800 },
+  tree: { 300: colors.lime300, 400: colors.lime400, 500: colors.lime500, 600: colors.lime600, 700: colors.lime700, 800: colors.lime800 },
+  splitting: { 300: colors.teal300, 400: colors.teal400, 500: colors.teal500, 600: colors.teal600, 700: colors.teal700, 800: colors.teal800 },
+}
+
+const drawBackground = (ctx: CanvasRenderingContext2D, state: GameState, width: number, height: number) => {
+  const stops = state.inSpecialWorld
+    ? [colors.purple600, colors.pink500, colors.cyan600]
+    : STAGE_BACKGROUNDS[STAGES[state.stage].theme]
+  ctx.fillStyle = gradient(ctx, 0, 0, 0, height, stops)
+  ctx.fillRect(0, 0, width, height)
+}
+
+// Frogs bounce on the spot while they sit, and move for real mid-hop
+const drawFrog = (ctx: CanvasRenderingContext2D, frog: Frog, large: boolean, time: number, colorblind: boolean) => {
+  const bad = frog.variety === "bad"
+  const shades = bad && colorblind ? BLUE_SHADES : FROG_SHADES[frog.variety]
+  const height = large ? 32 : 24
+  const hopping = frog.vx !== 0 || frog.vy !== 0
+  ctx.save()
+  ctx.translate(frog.x, frog.y + (hopping ? 0 : bounce(time, height, 1)))
+
+  if (large) {
+    // Legs and arms sit behind the body
+    fillEllipse(ctx, 2, 16, 6, 16, [bad ? shades[700] : shades[600]])
+    fillEllipse(ctx, 32, 16, 6, 16, [bad ? shades[700] : shades[600]])
+    fillEllipse(ctx, 0, 8, 8, 12, [bad ? shades[600] : shades[500]])
+    fillEllipse(ctx, 32, 8, 8, 12, [bad ? shades[600] : shades[500]])
+  }
+
+  const [bodyX, bodyY, bodyW, bodyH] = large ? [4, 4, 32, 24] : [4, 4, 24, 16]
+  fillEllipse(ctx, bodyX, bodyY, bodyW, bodyH,
+    bad ? [shades[500], shades[700]] : [shades[400], shades[600]],
+    bad ? shades[400] : shades[300], large ? 2 : 1)
+
+  const [headX, headY, headW, headH] = large ? [8, 0, 24, 20] : [8, 0, 16, 12]
+  fillEllipse(ctx, headX, headY, headW, headH,
+    bad ? [shades[400], shades[600]] : [shades[300], shades[500]],
+    bad ? shades[500] : shades[400])
+
+  if (large) {
+    fillEllipse(ctx, 14, 12, 12, 4, [bad ? shades[800] : shades[600]])
+  }
+
+  const eyeSize = large ? 10 : 6
+  const pupilSize = large ? 6 : 4
+  const width = large ? 40 : 32
+  for (const eyeX of large ? [6, width - 6 - eyeSize] : [4, width - 4 - eyeSize]) {
+    fillEllipse(ctx, eyeX, 0, eyeSize, eyeSize, [bad ? shades[300] : colors.yellow400], colors.black)
+    fillEllipse(ctx, eyeX + (large ? 2 : 0), large ? 2 : 0, pupilSize, pupilSize, [bad ? shades[800] : colors.black])
+  }
+
+  if (frog.variety !== "common") {
+    ctx.globalAlpha = pulse(time)
+    emoji(ctx, FROG_VARIETIES[frog.variety].icon, width / 2, large ? -2 : 0, 12)
+  }
+  ctx.restore()
+}
+
+// Power-ups blink for their last couple of seconds on the field
+const drawPowerUp = (ctx: CanvasRenderingContext2D, powerUp: PowerUp, time: number) => {
+  ctx.save()
+  if (powerUp.timeLeft < 2) ctx.globalAlpha = pulse(time, 0.5)
+  fillEllipse(ctx, powerUp.x, powerUp.y, 28, 28, [colors.white], colors.yellow400, 2)
+  emoji(ctx, POWER_UP_INFO[powerUp.type].icon, powerUp.x + 14, powerUp.y + 15, 16)
+  ctx.restore()
+}
+
+const drawPortalExit = (ctx: CanvasRenderingContext2D, exit: { x: number; y: number }, locked: boolean, time: number) => {
+  ctx.save()
+  if (locked) {
+    ctx.globalAlpha = 0.5
+    fillEllipse(ctx, exit.x + 2, exit.y + 2, 44, 44, [colors.zinc500, colors.zinc700], colors.zinc300, 4)
+    emoji(ctx, "🔒", exit.x + 24, exit.y + 24, 18)
+    ctx.restore()
+    return
+  }
+  ctx.globalAlpha = pulse(time, 1.5)
+  fillEllipse(ctx, exit.x + 2, exit.y + 2, 44, 44, [colors.cyan400, colors.blue500], colors.yellow400, 4)
+  fillEllipse(ctx, exit.x + 8, exit.y + 8, 32, 32, [colors.cyan200, colors.blue300])
+  emoji(ctx, "🚪", exit.x + 24, exit.y + 24, 18)
+  ctx.globalAlpha = 1
+  ctx.fillStyle = colors.yellow400
+  ctx.font = "bold 12px sans-serif"
+  ctx.fillText("EXIT", exit.x + 24, exit.y - 14 + bounce(time, 16))
+  ctx.restore()
+}
+
+// Maze walls, sliding platforms and the keys still to find
+const drawPortalWorld = (ctx: CanvasRenderingContext2D, world: PortalWorld, time: number) => {
+  ctx.save()
+  for (const wall of world.walls) {
+    ctx.fillStyle = gradient(ctx, wall.x, wall.y, wall.x + wall.width, wall.y + wall.height, [colors.purple700, colors.purple800])
+    ctx.fillRect(wall.x, wall.y, wall.width, wall.height)
+  }
+  for (const platform of world.platforms) {
+    ctx.beginPath()
+    ctx.roundRect(platform.x, platform.y, platform.width, platform.height, 4)
+    ctx.fillStyle = gradient(ctx, platform.x, platform.y, platform.x + platform.width, platform.y + platform.height, [colors.amber500, colors.amber700])
+    ctx.fill()
+    ctx.lineWidth = 2
+    ctx.strokeStyle = colors.amber300
+    ctx.stroke()
+  }
+  ctx.restore()
+  world.keys
+    .filter((key) => !key.collected)
+    .forEach((key) => emoji(ctx, "🔑", key.x + KEY_SIZE / 2, key.y + KEY_SIZE / 2 + bounce(time, KEY_SIZE), KEY_SIZE - 4))
+}
+
+// Black everywhere but a pool of light around the head
+const drawDarkness = (ctx: CanvasRenderingContext2D, state: GameState, width: number, height: number) => {
+  const x = state.birdX + BIRD_SIZE / 2
+  const y = state.birdY + BIRD_SIZE / 2
+  const light = ctx.createRadialGradient(x, y, LIGHT_RADIUS * 0.4, x, y, LIGHT_RADIUS)
+  light.addColorStop(0, "rgba(0, 0, 0, 0)")
+  light.addColorStop(1, "rgba(0, 0, 0, 0.95)")
+  ctx.fillStyle = light
+  ctx.fillRect(0, 0, width, height)
+}
+
+const drawPipes = (ctx: CanvasRenderingContext2D, state: GameState, height: number, time: number) => {
+  for (const pipe of state.pipes) {
+    const stops = pipe.isSpecial
+      ? [colors.purple700, colors.purple500]
+      : state.isAdvancedLevel
+      ? [colors.red800, colors.red600]
+      : [colors.green800, colors.green600]
+    const border = pipe.isSpecial ? colors.purple300 : state.isAdvancedLevel ? colors.red300 : colors.foreground
+    const bottomTop = pipe.topHeight + pipe.gap
+    const segments = [
+      { y: pipe.topHeight, top: 0, h: pipe.topHeight, radii: [0, 0, 8, 8], bands: [8, pipe.topHeight - 20] },
+      { y: bottomTop, top: bottomTop, h: height - bottomTop, radii: [8, 8, 0, 0], bands: [bottomTop + 16, height - 12] },
+    ]
+
+    for (const segment of segments) {
+      // Gradient runs from the pipe's open end towards the screen edge
+      const edge = segment.top === 0 ? 0 : height
+      ctx.fillStyle = gradient(ctx, 0, edge, 0, segment.y, [stops[1], stops[0]])
+      ctx.beginPath()
+      ctx.roundRect(pipe.x, segment.top, PIPE_WIDTH, segment.h, segment.radii)
+      ctx.fill()
+      ctx.lineWidth = 2
+      ctx.strokeStyle = border
+      ctx.stroke()
+
+      ctx.fillStyle = "rgba(0, 0, 0, 0.2)"
+      segment.bands.forEach((bandY) => ctx.fillRect(pipe.x, bandY, PIPE_WIDTH, 4))
+
+      if (pipe.isSpecial) {
+        ctx.save()
+        ctx.globalAlpha = pulse(time)
+        ctx.fillStyle = gradient(ctx, 0, segment.top, 0, segment.top + segment.h, ["rgba(34, 211, 238, 0.3)", "rgba(192, 132, 252, 0.3)"])
+        ctx.fillRect(pipe.x + 8, segment.top + 8, PIPE_WIDTH - 16, Math.max(0, segment.h - 16))
+        ctx.restore()
+      }
+    }
+  }
+}
+
+// A pipe half from `top` down to `bottom`, shaded from its open end
+const fillPipeHalf = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  top: number,
+  bottom: number,
+  openEnd: number,
+  stops: string[],
+  border: string
+) => {
+  const closedEnd = openEnd === top ? bottom : top
+  ctx.fillStyle = gradient(ctx, 0, closedEnd, 0, openEnd, stops)
+  ctx.beginPath()
+  ctx.roundRect(x, top, PIPE_WIDTH, Math.max(0, bottom - top), openEnd === top ? [8, 8, 0, 0] : [0, 0, 8, 8])
+  ctx.fill()
+  ctx.lineWidth = 2
+  ctx.strokeStyle = border
+  ctx.stroke()
+}
+
+const drawRotatingBar = (ctx: CanvasRenderingContext2D, bar: RotatingBar) => {
+  const { x1, y1, x2, y2 } = getBarEnds(bar)
+  ctx.save()
+  ctx.lineCap = "round"
+  ctx.strokeStyle = colors.zinc800
+  ctx.lineWidth = BAR_THICKNESS + 4
+  ctx.beginPath()
+  ctx.moveTo(x1, y1)
+  ctx.lineTo(x2, y2)
+  ctx.stroke()
+  ctx.strokeStyle = gradient(ctx, x1, y1, x2, y2, [colors.zinc500, colors.zinc300, colors.zinc500])
+  ctx.lineWidth = BAR_THICKNESS
+  ctx.stroke()
+  fillEllipse(ctx, bar.x + bar.length / 2 - 8, bar.y - 8, 16, 16, [colors.zinc800], colors.zinc400, 2)
+  ctx.restore()
+}
+
+const HAZARD_STRIPES = 5
+
+const drawClosingGate = (ctx: CanvasRenderingContext2D, gate: ClosingGate, height: number) => {
+  const gap = getGateGap(gate)
+  fillPipeHalf(ctx, gate.x, 0, gap.top, gap.top, [colors.slate700, colors.slate500], colors.slate900)
+  fillPipeHalf(ctx, gate.x, gap.bottom, height, gap.bottom, [colors.slate700, colors.slate500], colors.slate900)
+  // Hazard stripes along both closing edges
+  for (const edge of [gap.top - 12, gap.bottom]) {
+    for (let i = 0; i < HAZARD_STRIPES; i++) {
+      ctx.fillStyle = i % 2 === 0 ? colors.yellow400 : colors.slate900
+      ctx.fillRect(gate.x + (i * PIPE_WIDTH) / HAZARD_STRIPES, edge, PIPE_WIDTH / HAZARD_STRIPES, 12)
+    }
+  }
+}
+
+const drawMine = (ctx: CanvasRenderingContext2D, mine: SpikedMine, time: number) => {
+  const centerX = mine.x + MINE_RADIUS
+  ctx.save()
+  ctx.strokeStyle = colors.zinc300
+  ctx.lineWidth = 3
+  ctx.lineCap = "round"
+  for (let i = 0; i < 8; i++) {
+    const angle = (i * Math.PI) / 4
+    ctx.beginPath()
+    ctx.moveTo(centerX + Math.cos(angle) * MINE_RADIUS * 0.6, mine.y + Math.sin(angle) * MINE_RADIUS * 0.6)
+    ctx.lineTo(centerX + Math.cos(angle) * (MINE_RADIUS + 5), mine.y + Math.sin(angle) * (MINE_RADIUS + 5))
+    ctx.stroke()
+  }
+  fillEllipse(ctx, mine.x, mine.y - MINE_RADIUS, MINE_RADIUS * 2, MINE_RADIUS * 2, [colors.zinc600, colors.zinc900], colors.zinc400, 2)
+  ctx.globalAlpha = pulse(time)
+  fillEllipse(ctx, centerX - 4, mine.y - 4, 8, 8, [colors.red500])
+  ctx.restore()
+}
+
+const drawLaser = (ctx: CanvasRenderingContext2D, laser: LaserSweep, time: number) => {
+  ctx.save()
+  if (isLaserFiring(laser)) {
+    ctx.shadowColor = colors.red500
+    ctx.shadowBlur = 8
+    ctx.fillStyle = colors.red500
+    ctx.fillRect(laser.x + 8, laser.y - 3, LASER_WIDTH - 16, 6)
+  } else if (isLaserWarming(laser)) {
+    ctx.globalAlpha = pulse(time, 0.3) * 0.6
+    ctx.fillStyle = colors.red300
+    ctx.fillRect(laser.x + 8, laser.y - 0.5, LASER_WIDTH - 16, 1)
+  }
+  ctx.restore()
+  for (const x of [laser.x, laser.x + LASER_WIDTH - 12]) {
+    ctx.fillStyle = colors.zinc700
+    ctx.fillRect(x, laser.y - 8, 12, 16)
+    ctx.lineWidth = 1
+    ctx.strokeStyle = colors.zinc400
+    ctx.strokeRect(x, laser.y - 8, 12, 16)
+  }
+}
+
+// Smashed pipes are left as stumps at the edges
+const drawBreakablePipe = (ctx: CanvasRenderingContext2D, pipe: BreakablePipe, height: number) => {
+  const gapBottom = pipe.topHeight + pipe.gap
+  const top = pipe.broken ? Math.min(pipe.topHeight, 24) : pipe.topHeight
+  const bottom = pipe.broken ? Math.max(gapBottom, height - 72) : gapBottom
+  fillPipeHalf(ctx, pipe.x, 0, top, top, [colors.amber900, colors.amber700], colors.amber950)
+  fillPipeHalf(ctx, pipe.x, bottom, height, bottom, [colors.amber900, colors.amber700], colors.amber950)
+
+  ctx.strokeStyle = colors.amber950
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  ctx.moveTo(pipe.x + 12, top - 20)
+  ctx.lineTo(pipe.x + 28, top - 8)
+  ctx.lineTo(pipe.x + 22, top - 2)
+  ctx.moveTo(pipe.x + 40, bottom + 6)
+  ctx.lineTo(pipe.x + 30, bottom + 18)
+  ctx.lineTo(pipe.x + 44, bottom + 30)
+  ctx.stroke()
+}
+
+const OBSTACLE_PAINTERS: Record<ObstacleKind, (ctx: CanvasRenderingContext2D, obstacle: Obstacle, height: number, time: number) => void> = {
+  rotatingBar: (ctx, obstacle) => drawRotatingBar(ctx, obstacle as RotatingBar),
+  closingGate: (ctx, obstacle, height) => drawClosingGate(ctx, obstacle as ClosingGate, height),
+  mine: (ctx, obstacle, _height, time) => drawMine(ctx, obstacle as SpikedMine, time),
+  laser: (ctx, obstacle, _height, time) => drawLaser(ctx, obstacle as LaserSweep, time),
+  breakablePipe: (ctx, obstacle, height) => drawBreakablePipe(ctx, obstacle as BreakablePipe, height),
+}
+
+// The "!" over an enemy about to attack
+const drawWarningMark = (ctx: CanvasRenderingContext2D, x: number, y: number, time: number) => {
+  ctx.save()
+  ctx.globalAlpha = pulse(time)
+  ctx.fillStyle = colors.red500
+  ctx.font = "bold 18px sans-serif"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "bottom"
+  ctx.fillText("!", x, y)
+  ctx.restore()
+}
+
+// While it takes aim, a crosshair marks where the dive will land
+const drawHawk = (ctx: CanvasRenderingContext2D, hawk: Hawk, time: number) => {
+  if (hawk.mode === "warning") {
+    ctx.save()
+    ctx.globalAlpha = pulse(time)
+    ctx.setLineDash([4, 3])
+    ctx.lineWidth = 2
+    ctx.strokeStyle = colors.red500
+    ellipse(ctx, hawk.targetX - 16, hawk.targetY - 16, 32, 32)
+    ctx.stroke()
+    ctx.restore()
+    drawWarningMark(ctx, hawk.x, hawk.y - HAWK_SIZE / 2, time)
+  }
+  ctx.save()
+  ctx.translate(hawk.x, hawk.y)
+  if (hawk.vx > 0) ctx.scale(-1, 1)
+  emoji(ctx, "🦅", 0, 0, HAWK_SIZE * 0.8)
+  ctx.restore()
+}
+
+// Flattens itself while crouching to leap
+const drawMongoose = (ctx: CanvasRenderingContext2D, mongoose: Mongoose, time: number) => {
+  const facingRight = mongoose.vx !== 0 ? mongoose.vx > 0 : mongoose.targetX > mongoose.x
+  if (mongoose.mode === "crouch") {
+    drawWarningMark(ctx, mongoose.x, mongoose.y - MONGOOSE_HEIGHT, time)
+  }
+  ctx.save()
+  ctx.translate(mongoose.x, mongoose.y + MONGOOSE_HEIGHT / 2)
+  ctx.scale(facingRight ? 1 : -1, mongoose.mode === "crouch" ? 0.7 : 1)
+  ctx.translate(-MONGOOSE_WIDTH / 2, -MONGOOSE_HEIGHT)
+  ctx.fillStyle = colors.amber700
+  ctx.beginPath()
+  ctx.roundRect(-8, 8, 16, 6, 3)
+  ctx.fill()
+  fillEllipse(ctx, 4, 4, MONGOOSE_WIDTH - 8, MONGOOSE_HEIGHT - 4, [colors.amber500, colors.amber700], colors.amber900)
+  fillEllipse(ctx, MONGOOSE_WIDTH - 8, 0, 12, 12, [colors.amber700], colors.amber900)
+  fillEllipse(ctx, MONGOOSE_WIDTH - 2, 4, 4, 4, [colors.black])
+  ctx.restore()
+}
+
+// The bats' eyes glow red while the swarm bunches up to swoop
+const drawBatSwarm = (ctx: CanvasRenderingContext2D, swarm: BatSwarm, time: number) => {
+  const gathering = swarm.mode === "gather"
+  if (gathering) {
+    drawWarningMark(ctx, swarm.x, swarm.y - BAT_SIZE * 1.5, time)
+  }
+  ctx.save()
+  if (gathering) {
+    ctx.shadowColor = colors.red500
+    ctx.shadowBlur = 6
+  }
+  swarm.bats.forEach((bat) => emoji(ctx, "🦇", bat.x, bat.y, BAT_SIZE * 0.9))
+  ctx.restore()
+}
+
+const ENEMY_PAINTERS: Record<EnemyKind, (ctx: CanvasRenderingContext2D, enemy: Enemy, time: number) => void> = {
+  hawk: (ctx, enemy, time) => drawHawk(ctx, enemy as Hawk, time),
+  mongoose: (ctx, enemy, time) => drawMongoose(ctx, enemy as Mongoose, time),
+  batSwarm: (ctx, enemy, time) => drawBatSwarm(ctx, enemy as BatSwarm, time),
+}
+
+const stroke = (ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number, width: number, color: string) => {
+  ctx.beginPath()
+  ctx.moveTo(x1, y1)
+  ctx.lineTo(x2, y2)
+  ctx.lineWidth = width
+  ctx.strokeStyle = color
+  ctx.stroke()
+}
+
+// While it takes aim a crosshair marks where the beak will land; while the
+// beak is stuck its head glows as the spot to bite
+const drawHeron = (ctx: CanvasRenderingContext2D, heron: Heron, time: number) => {
+  const base = getNeckBase(heron)
+  const head = getHeronHead(heron)
+  if (heron.mode === "aiming") {
+    ctx.save()
+    ctx.globalAlpha = pulse(time)
+    ctx.setLineDash([4, 3])
+    ctx.lineWidth = 2
+    ctx.strokeStyle = colors.red500
+    ellipse(ctx, heron.targetX - 16, heron.targetY - 16, 32, 32)
+    ctx.stroke()
+    ctx.restore()
+    drawWarningMark(ctx, head.x, head.y - HERON_HEAD_RADIUS, time)
+  }
+
+  ctx.save()
+  ctx.lineCap = "round"
+  const legTop = HERON_BODY_Y + HERON_BODY_HEIGHT - 6
+  for (const offset of [-15, 15]) {
+    stroke(ctx, heron.x + offset, legTop, heron.x + offset, legTop + HERON_LEG_LENGTH + 6, 6, colors.amber500)
+  }
+  fillEllipse(ctx, heron.x - HERON_BODY_WIDTH / 2, HERON_BODY_Y, HERON_BODY_WIDTH, HERON_BODY_HEIGHT, [colors.slate300, colors.slate500], colors.slate700, 2)
+  stroke(ctx, base.x, base.y, head.x, head.y, 12, colors.slate600)
+  stroke(ctx, base.x, base.y, head.x, head.y, 9, colors.slate300)
+  stroke(
+    ctx,
+    head.x,
+    head.y,
+    head.x + Math.cos(head.angle) * HERON_BEAK_LENGTH,
+    head.y + Math.sin(head.angle) * HERON_BEAK_LENGTH,
+    6,
+    colors.amber400
+  )
+
+  const size = HERON_HEAD_RADIUS * 2
+  if (heron.mode === "stuck") {
+    ctx.globalAlpha = pulse(time)
+    fillEllipse(ctx, head.x - HERON_HEAD_RADIUS - 4, head.y - HERON_HEAD_RADIUS - 4, size + 8, size + 8, [colors.red400])
+    ctx.globalAlpha = 1
+  }
+  fillEllipse(ctx, head.x - HERON_HEAD_RADIUS, head.y - HERON_HEAD_RADIUS, size, size, [colors.slate100, colors.slate300], heron.mode === "stuck" ? colors.red500 : colors.slate600, 2)
+  fillEllipse(ctx, head.x - 1, head.y - HERON_HEAD_RADIUS + 4, 8, 8, [colors.yellow400], colors.black)
+  ctx.restore()
+}
+
+const BOSS_PAINTERS: Record<BossKind, (ctx: CanvasRenderingContext2D, boss: Boss, time: number) => void> = {
+  heron: (ctx, boss, time) => drawHeron(ctx, boss as Heron, time),
+}
+
+const drawGround = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.fillStyle = gradient(ctx, 0, height - GROUND_HEIGHT, 0, height, [colors.green700, colors.green900])
+  ctx.fillRect(0, height - GROUND_HEIGHT, width, GROUND_HEIGHT)
+  ctx.fillStyle = colors.foreground
+  ctx.fillRect(0, height - GROUND_HEIGHT, width, 2)
+}
+
+// Portal bands sit above the pipes and the ground, as they do in the DOM (z-10)
+const drawPortalGaps = (ctx: CanvasRenderingContext2D, state: GameState, time: number) => {
+  for (const pipe of state.pipes) {
+    if (!pipe.isSpecial) continue
+    const x = pipe.x - 5
+    const y = pipe.topHeight + pipe.gap * 0.3
+    const width = PIPE_WIDTH + 10
+    const height = pipe.gap * 0.4
+
+    ctx.save()
+    ctx.globalAlpha = pulse(time)
+    ctx.beginPath()
+    ctx.roundRect(x, y, width, height, 4)
+    ctx.fillStyle = gradient(ctx, x, 0, x + width, 0, [colors.cyan400, colors.purple400])
+    ctx.fill()
+    ctx.lineWidth = 2
+    ctx.strokeStyle = colors.yellow400
+    ctx.stroke()
+    ctx.fillStyle = colors.white
+    ctx.font = "bold 12px sans-serif"
+    ctx.textAlign = "center"
+    ctx.textBaseline = "middle"
+    ctx.fillText("🌀PORTAL🌀", x + width / 2, y + height / 2)
+    ctx.restore()
+  }
+}
+
+const drawBodySegments = (ctx: CanvasRenderingContext2D, state: GameState) => {
+  const style = SEGMENT_STYLES[getTier(state)]
+  // Later segments are drawn first so the ones nearer the head overlap them
+  for (let index = state.bodySegments.length - 1; index >= 0; index--) {
+    const segment = state.bodySegments[index]
+    const width = Math.max(15, 25 - index * 1.5)
+    const height = Math.max(12, 20 - index * 1.2)
+    fillEllipse(ctx, segment.x, segment.y, width, height, style.fill, style.border, 2)
+  }
+}
+
+const getHeadRotation = (state: GameState) => {
+  const { x, y } = state.birdDirection
+  const degrees = x > 0 ? 15 : x < 0 ? -15 : y > 0 ? 90 : y < 0 ? -90 : 0
+  return (degrees * Math.PI) / 180
+}
+
+const drawHead = (ctx: CanvasRenderingContext2D, state: GameState, time: number) => {
+  const style = HEAD_STYLES[getTier(state)]
+  const width = Math.min(50, 30 + state.frogsEaten * 3)
+  const height = Math.min(40, 25 + state.frogsEaten * 2)
+
+  ctx.save()
+  ctx.translate(state.birdX + width / 2, state.birdY + height / 2 + (state.isEating ? bounce(time, height) : 0))
+  ctx.rotate(getHeadRotation(state))
+  if (isPowerUpActive(state, "shrink")) {
+    ctx.scale(SHRINK_SCALE, SHRINK_SCALE)
+  }
+  if (isPowerUpActive(state, "shield")) {
+    fillEllipse(ctx, -width / 2 - 8, -height / 2 - 8, width + 16, height + 16, ["rgba(165, 243, 252, 0.2)"], colors.cyan300, 2)
+  }
+  if (state.isBadFrogReaction) {
+    ctx.scale(1.1, 1.1)
+  }
+  ctx.translate(-width / 2, -height / 2)
+  if (state.isInvincible) {
+    ctx.globalAlpha = 0.7 * pulse(time)
+  } else if (state.inSpecialWorld) {
+    ctx.globalAlpha = pulse(time)
+  }
+
+  fillEllipse(ctx, 0, 0, width, height, style.fill, style.border, 2)
+
+  // Snake body trail, growing with frogs eaten
+  ctx.fillStyle = style.fill[0]
+  ctx.beginPath()
+  ctx.roundRect(0, Math.max(3, 8 - state.frogsEaten * 0.3), Math.min(8, 3 + state.frogsEaten * 0.5), Math.min(12, 4 + state.frogsEaten * 0.8), [6, 0, 0, 6])
+  ctx.fill()
+
+  fillEllipse(ctx, 8, 4, 10, 10, [style.spots[0]])
+  fillEllipse(ctx, 4, 12, 8, 8, [style.spots[1]])
+
+  const eyeShift = state.isBadFrogReaction ? -4 : 0
+  const pupil = state.isEating || state.isBadFrogReaction ? colors.red600 : colors.black
+  for (const eyeX of [width - 8 - 12, width - 2 - 12]) {
+    fillEllipse(ctx, eyeX + eyeShift, 6, 12, 12, [style.eye], colors.black, 2)
+    fillEllipse(ctx, eyeX + eyeShift + 2, 8, 8, 8, [pupil])
+  }
+
+  // Mouth opens and shows teeth while eating
+  ctx.beginPath()
+  if (state.isEating) {
+    ctx.roundRect(width - 16, 8, 16, 12, [0, 6, 6, 0])
+    ctx.fillStyle = colors.red600
+    ctx.fill()
+    ctx.fillStyle = colors.white
+    for (const [toothX, toothY] of [[width - 12, 8], [width - 12, 16], [width - 8, 8], [width - 8, 16]]) {
+      ctx.fillRect(toothX, toothY, 4, 4)
+    }
+  } else {
+    ctx.roundRect(width - 12, 12, 12, 4, [0, 2, 2, 0])
+    ctx.fillStyle = colors.green800
+    ctx.fill()
+  }
+
+  // Forked tongue
+  ctx.fillStyle = colors.red500
+  ctx.fillRect(width - (state.isEating ? 8 : 12), state.isEating ? 10 : 12, state.isEating ? 8 : 12, 2)
+  ctx.fillRect(width - 4, state.isEating ? 8 : 10, 4, 2)
+
+  // Crown for legendary snakes
+  if (state.frogsEaten >= 10) {
+    emoji(ctx, "👑", width / 2, -4 + bounce(time, 12), 12)
+  }
+  ctx.restore()
+}
+
+// Draw one frame of the playfield. `time` (seconds) only drives cosmetic
+// animations such as bouncing frogs and pulsing portals.
+export interface DrawOptions {
+  colorblind?: boolean
+}
+
+export function drawGame(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  width: number,
+  height: number,
+  time: number,
+  { colorblind = false }: DrawOptions = {}
+) {
+  drawBackground(ctx, state, width, height)
+
+  if (state.inSpecialWorld) {
+    if (state.portalWorld) drawPortalWorld(ctx, state.portalWorld, time)
+    state.worldCoins.forEach((frog) => !frog.collected && drawFrog(ctx, frog, true, time, colorblind))
+    if (state.portalExit) drawPortalExit(ctx, state.portalExit, !isExitOpen(state.portalWorld), time)
+  } else {
+    state.mainWorldFrogs.forEach((frog) => !frog.collected && drawFrog(ctx, frog, false, time, colorblind))
+    state.powerUps.forEach((powerUp) => drawPowerUp(ctx, powerUp, time))
+    drawPipes(ctx, state, height, time)
+    state.obstacles.forEach((obstacle) => OBSTACLE_PAINTERS[obstacle.kind](ctx, obstacle, height, time))
+  }
+
+  drawGround(ctx, width, height)
+
+  if (!state.inSpecialWorld) {
+    drawPortalGaps(ctx, state, time)
+  }
+
+  const world = state.inSpecialWorld ? "portal" : "main"
+  state.enemies
+    .filter((enemy) => isEnemyIn(enemy, world))
+    .forEach((enemy) => ENEMY_PAINTERS[enemy.kind](ctx, enemy, time))
+
+  if (state.inSpecialWorld && state.boss) {
+    BOSS_PAINTERS[state.boss.kind](ctx, state.boss, time)
+  }
+
+  drawBodySegments(ctx, state)
+  drawHead(ctx, state, time)
+
+  if (state.inSpecialWorld && state.portalWorld?.dark) {
+    drawDarkness(ctx, state, width, height)
+  }
+}
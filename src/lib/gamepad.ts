@@ -0,0 +1,40 @@
+import { EMPTY_INPUT, inputFromStick, mergeInputFrames } from "@/game/input"
+import type { InputFrame } from "@/game/types"
+
+// Button indices in the browser's "standard" gamepad mapping
+export const GAMEPAD_BUTTONS = {
+  a: 0,
+  start: 9,
+  dpadUp: 12,
+  dpadDown: 13,
+  dpadLeft: 14,
+  dpadRight: 15,
+} as const
+
+export type GamepadButton = keyof typeof GAMEPAD_BUTTONS
+
+// Stick travel ignored around the centre, where worn sticks drift
+const STICK_DEADZONE = 0.2
+
+export const isButtonPressed = (gamepad: Gamepad, button: GamepadButton) =>
+  gamepad.buttons[GAMEPAD_BUTTONS[button]]?.pressed ?? false
+
+// First connected pad; browsers leave empty slots as null
+export const getActiveGamepad = () =>
+  typeof navigator.getGamepads === "function"
+    ? navigator.getGamepads().find((gamepad): gamepad is Gamepad => gamepad !== null) ?? null
+    : null
+
+// Left stick steers with analog speed; the d-pad always moves at full speed
+export function inputFromGamepad(gamepad: Gamepad | null): InputFrame {
+  if (!gamepad) return EMPTY_INPUT
+
+  const [stickX = 0, stickY = 0] = gamepad.axes
+  const dpad: InputFrame = {
+    up: isButtonPressed(gamepad, "dpadUp"),
+    down: isButtonPressed(gamepad, "dpadDown"),
+    left: isButtonPressed(gamepad, "dpadLeft"),
+    right: isButtonPressed(gamepad, "dpadRight"),
+  }
+  return mergeInputFrames(inputFromStick(stickX, stickY, STICK_DEADZONE), dpad)
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { CLASSIC_SNAKE_RULES } from "@/game/constants"
+import { loadHighScores, recordRun, type RunRecord } from "./high-scores"
+
+const HIGH_SCORES_KEY = "snake-bird:high-scores"
+
+const store = new Map<string, string>()
+
+const storeRuns = (version: number, runs: object[]) =>
+  store.set(HIGH_SCORES_KEY, JSON.stringify({ version, runs }))
+
+const run = (overrides: Partial<RunRecord> = {}): RunRecord => ({
+  id: "run",
+  mode: "classic",
+  difficulty: "normal",
+  rulesId: "normal",
+  snakeRules: CLASSIC_SNAKE_RULES,
+  score: 10,
+  frogsEaten: 2,
+  portalsEntered: 1,
+  duration: 30,
+  reachedAdvancedLevel: false,
+  date: "2024-05-01T12:00:00.000Z",
+  seed: 1,
+  ...overrides,
+})
+
+// What every version stored about a run, before the fields later ones added
+const { mode: _mode, difficulty: _difficulty, rulesId: _rulesId, snakeRules: _snakeRules, ...versionOneRun } = run()
+
+beforeEach(() => {
+  store.clear()
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+  })
+})
+
+describe("high scores", () => {
+  it("file version 1 runs as classic runs on normal rules", () => {
+    storeRuns(1, [versionOneRun])
+    expect(loadHighScores()).toEqual([run()])
+  })
+
+  it("keep version 3 runs on their difficulty with the classic snake", () => {
+    storeRuns(3, [{ ...versionOneRun, mode: "seeded", difficulty: "hard" }, { ...versionOneRun, mode: "classic", difficulty: "custom" }])
+    expect(loadHighScores()).toEqual([
+      run({ mode: "seeded", difficulty: "hard", rulesId: "hard" }),
+      run({ difficulty: "custom", rulesId: "custom" }),
+    ])
+  })
+
+  it("load current runs as stored, and drop anything unrecognised", () => {
+    const trueSnake = run({ rulesId: "custom-fa3cb8b6", snakeRules: { bodyCollision: true, selfCollision: false } })
+    storeRuns(4, [trueSnake])
+    expect(loadHighScores()).toEqual([trueSnake])
+
+    storeRuns(99, [trueSnake])
+    expect(loadHighScores()).toEqual([])
+    store.set(HIGH_SCORES_KEY, "not json")
+    expect(loadHighScores()).toEqual([])
+  })
+
+  it("only count a new best against runs on the same rules", () => {
+    recordRun(run({ score: 50 }))
+    expect(recordRun(run({ score: 20, rulesId: "hard" })).isNewBest).toBe(true)
+    expect(recordRun(run({ score: 20, snakeRules: { bodyCollision: true, selfCollision: false } })).isNewBest).toBe(true)
+    expect(recordRun(run({ score: 40 })).isNewBest).toBe(false)
+  })
+})
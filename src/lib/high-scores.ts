@@ -0,0 +1,117 @@
+import { CLASSIC_SNAKE_RULES } from "@/game/constants"
+import { getRulesId, getSnakeRulesId } from "@/game/rules"
+import type { Difficulty, GameState, SnakeRules } from "@/game/types"
+
+export const MAX_HIGH_SCORES = 100
+
+// "seeded" runs were played on a fixed seed (e.g. a competition link)
+export type GameMode = "classic" | "seeded"
+
+export interface RunRecord {
+  id: string
+  mode: GameMode
+  // Rule set the run was played on. Scores only compare between runs with
+  // the same `rulesId` (see getRulesId) and snake rules.
+  difficulty: Difficulty
+  rulesId: string
+  snakeRules: SnakeRules
+  score: number
+  frogsEaten: number
+  portalsEntered: number
+  // Seconds of play
+  duration: number
+  reachedAdvancedLevel: boolean
+  // ISO timestamp of when the run ended
+  date: string
+  seed: number
+}
+
+const HIGH_SCORES_KEY = "snake-bird:high-scores"
+const HIGH_SCORES_VERSION = 4
+
+interface StoredHighScores {
+  version: number
+  runs: RunRecord[]
+}
+
+export function createRunRecord(state: GameState, mode: GameMode, endedAt = new Date()): RunRecord {
+  return {
+    id: `${endedAt.getTime()}-${state.seed}`,
+    mode,
+    difficulty: state.difficulty,
+    rulesId: getRulesId(state.difficulty, state.rules),
+    snakeRules: state.snakeRules,
+    score: state.coins,
+    frogsEaten: state.frogsEaten,
+    portalsEntered: state.usedPortalIds.size,
+    duration: state.elapsedTime,
+    reachedAdvancedLevel: state.reachedAdvancedLevel,
+    date: endedAt.toISOString(),
+    seed: state.seed,
+  }
+}
+
+// Bring older stored formats up to the current version; unknown data is dropped
+function migrate(stored: { version?: number; runs?: unknown }): RunRecord[] {
+  if (!Array.isArray(stored.runs)) return []
+
+  switch (stored.version) {
+    case 1:
+      // Version 1 predates game modes; every run then was a classic one
+      return migrate({ version: 2, runs: stored.runs.map((run) => ({ ...run, mode: "classic" })) })
+    case 2:
+      // Version 2 didn't record the rule set; most runs were played on normal
+      return migrate({ version: 3, runs: stored.runs.map((run) => ({ ...run, difficulty: "normal" })) })
+    case 3:
+      // Version 3 kept neither the custom rules nor the snake rules. Its custom
+      // runs stay together under plain "custom", apart from newer ones, and
+      // most runs were played with the classic snake.
+      return stored.runs.map((run) => ({ ...run, rulesId: run.difficulty, snakeRules: CLASSIC_SNAKE_RULES }))
+    case HIGH_SCORES_VERSION:
+      return stored.runs as RunRecord[]
+    default:
+      return []
+  }
+}
+
+export function loadHighScores(): RunRecord[] {
+  try {
+    const stored = localStorage.getItem(HIGH_SCORES_KEY)
+    return stored ? migrate(JSON.parse(stored)) : []
+  } catch {
+    return []
+  }
+}
+
+function saveHighScores(runs: RunRecord[]) {
+  const stored: StoredHighScores = { version: HIGH_SCORES_VERSION, runs }
+  try {
+    localStorage.setItem(HIGH_SCORES_KEY, JSON.stringify(stored))
+  } catch {
+    // Storage can be full or disabled; the run is simply not kept
+  }
+}
+
+// Played on the same rules, so their scores can be compared
+export const isSameRules = (a: RunRecord, b: RunRecord) =>
+  a.rulesId === b.rulesId && getSnakeRulesId(a.snakeRules) === getSnakeRulesId(b.snakeRules)
+
+// Best score first; on a tie the earlier run keeps its place
+const byScore = (a: RunRecord, b: RunRecord) => b.score - a.score || a.date.localeCompare(b.date)
+
+export function recordRun(run: RunRecord) {
+  const previous = loadHighScores()
+  // A best only counts against runs played on the same rules
+  const previousBest = previous.find((other) => isSameRules(other, run))?.score ?? null
+  const runs = [...previous, run].sort(byScore).slice(0, MAX_HIGH_SCORES)
+  saveHighScores(runs)
+
+  return {
+    runs,
+    isNewBest: run.score > 0 && (previousBest === null || run.score > previousBest),
+  }
+}
+
+export function clearHighScores() {
+  saveHighScores([])
+}
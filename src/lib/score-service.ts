@@ -0,0 +1,122 @@
+import type { Replay } from "@/game/replay"
+import { verifyReplay } from "@/game/verify"
+import { getSnakeRulesId, type SnakeRulesId } from "@/game/rules"
+import { createRunRecord, loadHighScores, recordRun, type GameMode, type RunRecord } from "@/lib/high-scores"
+
+export type DateRange = "all" | "today" | "week" | "month"
+
+export interface LeaderboardEntry extends RunRecord {
+  playerName: string
+}
+
+// What a client sends: the full replay, whose `score` is the claimed score.
+// Services re-simulate it and derive the leaderboard entry themselves.
+export interface ScoreSubmission {
+  playerName: string
+  mode: GameMode
+  // ISO timestamp of when the run ended
+  date: string
+  replay: Replay
+}
+
+export interface ScoreQuery {
+  mode: GameMode | "all"
+  // A rules id from getRulesId, so custom runs only meet identical rules
+  rulesId: string | "all"
+  snakeRules: SnakeRulesId | "all"
+  range: DateRange
+  // 1-based
+  page: number
+  pageSize: number
+}
+
+export interface ScorePage {
+  entries: LeaderboardEntry[]
+  total: number
+}
+
+export interface ScoreService {
+  // Remote services share scores between players; the local one only sees this device
+  isRemote: boolean
+  listScores(query: ScoreQuery): Promise<ScorePage>
+  submitScore(submission: ScoreSubmission): Promise<void>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function getRangeStart(range: DateRange, now = new Date()): Date | null {
+  switch (range) {
+    case "today":
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    case "week":
+      return new Date(now.getTime() - 7 * DAY_MS)
+    case "month":
+      return new Date(now.getTime() - 30 * DAY_MS)
+    default:
+      return null
+  }
+}
+
+export function createLocalScoreService(): ScoreService {
+  return {
+    isRemote: false,
+    async listScores({ mode, rulesId, snakeRules, range, page, pageSize }) {
+      const since = getRangeStart(range)
+      const matching = loadHighScores().filter((run) =>
+        (mode === "all" || run.mode === mode) &&
+        (rulesId === "all" || run.rulesId === rulesId) &&
+        (snakeRules === "all" || getSnakeRulesId(run.snakeRules) === snakeRules) &&
+        (!since || new Date(run.date) >= since)
+      )
+      const start = (page - 1) * pageSize
+      return {
+        entries: matching.slice(start, start + pageSize).map((run) => ({ ...run, playerName: "You" })),
+        total: matching.length,
+      }
+    },
+    async submitScore({ mode, date, replay }) {
+      const result = verifyReplay(replay)
+      if (result.valid === false) {
+        throw new Error(`Replay rejected: ${result.reason}`)
+      }
+      recordRun(createRunRecord(result.state, mode, new Date(date)))
+    },
+  }
+}
+
+// Talks to a score server exposing GET /scores and POST /scores
+export function createHttpScoreService(baseUrl: string): ScoreService {
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    })
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      throw new Error(body?.error ?? `Score server responded with ${response.status}`)
+    }
+    return response
+  }
+
+  return {
+    isRemote: true,
+    async listScores({ mode, rulesId, snakeRules, range, page, pageSize }) {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) })
+      if (mode !== "all") params.set("mode", mode)
+      if (rulesId !== "all") params.set("rules", rulesId)
+      if (snakeRules !== "all") params.set("snake", snakeRules)
+      const since = getRangeStart(range)
+      if (since) params.set("since", since.toISOString())
+      const response = await request(`/scores?${params}`)
+      return response.json()
+    },
+    async submitScore(submission) {
+      await request("/scores", { method: "POST", body: JSON.stringify(submission) })
+    },
+  }
+}
+
+// Set VITE_SCORE_API_URL to use a score server instead of this device's history
+export const scoreService: ScoreService = import.meta.env.VITE_SCORE_API_URL
+  ? createHttpScoreService(import.meta.env.VITE_SCORE_API_URL)
+  : createLocalScoreService()
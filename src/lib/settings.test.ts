@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest"
+
+import { changesRunRules, DEFAULT_SETTINGS } from "./settings"
+
+describe("changesRunRules", () => {
+  it("notices the settings a run is built from", () => {
+    expect(changesRunRules(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS, difficulty: "hard" })).toBe(true)
+    const customRules = { ...DEFAULT_SETTINGS.customRules, pipeSpeed: 3 }
+    expect(changesRunRules(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS, customRules })).toBe(true)
+    expect(changesRunRules(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS, trueSnake: true })).toBe(true)
+  })
+
+  it("ignores everything else", () => {
+    expect(changesRunRules(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS, volume: 10, renderer: "canvas" })).toBe(false)
+    expect(changesRunRules(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS, customRules: { ...DEFAULT_SETTINGS.customRules } })).toBe(false)
+    // Self-collision only counts with the true snake rules on
+    expect(changesRunRules(DEFAULT_SETTINGS, { ...DEFAULT_SETTINGS, trueSnake: false, selfCollision: true })).toBe(false)
+  })
+})
@@ -0,0 +1,154 @@
+import { z } from "zod"
+
+import { DEFAULT_KEY_BINDINGS, type KeyBindings } from "@/game/input"
+import { DIFFICULTIES, NORMAL_RULES, RULE_FIELDS, RULE_KEYS, getSnakeRulesId } from "@/game/rules"
+import type { Difficulty, GameRules, SnakeRules } from "@/game/types"
+
+export type RendererKind = "dom" | "canvas"
+
+export interface GameSettings {
+  // Applies from the next run
+  difficulty: Difficulty
+  // The rules played when the difficulty is "custom"
+  customRules: GameRules
+  // True snake rules: the body collides with pipes, and optionally the head
+  // with the body. Both apply from the next run.
+  trueSnake: boolean
+  selfCollision: boolean
+  renderer: RendererKind
+  // Name shown on shared leaderboards
+  playerName: string
+  keyBindings: KeyBindings
+  // Master volume, 0-100
+  volume: number
+  // Sound effects and music are mixed under the master volume, each 0-100
+  sfxVolume: number
+  musicVolume: number
+  muted: boolean
+  // Freeze decorative animations on the board
+  reducedMotion: boolean
+  // Bad frogs turn blue instead of red so they stand out from green ones
+  colorblindPalette: boolean
+  // Close the portal game result by itself instead of waiting for Continue
+  autoDismissPortalGame: boolean
+}
+
+const boundKeys = z.array(z.string()).min(1, "Bind at least one key")
+const percentage = z.number().int().min(0).max(100)
+
+const customRulesSchema = z
+  .object(
+    Object.fromEntries(
+      RULE_KEYS.map((key) => [key, z.number().min(RULE_FIELDS[key].min).max(RULE_FIELDS[key].max)])
+    ) as Record<keyof GameRules, z.ZodNumber>
+  )
+  .refine((rules) => rules.minPipeGap <= rules.initialPipeGap, {
+    message: "Can't be wider than the starting gap",
+    path: ["minPipeGap"],
+  })
+
+export const settingsSchema = z.object({
+  difficulty: z.enum(DIFFICULTIES),
+  customRules: customRulesSchema,
+  trueSnake: z.boolean(),
+  selfCollision: z.boolean(),
+  renderer: z.enum(["dom", "canvas"]),
+  playerName: z.string().trim().max(24, "Keep it to 24 characters"),
+  keyBindings: z.object({
+    up: boundKeys,
+    down: boundKeys,
+    left: boundKeys,
+    right: boundKeys,
+    pause: boundKeys,
+    restart: boundKeys,
+    mute: boundKeys,
+  }),
+  volume: percentage,
+  sfxVolume: percentage,
+  musicVolume: percentage,
+  muted: z.boolean(),
+  reducedMotion: z.boolean(),
+  colorblindPalette: z.boolean(),
+  autoDismissPortalGame: z.boolean(),
+})
+
+const prefersReducedMotion = () =>
+  typeof window !== "undefined" && window.matchMedia?.("(prefers-reduced-motion: reduce)").matches
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  difficulty: "normal",
+  customRules: NORMAL_RULES,
+  trueSnake: false,
+  selfCollision: false,
+  renderer: "dom",
+  playerName: "",
+  keyBindings: DEFAULT_KEY_BINDINGS,
+  volume: 80,
+  sfxVolume: 100,
+  musicVolume: 60,
+  muted: false,
+  reducedMotion: prefersReducedMotion(),
+  colorblindPalette: false,
+  autoDismissPortalGame: false,
+}
+
+const SETTINGS_KEY = "snake-bird:settings"
+
+function loadSettings(): GameSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY)
+    if (!stored) return DEFAULT_SETTINGS
+    const parsed = JSON.parse(stored)
+    // Actions added after the bindings were saved fall back to their defaults
+    parsed.keyBindings = { ...DEFAULT_KEY_BINDINGS, ...parsed.keyBindings }
+
+    // Validate field by field, so one bad or outdated value only resets itself
+    const valid: Partial<Record<keyof GameSettings, unknown>> = {}
+    for (const [key, schema] of Object.entries(settingsSchema.shape)) {
+      const field = schema.safeParse(parsed[key])
+      if (field.success) valid[key as keyof GameSettings] = field.data
+    }
+    return { ...DEFAULT_SETTINGS, ...valid } as GameSettings
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+// Self-collision only counts as part of the true snake rules
+export function getSnakeRules(settings: GameSettings): SnakeRules {
+  return { bodyCollision: settings.trueSnake, selfCollision: settings.trueSnake && settings.selfCollision }
+}
+
+// A run started after the change from `previous` to `next` would play by
+// different rules
+export function changesRunRules(previous: GameSettings, next: GameSettings) {
+  return (
+    previous.difficulty !== next.difficulty ||
+    RULE_KEYS.some((key) => previous.customRules[key] !== next.customRules[key]) ||
+    getSnakeRulesId(getSnakeRules(previous)) !== getSnakeRulesId(getSnakeRules(next))
+  )
+}
+
+let currentSettings = loadSettings()
+const listeners = new Set<() => void>()
+
+export function getSettings() {
+  return currentSettings
+}
+
+export function updateSettings(patch: Partial<GameSettings>) {
+  currentSettings = { ...currentSettings, ...patch }
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(currentSettings))
+  } catch {
+    // Storage can be full or disabled; keep the in-memory settings anyway
+  }
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeSettings(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
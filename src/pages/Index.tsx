@@ -1,9 +1,14 @@
+import { useSearchParams } from "react-router-dom";
 import { FlappyBird } from "@/components/FlappyBird";
 
 const Index = () => {
+  const [searchParams] = useSearchParams();
+  const seedParam = searchParams.get("seed");
+  const seed = seedParam !== null && /^\d+$/.test(seedParam) ? Number(seedParam) >>> 0 : undefined;
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center">
-      <FlappyBird />
+      <FlappyBird seed={seed} />
     </div>
   );
 };
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  SNAKE_RULES_LABELS,
+  getGameRules,
+  getRulesId,
+  getSnakeRulesId,
+  type SnakeRulesId
+} from "@/game/rules";
+import type { Difficulty } from "@/game/types";
+import { useLeaderboard } from "@/hooks/use-leaderboard";
+import { useSettings } from "@/hooks/use-settings";
+import { getSnakeRules } from "@/lib/settings";
+import { scoreService, type DateRange, type ScoreQuery } from "@/lib/score-service";
+import { formatDuration } from "@/lib/utils";
+
+const PAGE_SIZE = 10;
+
+// Page numbers to show: first, last and the neighbours of the current page
+const getVisiblePages = (page: number, pageCount: number) => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  return [...pages].filter(p => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+};
+
+const Leaderboard = () => {
+  const [settings, updateSettings] = useSettings();
+  // "Custom" means the player's own custom rules; other custom runs only
+  // show under all rules
+  const getRulesIdFor = (difficulty: Difficulty) =>
+    getRulesId(difficulty, getGameRules(difficulty, settings.customRules));
+  // Start on the player's own rule set, so scores are compared like for like
+  const [query, setQuery] = useState<ScoreQuery>(() => ({
+    mode: 'all',
+    rulesId: getRulesIdFor(settings.difficulty),
+    snakeRules: getSnakeRulesId(getSnakeRules(settings)),
+    range: 'all',
+    page: 1,
+    pageSize: PAGE_SIZE
+  }));
+  const { data, isLoading, isError, error } = useLeaderboard(query);
+
+  const selectedDifficulty = DIFFICULTIES.find(difficulty => getRulesIdFor(difficulty) === query.rulesId) ?? 'all';
+  const pageCount = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+  const goToPage = (page: number) => setQuery(prev => ({ ...prev, page: Math.max(1, Math.min(pageCount, page)) }));
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center gap-4 p-4">
+      <h1 className="text-4xl font-bold">🏆 Leaderboard</h1>
+      <p className="text-sm text-muted-foreground">
+        {scoreService.isRemote ? 'Scores from every player' : 'Scores played on this device'}
+      </p>
+
+      <div className="flex flex-wrap items-end justify-center gap-4">
+        <div className="space-y-1">
+          <Label>Mode</Label>
+          <Select
+            value={query.mode}
+            onValueChange={mode => setQuery(prev => ({ ...prev, mode: mode as ScoreQuery['mode'], page: 1 }))}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All modes</SelectItem>
+              <SelectItem value="classic">Classic</SelectItem>
+              <SelectItem value="seeded">Seeded</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Rules</Label>
+          <Select
+            value={selectedDifficulty}
+            onValueChange={difficulty => setQuery(prev => ({
+              ...prev,
+              rulesId: difficulty === 'all' ? 'all' : getRulesIdFor(difficulty as Difficulty),
+              page: 1
+            }))}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All rules</SelectItem>
+              {DIFFICULTIES.map(difficulty => (
+                <SelectItem key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Snake</Label>
+          <Select
+            value={query.snakeRules}
+            onValueChange={snakeRules => setQuery(prev => ({ ...prev, snakeRules: snakeRules as ScoreQuery['snakeRules'], page: 1 }))}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any snake</SelectItem>
+              {(Object.keys(SNAKE_RULES_LABELS) as SnakeRulesId[]).map(id => (
+                <SelectItem key={id} value={id}>{SNAKE_RULES_LABELS[id]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Date</Label>
+          <Select
+            value={query.range}
+            onValueChange={range => setQuery(prev => ({ ...prev, range: range as DateRange, page: 1 }))}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All time</SelectItem>
+              <SelectItem value="today">Today</SelectItem>
+              <SelectItem value="week">Past 7 days</SelectItem>
+              <SelectItem value="month">Past 30 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {scoreService.isRemote && (
+          <div className="space-y-1">
+            <Label htmlFor="player-name">Your name</Label>
+            <Input
+              id="player-name"
+              className="w-40"
+              maxLength={24}
+              placeholder="Anonymous"
+              value={settings.playerName}
+              onChange={e => updateSettings({ playerName: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="w-full max-w-2xl bg-card rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              <TableHead>Player</TableHead>
+              <TableHead>Score</TableHead>
+              <TableHead>Frogs</TableHead>
+              <TableHead>Portals</TableHead>
+              <TableHead>Time</TableHead>
+              <TableHead>Mode</TableHead>
+              <TableHead>Rules</TableHead>
+              <TableHead>Date</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data?.entries.map((entry, index) => (
+              <TableRow key={entry.id}>
+                <TableCell>{(query.page - 1) * PAGE_SIZE + index + 1}</TableCell>
+                <TableCell>{entry.playerName || 'Anonymous'}</TableCell>
+                <TableCell className="font-bold text-green-500">
+                  🐸 {entry.score}
+                  {entry.reachedAdvancedLevel && <span title="Reached advanced level"> 🔥</span>}
+                </TableCell>
+                <TableCell>{entry.frogsEaten}</TableCell>
+                <TableCell>{entry.portalsEntered}</TableCell>
+                <TableCell>{formatDuration(entry.duration)}</TableCell>
+                <TableCell className="capitalize">{entry.mode}</TableCell>
+                <TableCell title={SNAKE_RULES_LABELS[getSnakeRulesId(entry.snakeRules)]}>
+                  {DIFFICULTY_LABELS[entry.difficulty] ?? entry.difficulty}
+                  {entry.snakeRules.bodyCollision && ' 🐍'}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{format(new Date(entry.date), 'MMM d, HH:mm')}</TableCell>
+              </TableRow>
+            ))}
+            {!isLoading && !isError && data?.entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">
+                  No scores yet - go set one!
+                </TableCell>
+              </TableRow>
+            )}
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">Loading scores…</TableCell>
+              </TableRow>
+            )}
+            {isError && (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-destructive">
+                  Could not load scores: {error instanceof Error ? error.message : String(error)}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={e => { e.preventDefault(); goToPage(query.page - 1); }}
+              />
+            </PaginationItem>
+            {getVisiblePages(query.page, pageCount).map((page, index, pages) => (
+              <PaginationItem key={page}>
+                {index > 0 && page - pages[index - 1] > 1 && <PaginationEllipsis />}
+                <PaginationLink
+                  href="#"
+                  isActive={page === query.page}
+                  onClick={e => { e.preventDefault(); goToPage(page); }}
+                >
+                  {page}
+                </PaginationLink>
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={e => { e.preventDefault(); goToPage(query.page + 1); }}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      <Button asChild variant="outline">
+        <Link to="/">Back to the game</Link>
+      </Button>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,19 @@
+import { Link } from "react-router-dom";
+import { SettingsForm } from "@/components/SettingsForm";
+import { Button } from "@/components/ui/button";
+
+const Settings = () => {
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center gap-4 p-4">
+      <h1 className="text-4xl font-bold">⚙️ Settings</h1>
+      <div className="w-full max-w-lg bg-card rounded-lg border p-6">
+        <SettingsForm />
+      </div>
+      <Button asChild variant="outline">
+        <Link to="/">Back to the game</Link>
+      </Button>
+    </div>
+  );
+};
+
+export default Settings;
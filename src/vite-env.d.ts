@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the score server; the leaderboard stays local when unset
+  readonly VITE_SCORE_API_URL?: string;
+}